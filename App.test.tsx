@@ -0,0 +1,71 @@
+// @vitest-environment jsdom
+import React, { act } from 'react';
+import { createRoot, Root } from 'react-dom/client';
+import axe from 'axe-core';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import App from './App';
+import HelperConsole from './components/HelperConsole';
+import { createFakeEnvironment } from './services/fake-environment';
+
+(globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+
+let container: HTMLElement;
+let root: Root;
+
+beforeEach(() => {
+  container = document.body.appendChild(document.createElement('div'));
+  root = createRoot(container);
+});
+
+afterEach(() => {
+  act(() => root.unmount());
+  container.remove();
+  localStorage.clear();
+});
+
+const render = (element: React.ReactElement) => act(() => root.render(element));
+
+const settle = () => act(() => new Promise(resolve => setTimeout(resolve, 0)));
+
+// jsdom does no layout, so contrast can't be measured here.
+async function violations(): Promise<string[]> {
+  const results = await axe.run(container, { rules: { 'color-contrast': { enabled: false } } });
+  return results.violations.map(v => `${v.id}: ${v.nodes.map(node => node.target.join(' ')).join(', ')}`);
+}
+
+const buttonNamed = (name: string) =>
+  [...container.querySelectorAll('button')].find(button => button.textContent?.trim() === name)!;
+
+describe('accessibility', () => {
+  it('has no violations before connecting', async () => {
+    await render(<App environment={createFakeEnvironment().env} />);
+    expect(await violations()).toEqual([]);
+  });
+
+  it('keeps the camera toolbar out of the gesture surface while the camera runs', async () => {
+    await render(<App environment={createFakeEnvironment().env} />);
+    await act(async () => { document.body.dispatchEvent(new KeyboardEvent('keydown', { key: 'c', bubbles: true })); });
+    await settle();
+
+    const toolbar = container.querySelector('[role="toolbar"]');
+    expect(toolbar).not.toBeNull();
+    expect(toolbar!.closest('[role="button"]')).toBeNull();
+    expect(await violations()).toEqual([]);
+  });
+
+  it('has no violations in the settings and task panels', async () => {
+    await render(<App environment={createFakeEnvironment().env} />);
+    await act(async () => buttonNamed('Settings').click());
+    expect(await violations()).toEqual([]);
+
+    await act(async () => buttonNamed('Settings').click());
+    await act(async () => buttonNamed('Tasks').click());
+    await settle();
+    expect(await violations()).toEqual([]);
+  });
+
+  it('has no violations on the helper page', async () => {
+    await render(<HelperConsole />);
+    expect(await violations()).toEqual([]);
+  });
+});
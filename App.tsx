@@ -1,502 +1,673 @@
 
-import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { GoogleGenAI, Modality } from '@google/genai';
-import { ConnectionStatus } from './types';
-import { 
-  decode, 
-  decodeAudioData, 
-  createBlobFromAudioData, 
-  encode 
-} from './utils/audio-utils';
-
-const FRAME_RATE = 2; 
-const JPEG_QUALITY = 0.5;
-
-const SYSTEM_INSTRUCTION = `
-You are Vision Guide AI — a high-performance accessibility assistant for the visually impaired.
-Your primary directive is to provide real-time spatial guidance.
-
-========================
-CRITICAL LANGUAGE RULE: STICK TO ENGLISH
-========================
-- YOU MUST ONLY USE ENGLISH. 
-- ALWAYS translate any non-English user speech (Hindi, Marathi, etc.) into English context.
-- ALL generated text, ALL spoken responses, and ALL reasoning MUST be in English.
-- Use clear, plain, and professional English at all times.
-
-========================
-PERCEPTION & REASONING
-========================
-1) SCANNING: Default state. Say "Scanning room..." or "Looking for [object]...".
-2) GUIDING: Triggered when target is visible. Say "TARGET ACQUIRED".
-3) DIRECTIONS: Provide clear steps: "Move left", "Step forward", "Object at 3 o'clock".
-
-========================
-UI KEYWORDS
-========================
-- Keywords for UI state: FOUND, TARGET, ACQUIRED, SCANNING, LOST SIGHT.
-- Keep output extremely concise.
-`;
-
-type PerceptionState = 'IDLE' | 'SCANNING' | 'LOCKING' | 'GUIDING';
-
-interface Message {
-  role: 'user' | 'model';
-  text: string;
+import React, { useState, useRef, useEffect } from 'react';
+import { ConnectionStatus, PerceptionState } from './types';
+import SessionHistoryPanel from './components/SessionHistoryPanel';
+import MemoryPanel from './components/MemoryPanel';
+import TaskPanel from './components/TaskPanel';
+import CameraControls from './components/CameraControls';
+import { LANGUAGES } from './i18n/languages';
+import LanguagePicker from './components/LanguagePicker';
+import SettingsPanel from './components/SettingsPanel';
+import { describeDirection, describeDistance, loadUserProfile, saveUserProfile, UserProfile } from './utils/user-profile';
+import { HAPTIC_INTENSITIES } from './utils/haptics';
+import { TapGesture, TapGestureRecognizer } from './utils/tap-gestures';
+import { activeTask, taskProgress } from './utils/task-list';
+import { describeSessionError } from './services/vision-guide-session';
+import { helperPageUrl } from './services/caregiver-link';
+import { useVisionGuide } from './hooks/useVisionGuide';
+import { SessionEnvironment } from './services/media-sources';
+
+interface AppProps {
+  /** Host for the session engine; the browser's by default, fakes in tests. */
+  environment?: SessionEnvironment;
 }
 
-const App: React.FC = () => {
-  const [status, setStatus] = useState<ConnectionStatus>(ConnectionStatus.DISCONNECTED);
-  const [perceptionState, setPerceptionState] = useState<PerceptionState>('IDLE');
-  const [history, setHistory] = useState<Message[]>([]);
-  const [currentInput, setCurrentInput] = useState("");
-  const [currentOutput, setCurrentOutput] = useState("");
-  const [isCameraActive, setIsCameraActive] = useState(false);
-  const [errorMessage, setErrorMessage] = useState<string | null>(null);
-  
-  const videoRef = useRef<HTMLVideoElement>(null);
-  const canvasRef = useRef<HTMLCanvasElement>(null);
-  const sessionRef = useRef<any>(null);
-  const mediaStreamRef = useRef<MediaStream | null>(null);
-  const audioContextInRef = useRef<AudioContext | null>(null);
-  const audioContextOutRef = useRef<AudioContext | null>(null);
-  const nextStartTimeRef = useRef<number>(0);
-  const sourcesRef = useRef<Set<AudioBufferSourceNode>>(new Set());
-  const frameIntervalRef = useRef<number | null>(null);
+const App: React.FC<AppProps> = ({ environment }) => {
+  const [profile, setProfile] = useState<UserProfile>(loadUserProfile);
+  const { state, session, exportMetrics } = useVisionGuide(profile, environment);
+  const {
+    status, guidance, history, currentInput, currentOutput, isCameraActive, isUserSpeaking, uplinkStats,
+    metrics, localHazard, isRecording, isReplaying, replayFrame, replayResult, isMuted, isVideoPaused, tasks, caregiver,
+  } = state;
+  const perceptionState = guidance.perception;
+  const currentTask = activeTask(tasks);
+  const [sidePanel, setSidePanel] = useState<'feed' | 'history' | 'memory' | 'settings' | 'tasks'>('feed');
+  const [announcement, setAnnouncement] = useState("");
+  const language = LANGUAGES[profile.language];
+  const ui = language.ui;
+  const errorMessage = state.error && describeSessionError(ui, state.error);
 
-  const activeInputRef = useRef("");
-  const activeOutputRef = useRef("");
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const replayFileRef = useRef<HTMLInputElement>(null);
+  const languageRef = useRef(language);
+  const profileRef = useRef(profile);
+
+  // Gesture surface and keyboard shortcuts dispatch through this so the
+  // listeners, registered once, always reach the current handlers.
+  const controlsRef = useRef<Record<'connect' | 'stop' | 'repeat' | 'mute' | 'read', () => void>>({
+    connect: () => {}, stop: () => {}, repeat: () => {}, mute: () => {}, read: () => {},
+  });
+  const gesturesRef = useRef(new TapGestureRecognizer((gesture: TapGesture) => {
+    const controls = controlsRef.current;
+    // Each control checks the connection state itself, so a tap connects
+    // when idle and repeats when linked without the two ever both firing.
+    if (gesture === 'tap') { controls.connect(); controls.repeat(); }
+    else if (gesture === 'doubleTap') controls.mute();
+    else if (gesture === 'tripleTap') controls.read();
+    else controls.stop();
+  }));
 
-  // Effect to attach stream when video element becomes available or state changes
   useEffect(() => {
-    if (isCameraActive && videoRef.current && mediaStreamRef.current) {
-      videoRef.current.srcObject = mediaStreamRef.current;
-    }
-  }, [isCameraActive]);
-
-  const cleanupSession = useCallback(() => {
-    if (sessionRef.current) {
-      try { sessionRef.current.close(); } catch(e) {}
-      sessionRef.current = null;
-    }
-    if (frameIntervalRef.current) {
-      window.clearInterval(frameIntervalRef.current);
-      frameIntervalRef.current = null;
-    }
-    if (mediaStreamRef.current) {
-      mediaStreamRef.current.getTracks().forEach(track => track.stop());
-      mediaStreamRef.current = null;
-    }
-    sourcesRef.current.forEach(source => { try { source.stop(); } catch(e){} });
-    sourcesRef.current.clear();
-    nextStartTimeRef.current = 0;
-    
-    setStatus(ConnectionStatus.DISCONNECTED);
-    setPerceptionState('IDLE');
-    setIsCameraActive(false);
-    activeInputRef.current = "";
-    activeOutputRef.current = "";
-    setCurrentInput("");
-    setCurrentOutput("");
-  }, []);
-
-  const startSession = async () => {
-    try {
-      setErrorMessage(null);
-      setStatus(ConnectionStatus.CONNECTING);
-      
-      let stream: MediaStream;
-      try {
-        stream = await navigator.mediaDevices.getUserMedia({ 
-          audio: true, 
-          video: { 
-            facingMode: 'environment',
-            width: { ideal: 1280 }, 
-            height: { ideal: 720 } 
-          } 
-        });
-      } catch (mediaErr: any) {
-        stream = await navigator.mediaDevices.getUserMedia({ audio: true, video: true });
-      }
-      
-      mediaStreamRef.current = stream;
-      setIsCameraActive(true); // Trigger UI change to render video element
-
-      audioContextInRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
-      audioContextOutRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
-      await audioContextInRef.current.resume();
-      await audioContextOutRef.current.resume();
+    profileRef.current = profile;
+    languageRef.current = LANGUAGES[profile.language];
+    saveUserProfile(profile);
+  }, [profile]);
 
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
-      const sessionPromise = ai.live.connect({
-        model: 'gemini-2.5-flash-native-audio-preview-09-2025',
-        config: {
-          responseModalities: [Modality.AUDIO],
-          systemInstruction: SYSTEM_INSTRUCTION,
-          speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Kore' } } },
-          inputAudioTranscription: {},
-          outputAudioTranscription: {},
-        },
-        callbacks: {
-          onopen: () => {
-            setStatus(ConnectionStatus.CONNECTED);
-            setPerceptionState('SCANNING');
-            
-            const source = audioContextInRef.current!.createMediaStreamSource(stream);
-            const processor = audioContextInRef.current!.createScriptProcessor(4096, 1, 1);
-            
-            processor.onaudioprocess = (e) => {
-              const inputData = e.inputBuffer.getChannelData(0);
-              const pcmBlob = createBlobFromAudioData(inputData);
-              sessionPromise.then(session => {
-                if (session) session.sendRealtimeInput({ media: pcmBlob });
-              }).catch(() => {});
-            };
-            
-            source.connect(processor);
-            processor.connect(audioContextInRef.current!.destination);
-
-            frameIntervalRef.current = window.setInterval(() => {
-              if (videoRef.current && canvasRef.current) {
-                const canvas = canvasRef.current;
-                const video = videoRef.current;
-                const ctx = canvas.getContext('2d');
-                if (ctx && video.videoWidth > 0) {
-                  const scale = 0.5;
-                  canvas.width = video.videoWidth * scale;
-                  canvas.height = video.videoHeight * scale;
-                  ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
-                  canvas.toBlob(async (blob) => {
-                    if (blob) {
-                      const reader = new FileReader();
-                      reader.onloadend = () => {
-                        const base64Data = (reader.result as string).split(',')[1];
-                        sessionPromise.then(session => {
-                          if (session) session.sendRealtimeInput({ media: { data: base64Data, mimeType: 'image/jpeg' } });
-                        }).catch(() => {});
-                      };
-                      reader.readAsDataURL(blob);
-                    }
-                  }, 'image/jpeg', JPEG_QUALITY);
-                }
-              }
-            }, 1000 / FRAME_RATE);
-          },
-          onmessage: async (message) => {
-            const audioData = message.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
-            if (audioData && audioContextOutRef.current) {
-              const ctx = audioContextOutRef.current;
-              nextStartTimeRef.current = Math.max(nextStartTimeRef.current, ctx.currentTime);
-              const buffer = await decodeAudioData(decode(audioData), ctx, 24000);
-              const source = ctx.createBufferSource();
-              source.buffer = buffer;
-              source.connect(ctx.destination);
-              source.onended = () => sourcesRef.current.delete(source);
-              source.start(nextStartTimeRef.current);
-              nextStartTimeRef.current += buffer.duration;
-              sourcesRef.current.add(source);
-            }
-
-            if (message.serverContent?.interrupted) {
-              sourcesRef.current.forEach(s => { try { s.stop(); } catch(e){} });
-              sourcesRef.current.clear();
-              nextStartTimeRef.current = 0;
-            }
-
-            if (message.serverContent?.inputTranscription) {
-              activeInputRef.current += message.serverContent.inputTranscription.text;
-              setCurrentInput(activeInputRef.current);
-            }
+  // Polite screen reader announcements for state the HUD only shows visually.
+  useEffect(() => {
+    setAnnouncement(languageRef.current.ui.status[status]);
+  }, [status]);
 
-            if (message.serverContent?.outputTranscription) {
-              activeOutputRef.current += message.serverContent.outputTranscription.text;
-              setCurrentOutput(activeOutputRef.current);
+  useEffect(() => {
+    if (perceptionState !== 'IDLE') setAnnouncement(languageRef.current.ui.perception[perceptionState]);
+  }, [perceptionState]);
 
-              const lower = activeOutputRef.current.toLowerCase();
-              if (lower.includes("found") || lower.includes("acquired") || lower.includes("see it")) {
-                setPerceptionState('LOCKING');
-              } else if (lower.includes("step") || lower.includes("move") || lower.includes("left") || lower.includes("right") || lower.includes("ahead")) {
-                setPerceptionState('GUIDING');
-              } else if (lower.includes("scanning") || lower.includes("lost sight") || lower.includes("looking")) {
-                setPerceptionState('SCANNING');
-              }
-            }
+  useEffect(() => {
+    const target = guidance.target;
+    if (!target) return;
+    const strings = languageRef.current.ui;
+    const { directions, units } = profileRef.current;
+    setAnnouncement(strings.targetAt(
+      target.label,
+      describeDirection(strings, target.clockDirection, directions),
+      describeDistance(strings, target.distanceSteps, units),
+    ));
+  }, [guidance.target?.label]);
+
+  // The session owns the camera; the view only previews it.
+  useEffect(() => {
+    if (videoRef.current) videoRef.current.srcObject = state.preview;
+  }, [state.preview]);
+
+  const cycleHapticIntensity = () => {
+    setProfile(prev => {
+      const next = HAPTIC_INTENSITIES[(HAPTIC_INTENSITIES.indexOf(prev.haptics.intensity) + 1) % HAPTIC_INTENSITIES.length];
+      return { ...prev, haptics: { enabled: next !== 'off', intensity: next } };
+    });
+  };
 
-            if (message.serverContent?.turnComplete) {
-              const finalInput = activeInputRef.current.trim();
-              const finalOutput = activeOutputRef.current.trim();
-              if (finalInput || finalOutput) {
-                setHistory(prev => [...prev, 
-                  ...(finalInput ? [{ role: 'user', text: finalInput } as Message] : []),
-                  ...(finalOutput ? [{ role: 'model', text: finalOutput } as Message] : [])
-                ].slice(-15));
-              }
-              activeInputRef.current = ""; 
-              activeOutputRef.current = "";
-              setCurrentInput(""); 
-              setCurrentOutput("");
-            }
-          },
-          onerror: (err) => {
-            console.error("Gemini Live Error:", err);
-            setErrorMessage("Link disrupted. Auto-reconnecting...");
-            cleanupSession();
-          },
-          onclose: () => cleanupSession()
-        }
-      });
-      sessionRef.current = await sessionPromise;
-    } catch (err: any) {
-      console.error("Initialization Failed:", err);
-      if (err.name === 'NotAllowedError' || err.message?.toLowerCase().includes('permission')) {
-        setErrorMessage("Permission denied. Enable Camera/Mic.");
-      } else {
-        setErrorMessage("Link failed. Check network.");
-      }
-      setStatus(ConnectionStatus.ERROR);
-      cleanupSession();
-    }
+  const startSession = () => session.start();
+  const cleanupSession = session.stop;
+  const toggleMute = session.toggleMute;
+  const toggleRecording = session.toggleRecording;
+  const startReplay = async (file: File) => session.replay(await file.text());
+  const replayTimeline = (states: PerceptionState[]) => states.map(state => ui.perception[state]).join(' → ');
+
+  // Read from the session, which derives them from the same state snapshot.
+  const { isIdle, isLinked } = session;
+  controlsRef.current = {
+    connect: () => { if (session.isIdle) session.start(); },
+    stop: () => { if (!session.isIdle) session.stop(); },
+    repeat: () => { if (session.isLinked) session.repeatLastInstruction(); },
+    mute: () => { if (session.isLinked) session.toggleMute(); },
+    read: () => { if (session.isLinked) session.readText(); },
   };
 
-  useEffect(() => cleanupSession, [cleanupSession]);
+  // Single-key shortcuts, ignored while typing or choosing in a form control.
+  useEffect(() => {
+    const gestures = gesturesRef.current;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.repeat || e.ctrlKey || e.metaKey || e.altKey) return;
+      const target = e.target as HTMLElement | null;
+      if (target?.closest('input, select, textarea, [contenteditable="true"]')) return;
+      const controls = controlsRef.current;
+      const key = e.key.toLowerCase();
+      if (key === 'c') controls.connect();
+      else if (key === 'escape') controls.stop();
+      else if (key === 'r') controls.repeat();
+      else if (key === 'm') controls.mute();
+      else if (key === 't') controls.read();
+      else return;
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => {
+      window.removeEventListener('keydown', onKeyDown);
+      gestures.dispose();
+    };
+  }, []);
 
   return (
     <div className="flex flex-col h-screen bg-[#020408] text-slate-100 overflow-hidden font-sans select-none">
+      <div aria-live="polite" aria-atomic="true" className="sr-only">{announcement}</div>
+      <p id="gesture-hint" className="sr-only">
+        {isIdle ? ui.a11y.gestureHintIdle : ui.a11y.gestureHintActive} {ui.a11y.shortcuts}
+      </p>
       {/* Header HUD */}
       <header className="px-4 py-3 md:px-6 md:py-4 border-b border-white/[0.05] flex justify-between items-center bg-black/90 backdrop-blur-3xl z-50 shrink-0">
         <div className="flex items-center gap-3 md:gap-6">
           <div className="hidden xs:flex items-center gap-2 bg-white/[0.05] px-3 py-1.5 rounded-xl border border-white/[0.1]">
             <div className={`w-2 h-2 rounded-full ${
               status === ConnectionStatus.CONNECTED ? 'bg-emerald-400 shadow-[0_0_8px_#10b981]' : 
-              status === ConnectionStatus.CONNECTING ? 'bg-amber-400 animate-pulse' : 
+              status === ConnectionStatus.CONNECTING || status === ConnectionStatus.RECONNECTING ? 'bg-amber-400 animate-pulse' : 
+              status === ConnectionStatus.OFFLINE ? 'bg-amber-500' : 
               status === ConnectionStatus.ERROR ? 'bg-rose-500' : 'bg-slate-700'
             }`} />
             <span className="text-[9px] font-black tracking-widest text-slate-300 uppercase leading-none">
-              {status === ConnectionStatus.CONNECTED ? 'LIVE' : status}
+              {status === ConnectionStatus.CONNECTED ? ui.live : ui.status[status]}
             </span>
           </div>
+          {status === ConnectionStatus.CONNECTED && (
+            <div className={`hidden xs:flex items-center gap-2 px-3 py-1.5 rounded-xl border transition-colors ${
+              isUserSpeaking ? 'bg-blue-600/20 border-blue-500/40' : 'bg-white/[0.02] border-white/[0.05]'
+            }`}>
+              <div className={`w-2 h-2 rounded-full ${isUserSpeaking ? 'bg-blue-400 animate-pulse' : 'bg-slate-700'}`} />
+              <span className="text-[9px] font-black tracking-widest text-slate-300 uppercase leading-none">
+                {isUserSpeaking ? ui.voice : ui.mic}
+              </span>
+            </div>
+          )}
           <h1 className="text-xl md:text-2xl font-black tracking-tighter text-white uppercase italic">
             Vision Guide <span className="text-blue-500">AI</span>
           </h1>
         </div>
         
         <div className="flex items-center gap-2 md:gap-4">
-          {errorMessage && (
-            <div className="hidden sm:flex items-center gap-2 px-4 py-2 bg-rose-500/10 border border-rose-500/20 rounded-xl">
-              <span className="text-[9px] font-bold text-rose-300 uppercase tracking-widest">{errorMessage}</span>
-            </div>
+          {session.hapticsSupported && (
+            <button
+              onClick={cycleHapticIntensity}
+              aria-label={`${ui.settings.haptics}: ${ui.settings.options[profile.haptics.intensity]}`}
+              className="px-3 py-2 md:px-4 md:py-3 rounded-xl md:rounded-2xl font-black text-[9px] md:text-[10px] tracking-widest uppercase border bg-white/[0.03] border-white/[0.1] text-slate-300 hover:bg-white/[0.08] transition-all active:scale-95"
+            >
+              {ui.settings.haptics}: {ui.settings.options[profile.haptics.intensity]}
+            </button>
+          )}
+          {isCameraActive && !isReplaying && (
+            <button
+              onClick={caregiver.status === 'off' ? () => session.shareWithHelper() : session.stopSharing}
+              aria-pressed={caregiver.status !== 'off'}
+              className={`px-3 py-2 md:px-4 md:py-3 rounded-xl md:rounded-2xl font-black text-[9px] md:text-[10px] tracking-widest uppercase border transition-all active:scale-95 ${
+                caregiver.status !== 'off' ? 'bg-teal-600/30 border-teal-500/50 text-teal-200' : 'bg-white/[0.03] border-white/[0.1] text-slate-300 hover:bg-white/[0.08]'
+              }`}
+            >
+              {caregiver.status === 'off' ? ui.caregiver.button : ui.caregiver.stop}
+            </button>
+          )}
+          {status === ConnectionStatus.CONNECTED && !isReplaying && (
+            <button
+              onClick={session.readText}
+              disabled={perceptionState === 'READING'}
+              aria-keyshortcuts="T"
+              className={`px-3 py-2 md:px-4 md:py-3 rounded-xl md:rounded-2xl font-black text-[9px] md:text-[10px] tracking-widest uppercase border transition-all active:scale-95 ${
+                perceptionState === 'READING' ? 'bg-violet-600/30 border-violet-500/50 text-violet-200 animate-pulse' : 'bg-white/[0.03] border-white/[0.1] text-slate-300 hover:bg-white/[0.08]'
+              }`}
+            >
+              {ui.reading.button}
+            </button>
+          )}
+          {status === ConnectionStatus.CONNECTED && !isReplaying && (
+            <button
+              onClick={toggleRecording}
+              aria-pressed={isRecording}
+              className={`px-3 py-2 md:px-4 md:py-3 rounded-xl md:rounded-2xl font-black text-[9px] md:text-[10px] tracking-widest uppercase border transition-all active:scale-95 ${
+                isRecording ? 'bg-rose-600/30 border-rose-500/50 text-rose-200 animate-pulse' : 'bg-white/[0.03] border-white/[0.1] text-slate-300 hover:bg-white/[0.08]'
+              }`}
+            >
+              {isRecording ? ui.recording.save : ui.recording.start}
+            </button>
+          )}
+          {isIdle && (
+            <>
+              <input
+                ref={replayFileRef}
+                type="file"
+                accept="application/json,.json"
+                hidden
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  e.target.value = '';
+                  if (file) startReplay(file);
+                }}
+              />
+              <button
+                onClick={() => replayFileRef.current?.click()}
+                className="px-3 py-2 md:px-4 md:py-3 rounded-xl md:rounded-2xl font-black text-[9px] md:text-[10px] tracking-widest uppercase border bg-white/[0.03] border-white/[0.1] text-slate-300 hover:bg-white/[0.08] transition-all active:scale-95"
+              >
+                {ui.recording.replay}
+              </button>
+            </>
+          )}
+          {isLinked && (
+            <button
+              onClick={toggleMute}
+              aria-pressed={isMuted}
+              aria-keyshortcuts="M"
+              className={`px-3 py-2 md:px-4 md:py-3 rounded-xl md:rounded-2xl font-black text-[9px] md:text-[10px] tracking-widest uppercase border transition-all active:scale-95 ${
+                isMuted ? 'bg-amber-600/30 border-amber-500/50 text-amber-200' : 'bg-white/[0.03] border-white/[0.1] text-slate-300 hover:bg-white/[0.08]'
+              }`}
+            >
+              {isMuted ? ui.a11y.unmute : ui.a11y.mute}
+            </button>
           )}
           <button 
-            onClick={status === ConnectionStatus.DISCONNECTED || status === ConnectionStatus.ERROR ? startSession : cleanupSession}
+            onClick={isIdle ? startSession : cleanupSession}
+            aria-keyshortcuts={isIdle ? 'C' : 'Escape'}
             className={`px-5 py-2.5 md:px-8 md:py-3 rounded-xl md:rounded-2xl font-black text-[10px] md:text-[11px] transition-all active:scale-95 tracking-widest uppercase border ${
-              status === ConnectionStatus.DISCONNECTED || status === ConnectionStatus.ERROR
+              isIdle
                 ? 'bg-blue-600 border-blue-500 text-white shadow-xl hover:bg-blue-500' 
                 : 'bg-rose-600/10 border-rose-500/30 text-rose-500 hover:bg-rose-500 hover:text-white'
             }`}
           >
-            {status === ConnectionStatus.DISCONNECTED || status === ConnectionStatus.ERROR ? 'Connect' : 'Stop'}
+            {isIdle ? ui.connect : ui.stop}
           </button>
         </div>
       </header>
 
+      {caregiver.room && (
+        <div role="status" className="shrink-0 px-4 py-2 md:px-6 bg-teal-500/10 border-b border-teal-500/20 flex items-center justify-center gap-3">
+          <span className="text-[10px] font-bold text-teal-200 uppercase tracking-widest">
+            {caregiver.status === 'connected' ? ui.caregiver.connected
+              : caregiver.status === 'requested' ? ui.caregiver.requested
+              : ui.caregiver.waiting(caregiver.room)}
+          </span>
+          {caregiver.status === 'requested' && (
+            <>
+              <button
+                onClick={session.acceptHelper}
+                className="px-3 py-1 rounded-xl bg-teal-600/40 border border-teal-400/50 text-[10px] font-black text-teal-100 uppercase tracking-widest hover:bg-teal-600/60"
+              >
+                {ui.caregiver.accept}
+              </button>
+              <button
+                onClick={session.stopSharing}
+                className="px-3 py-1 rounded-xl bg-white/[0.03] border border-white/[0.1] text-[10px] font-black text-slate-300 uppercase tracking-widest hover:bg-white/[0.08]"
+              >
+                {ui.caregiver.decline}
+              </button>
+            </>
+          )}
+          <a
+            href={helperPageUrl(caregiver.room)}
+            target="_blank"
+            rel="noreferrer"
+            className="text-[10px] font-black text-teal-300 uppercase tracking-widest underline"
+          >
+            {ui.caregiver.pageLink}
+          </a>
+        </div>
+      )}
+
+      {replayResult && !isReplaying && (
+        <div role="status" className={`shrink-0 px-4 py-2 md:px-6 border-b text-center text-[10px] font-bold uppercase tracking-widest ${
+          replayResult.matches ? 'bg-emerald-500/10 border-emerald-500/20 text-emerald-200' : 'bg-amber-500/10 border-amber-500/20 text-amber-200'
+        }`}>
+          {replayResult.matches
+            ? ui.recording.replayMatched(replayTimeline(replayResult.recorded))
+            : ui.recording.replayDiverged(replayTimeline(replayResult.recorded), replayTimeline(replayResult.replayed))}
+        </div>
+      )}
+
+      {/* Errors get their own strip so they stay visible on phones. */}
+      <div role="alert" className="shrink-0">
+        {errorMessage && (
+          <div className="px-4 py-2 md:px-6 bg-rose-500/10 border-b border-rose-500/20 text-center">
+            <span className="text-[10px] font-bold text-rose-300 uppercase tracking-widest">{errorMessage}</span>
+          </div>
+        )}
+      </div>
+
       {/* Main Container */}
       <main className="flex-1 flex flex-col lg:flex-row p-3 md:p-6 gap-3 md:gap-6 overflow-hidden min-h-0">
         
         {/* Optic View (Camera Window) */}
         <div className="flex-[1.4] lg:flex-[2.5] bg-[#07090d] rounded-2xl md:rounded-[3rem] overflow-hidden relative border border-white/[0.05] shadow-2xl shrink-0 lg:shrink">
-          {!isCameraActive && (
-            <div className="absolute inset-0 z-10 flex flex-col items-center justify-center p-6 md:p-12 overflow-y-auto scrollbar-hide bg-[#07090d]">
-              <div className="w-full max-w-2xl space-y-8 animate-in fade-in zoom-in duration-700">
-                <div className="flex items-center gap-4">
-                  <div className="w-12 h-12 md:w-16 md:h-16 bg-blue-600/10 border border-blue-500/30 rounded-2xl flex items-center justify-center">
-                    <svg className="w-6 h-6 md:w-8 md:h-8 text-blue-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
-                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" />
-                    </svg>
-                  </div>
-                  <div>
-                    <h2 className="text-xl md:text-3xl font-black text-white italic tracking-tighter uppercase">Sensory System Overview</h2>
-                    <p className="text-[10px] md:text-xs font-bold text-blue-400 uppercase tracking-[0.3em]">Protocol: Vision Guide 2.5</p>
+          {/* The camera toolbar sits beside the gesture surface, not inside it, so no control is nested in another. */}
+          <div
+            role="button"
+            tabIndex={0}
+            aria-label={ui.a11y.gestureSurface}
+            aria-describedby="gesture-hint"
+            onPointerDown={() => gesturesRef.current.pointerDown()}
+            onPointerCancel={() => gesturesRef.current.pointerCancel()}
+            onPointerLeave={() => gesturesRef.current.pointerCancel()}
+            onClick={() => gesturesRef.current.tap()}
+            onKeyDown={(e) => {
+              if (e.key !== 'Enter' && e.key !== ' ') return;
+              e.preventDefault();
+              controlsRef.current.connect();
+              controlsRef.current.repeat();
+            }}
+            className="absolute inset-0 rounded-2xl md:rounded-[3rem] focus:outline-none focus-visible:ring-4 focus-visible:ring-inset focus-visible:ring-blue-500/60 touch-manipulation"
+          >
+            {!isCameraActive && !isReplaying && (
+              <div className="absolute inset-0 z-10 flex flex-col items-center justify-center p-6 md:p-12 overflow-y-auto scrollbar-hide bg-[#07090d]">
+                <div className="w-full max-w-2xl space-y-8 animate-in fade-in zoom-in duration-700">
+                  <div className="flex items-center gap-4">
+                    <div className="w-12 h-12 md:w-16 md:h-16 bg-blue-600/10 border border-blue-500/30 rounded-2xl flex items-center justify-center">
+                      <svg className="w-6 h-6 md:w-8 md:h-8 text-blue-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" />
+                      </svg>
+                    </div>
+                    <div>
+                      <h2 className="text-xl md:text-3xl font-black text-white italic tracking-tighter uppercase">{ui.overview.title}</h2>
+                      <p className="text-[10px] md:text-xs font-bold text-blue-400 uppercase tracking-[0.3em]">{ui.overview.protocol}</p>
+                    </div>
                   </div>
-                </div>
 
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                  <div className="p-4 md:p-6 bg-white/[0.03] border border-white/[0.05] rounded-[2rem] space-y-2">
-                    <span className="text-[9px] font-black text-slate-500 uppercase tracking-widest">Feature 01</span>
-                    <h3 className="text-sm md:text-lg font-black text-white uppercase italic">Spatial Mapping</h3>
-                    <p className="text-xs md:text-sm text-slate-400 leading-relaxed font-medium">The AI constructs a real-time 3D model of your environment, identifying furniture, walls, and obstacles.</p>
-                  </div>
-                  <div className="p-4 md:p-6 bg-white/[0.03] border border-white/[0.05] rounded-[2rem] space-y-2">
-                    <span className="text-[9px] font-black text-slate-500 uppercase tracking-widest">Feature 02</span>
-                    <h3 className="text-sm md:text-lg font-black text-white uppercase italic">Object Lock</h3>
-                    <p className="text-xs md:text-sm text-slate-400 leading-relaxed font-medium">Ask for specific items. The AI scans the video feed to locate and highlight targets with precision guidance.</p>
-                  </div>
-                  <div className="p-4 md:p-6 bg-white/[0.03] border border-white/[0.05] rounded-[2rem] space-y-2">
-                    <span className="text-[9px] font-black text-slate-500 uppercase tracking-widest">Feature 03</span>
-                    <h3 className="text-sm md:text-lg font-black text-white uppercase italic">Voice Guidance</h3>
-                    <p className="text-xs md:text-sm text-slate-400 leading-relaxed font-medium">Step-by-step spatial directions. "Two steps forward," "Object at 3 o'clock," or "Clear path ahead."</p>
-                  </div>
-                  <div className="p-4 md:p-6 bg-blue-600/10 border border-blue-500/20 rounded-[2rem] flex flex-col justify-center items-center text-center">
-                    <div className="w-10 h-10 border-2 border-blue-500/30 border-t-blue-500 rounded-full animate-spin mb-3" />
-                    <p className="text-[10px] font-black text-blue-300 uppercase tracking-widest">Awaiting Neural Link</p>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    {ui.overview.features.map(feature => (
+                      <div key={feature.label} className="p-4 md:p-6 bg-white/[0.03] border border-white/[0.05] rounded-[2rem] space-y-2">
+                        <span className="text-[9px] font-black text-slate-500 uppercase tracking-widest">{feature.label}</span>
+                        <h3 className="text-sm md:text-lg font-black text-white uppercase italic">{feature.title}</h3>
+                        <p className="text-xs md:text-sm text-slate-400 leading-relaxed font-medium">{feature.body}</p>
+                      </div>
+                    ))}
+                    <div className="p-4 md:p-6 bg-blue-600/10 border border-blue-500/20 rounded-[2rem] flex flex-col justify-center items-center text-center">
+                      <div className="w-10 h-10 border-2 border-blue-500/30 border-t-blue-500 rounded-full animate-spin mb-3" />
+                      <p className="text-[10px] font-black text-blue-300 uppercase tracking-widest">{ui.overview.awaitingLink}</p>
+                    </div>
                   </div>
-                </div>
 
-                <div className="pt-4 border-t border-white/[0.05] flex items-center justify-between">
-                  <span className="text-[9px] font-bold text-slate-600 uppercase tracking-widest">Authorizing optic input will enable live stream</span>
-                  <div className="flex gap-2">
-                    <div className="w-1.5 h-1.5 rounded-full bg-slate-800" />
-                    <div className="w-1.5 h-1.5 rounded-full bg-slate-800" />
-                    <div className="w-1.5 h-1.5 rounded-full bg-slate-800" />
+                  <div className="pt-4 border-t border-white/[0.05] flex items-center justify-between">
+                    <span className="text-[9px] font-bold text-slate-600 uppercase tracking-widest">{ui.overview.hint}</span>
+                    <div className="flex gap-2">
+                      <div className="w-1.5 h-1.5 rounded-full bg-slate-800" />
+                      <div className="w-1.5 h-1.5 rounded-full bg-slate-800" />
+                      <div className="w-1.5 h-1.5 rounded-full bg-slate-800" />
+                    </div>
                   </div>
                 </div>
               </div>
-            </div>
-          )}
+            )}
           
-          <video 
-            ref={videoRef} 
-            autoPlay 
-            playsInline 
-            muted 
-            className={`w-full h-full object-cover transition-opacity duration-700 ${isCameraActive ? 'opacity-100' : 'opacity-0'}`}
-          />
-          <canvas ref={canvasRef} className="hidden" />
+            <video 
+              ref={videoRef} 
+              autoPlay 
+              playsInline 
+              muted 
+              className={`w-full h-full object-cover transition-opacity duration-700 ${isCameraActive ? 'opacity-100' : 'opacity-0'}`}
+            />
+            {isReplaying && replayFrame && (
+              <img src={replayFrame} alt={ui.recording.frame} className="absolute inset-0 w-full h-full object-cover" />
+            )}
+
+            {isCameraActive && localHazard !== 'OFF' && (
+              <div className={`absolute top-4 md:top-10 left-1/2 -translate-x-1/2 z-30 pointer-events-none px-4 py-2 md:px-6 md:py-3 rounded-xl md:rounded-2xl backdrop-blur-3xl border shadow-2xl transition-all duration-300 ${
+                localHazard === 'STOP' ? 'bg-rose-600/70 border-rose-400 text-white animate-pulse' :
+                localHazard === 'CAUTION' ? 'bg-amber-600/40 border-amber-400/50 text-white' :
+                'bg-black/40 border-white/10 text-slate-300'
+              }`}>
+                <span className="text-[9px] md:text-[12px] font-black uppercase tracking-[0.2em]">
+                  {localHazard === 'STOP' ? ui.path.stop : localHazard === 'CAUTION' ? ui.path.caution : ui.path.clear}
+                </span>
+              </div>
+            )}
           
-          {/* HUD Overlays (Only visible when connected) */}
-          {status === ConnectionStatus.CONNECTED && isCameraActive && (
-            <div className="absolute inset-0 pointer-events-none z-20 flex flex-col justify-between p-4 md:p-10">
-              <div className="flex justify-between items-start">
-                <div className={`px-4 py-2 md:px-6 md:py-3 rounded-xl md:rounded-2xl backdrop-blur-3xl border flex items-center gap-2 md:gap-4 shadow-2xl transition-all duration-700 ${
-                  perceptionState === 'SCANNING' ? 'bg-blue-600/40 border-blue-400/50 text-white' :
-                  perceptionState === 'LOCKING' ? 'bg-amber-600/40 border-amber-400/50 text-white' :
-                  'bg-emerald-600/40 border-emerald-400/50 text-white'
-                }`}>
-                  <div className={`w-2 h-2 md:w-2.5 md:h-2.5 rounded-full animate-pulse ${
-                     perceptionState === 'SCANNING' ? 'bg-blue-400' : perceptionState === 'LOCKING' ? 'bg-amber-400' : 'bg-emerald-400'
-                  }`} />
-                  <span className="text-[9px] md:text-[12px] font-black uppercase tracking-[0.2em]">{perceptionState}</span>
+            {/* HUD Overlays (Only visible when connected) */}
+            {status === ConnectionStatus.CONNECTED && (isCameraActive || isReplaying) && (
+              <div className="absolute inset-0 pointer-events-none z-20 flex flex-col justify-between p-4 md:p-10">
+                <div className="flex justify-between items-start">
+                  <div className={`px-4 py-2 md:px-6 md:py-3 rounded-xl md:rounded-2xl backdrop-blur-3xl border flex items-center gap-2 md:gap-4 shadow-2xl transition-all duration-700 ${
+                    perceptionState === 'SCANNING' ? 'bg-blue-600/40 border-blue-400/50 text-white' :
+                    perceptionState === 'LOCKING' ? 'bg-amber-600/40 border-amber-400/50 text-white' :
+                    perceptionState === 'READING' ? 'bg-violet-600/40 border-violet-400/50 text-white' :
+                    'bg-emerald-600/40 border-emerald-400/50 text-white'
+                  }`}>
+                    <div className={`w-2 h-2 md:w-2.5 md:h-2.5 rounded-full animate-pulse ${
+                       perceptionState === 'SCANNING' ? 'bg-blue-400' : perceptionState === 'LOCKING' ? 'bg-amber-400' : perceptionState === 'READING' ? 'bg-violet-400' : 'bg-emerald-400'
+                    }`} />
+                    <span className="text-[9px] md:text-[12px] font-black uppercase tracking-[0.2em]">{ui.perception[perceptionState]}</span>
+                  </div>
+                  {caregiver.takeover && (
+                    <div className="px-4 py-2 md:px-6 md:py-3 rounded-xl md:rounded-2xl backdrop-blur-3xl border bg-teal-600/40 border-teal-400/50 text-white shadow-2xl">
+                      <span className="text-[9px] md:text-[12px] font-black uppercase tracking-[0.2em]">{ui.caregiver.hud}</span>
+                    </div>
+                  )}
+                  {tasks && (
+                    <div className="px-4 py-2 md:px-6 md:py-3 rounded-xl md:rounded-2xl backdrop-blur-3xl border bg-black/60 border-white/20 text-slate-200 shadow-2xl">
+                      <span className="text-[9px] md:text-[12px] font-black uppercase tracking-[0.2em]">
+                        {ui.tasks.progress(taskProgress(tasks).found, tasks.items.length)}
+                      </span>
+                    </div>
+                  )}
+                  {isVideoPaused && (
+                    <div className="px-4 py-2 md:px-6 md:py-3 rounded-xl md:rounded-2xl backdrop-blur-3xl border bg-black/60 border-white/20 text-slate-200 shadow-2xl">
+                      <span className="text-[9px] md:text-[12px] font-black uppercase tracking-[0.2em]">{ui.cameraPaused}</span>
+                    </div>
+                  )}
+                  {guidance.hazard && (
+                    <div className="px-4 py-2 md:px-6 md:py-3 rounded-xl md:rounded-2xl backdrop-blur-3xl border bg-rose-600/50 border-rose-400/60 text-white shadow-2xl">
+                      <span className="text-[9px] md:text-[12px] font-black uppercase tracking-[0.2em]">
+                        {ui.hazard}: {guidance.hazard.description}{guidance.hazard.clockDirection ? `, ${describeDirection(ui, guidance.hazard.clockDirection, profile.directions)}` : ''}
+                      </span>
+                    </div>
+                  )}
                 </div>
-              </div>
 
-              <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
-                {perceptionState === 'SCANNING' ? (
-                  <div className="w-[85%] h-[1px] bg-blue-500/50 shadow-[0_0_20px_rgba(59,130,246,0.6)] animate-[scan_3s_ease-in-out_infinite]" />
-                ) : (
-                  <div className={`w-32 h-32 md:w-56 md:h-56 border-[2px] md:border-[4px] border-dashed rounded-full animate-spin-slow opacity-60 ${
-                    perceptionState === 'LOCKING' ? 'border-amber-400' : 'border-emerald-400'
-                  }`} />
-                )}
-              </div>
+                <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+                  {perceptionState === 'SCANNING' ? (
+                    <div className="w-[85%] h-[1px] bg-blue-500/50 shadow-[0_0_20px_rgba(59,130,246,0.6)] animate-[scan_3s_ease-in-out_infinite]" />
+                  ) : (
+                    <div className={`w-32 h-32 md:w-56 md:h-56 border-[2px] md:border-[4px] border-dashed rounded-full animate-spin-slow opacity-60 ${
+                      perceptionState === 'LOCKING' ? 'border-amber-400' : perceptionState === 'READING' ? 'border-violet-400' : 'border-emerald-400'
+                    }`} />
+                  )}
+                </div>
 
-              <div className="w-full flex justify-center">
-                <div className="bg-black/80 backdrop-blur-3xl border border-white/10 p-4 md:p-10 rounded-2xl md:rounded-[4rem] shadow-2xl max-w-xl w-full text-center">
-                  <p className="text-sm md:text-2xl font-black text-white italic tracking-tight leading-tight">
-                    {perceptionState === 'SCANNING' ? 'Analyzing Environment...' : 'Target Identified. Following instructions.'}
-                  </p>
+                <div className="w-full flex justify-center">
+                  <div className="bg-black/80 backdrop-blur-3xl border border-white/10 p-4 md:p-10 rounded-2xl md:rounded-[4rem] shadow-2xl max-w-xl w-full text-center">
+                    <p className="text-sm md:text-2xl font-black text-white italic tracking-tight leading-tight">
+                      {perceptionState === 'SCANNING'
+                        ? currentTask ? ui.tasks.lookingFor(currentTask.label) : ui.analyzingEnvironment
+                        : perceptionState === 'READING'
+                          ? ui.reading.hud
+                          : guidance.target
+                          ? ui.targetAt(
+                              guidance.target.label,
+                              describeDirection(ui, guidance.target.clockDirection, profile.directions),
+                              describeDistance(ui, guidance.target.distanceSteps, profile.units),
+                            )
+                          : currentTask ? ui.tasks.lookingFor(currentTask.label) : ui.targetIdentified}
+                    </p>
+                  </div>
                 </div>
               </div>
-            </div>
+            )}
+          </div>
+
+          {isCameraActive && (
+            <CameraControls
+              ui={ui}
+              camera={state.camera}
+              onTorch={session.toggleTorch}
+              onZoom={session.zoom}
+              onSwitchLens={session.switchLens}
+            />
           )}
         </div>
 
         {/* Data Feed (Chat Window) */}
         <div className="flex-1 lg:flex-none lg:w-[400px] xl:w-[480px] bg-[#07090d] rounded-2xl md:rounded-[3rem] border border-white/[0.05] flex flex-col shadow-2xl overflow-hidden min-h-0">
           <div className="px-5 py-4 md:px-8 md:py-7 border-b border-white/[0.05] flex justify-between items-center shrink-0">
-            <h2 className="text-[10px] md:text-[12px] font-black text-slate-500 uppercase tracking-[0.4em]">Neural Feed</h2>
+            <h2 className="text-[10px] md:text-[12px] font-black text-slate-500 uppercase tracking-[0.4em]">{ui.panel.title}</h2>
             <div className="flex items-center gap-2">
-               <div className="hidden xs:block px-2 py-0.5 bg-emerald-500/10 border border-emerald-500/20 rounded-full text-[8px] font-black text-emerald-400 uppercase">Secure Link</div>
+               <button
+                 onClick={() => setSidePanel(p => p === 'settings' ? 'feed' : 'settings')}
+                 aria-pressed={sidePanel === 'settings'}
+                 className="px-2 py-0.5 bg-white/[0.03] border border-white/10 rounded-full text-[8px] font-black text-slate-300 uppercase hover:bg-white/[0.08]"
+               >
+                 {ui.settings.title}
+               </button>
+               <button
+                 onClick={() => setSidePanel(p => p === 'tasks' ? 'feed' : 'tasks')}
+                 aria-pressed={sidePanel === 'tasks'}
+                 className="px-2 py-0.5 bg-white/[0.03] border border-white/10 rounded-full text-[8px] font-black text-slate-300 uppercase hover:bg-white/[0.08]"
+               >
+                 {ui.tasks.title}
+               </button>
+               <button
+                 onClick={() => setSidePanel(p => p === 'memory' ? 'feed' : 'memory')}
+                 aria-pressed={sidePanel === 'memory'}
+                 className="px-2 py-0.5 bg-white/[0.03] border border-white/10 rounded-full text-[8px] font-black text-slate-300 uppercase hover:bg-white/[0.08]"
+               >
+                 {ui.memory.title}
+               </button>
+               <button
+                 onClick={() => setSidePanel(p => p === 'history' ? 'feed' : 'history')}
+                 aria-pressed={sidePanel === 'history'}
+                 className="px-2 py-0.5 bg-white/[0.03] border border-white/10 rounded-full text-[8px] font-black text-slate-300 uppercase hover:bg-white/[0.08]"
+               >
+                 {ui.panel.history}
+               </button>
+               <div className="hidden xs:block px-2 py-0.5 bg-emerald-500/10 border border-emerald-500/20 rounded-full text-[8px] font-black text-emerald-400 uppercase">{ui.panel.secureLink}</div>
                <span className="w-1.5 h-1.5 rounded-full bg-blue-500 animate-pulse" />
             </div>
           </div>
           
           <div className="flex-1 p-4 md:p-8 overflow-y-auto space-y-4 md:space-y-8 scrollbar-hide flex flex-col-reverse">
-            <div className="space-y-4 md:space-y-8 flex flex-col">
-              {history.length === 0 && !currentInput && !currentOutput ? (
-                <div className="flex-1 flex flex-col gap-8 animate-in fade-in slide-in-from-right-4 duration-1000">
-                  <div className="space-y-4">
-                    <h3 className="text-[10px] font-black text-slate-600 uppercase tracking-[0.3em]">Command Protocol</h3>
-                    <div className="space-y-3">
-                      {[
-                        "What do you see in front of me?",
-                        "Find my blue water bottle.",
-                        "Describe the room layout.",
-                        "Is there anything on the floor?"
-                      ].map((cmd, idx) => (
-                        <div key={idx} className="p-4 bg-white/[0.02] border border-white/5 rounded-2xl text-[13px] text-slate-400 italic font-medium">
-                          "{cmd}"
-                        </div>
-                      ))}
+            {sidePanel === 'settings' ? (
+              <SettingsPanel
+                profile={profile}
+                onChange={setProfile}
+                onClose={() => setSidePanel('feed')}
+                hapticsSupported={session.hapticsSupported}
+              />
+            ) : sidePanel === 'memory' ? (
+              <MemoryPanel
+                ui={ui}
+                refreshKey={state.memoryRevision}
+                onChanged={session.reloadMemories}
+                onClose={() => setSidePanel('feed')}
+              />
+            ) : sidePanel === 'tasks' ? (
+              <TaskPanel
+                ui={ui}
+                tasks={tasks}
+                refreshKey={state.routineRevision}
+                onStart={session.startTasks}
+                onFound={session.markTaskFound}
+                onSkip={session.skipTask}
+                onEnd={session.endTasks}
+                onClose={() => setSidePanel('feed')}
+              />
+            ) : sidePanel === 'history' ? (
+              <SessionHistoryPanel ui={ui} refreshKey={state.historyRevision} onClose={() => setSidePanel('feed')} />
+            ) : (
+              <div className="space-y-4 md:space-y-8 flex flex-col">
+                {history.length === 0 && !currentInput && !currentOutput ? (
+                  <div className="flex-1 flex flex-col gap-8 animate-in fade-in slide-in-from-right-4 duration-1000">
+                    <div className="space-y-4">
+                      <h3 className="text-[10px] font-black text-slate-600 uppercase tracking-[0.3em]">{ui.commandProtocol}</h3>
+                      <div className="space-y-3">
+                        {ui.exampleCommands.map((cmd, idx) => (
+                          <div key={idx} className="p-4 bg-white/[0.02] border border-white/5 rounded-2xl text-[13px] text-slate-400 italic font-medium">
+                            "{cmd}"
+                          </div>
+                        ))}
+                      </div>
                     </div>
-                  </div>
 
-                  <div className="p-5 bg-blue-600/5 border border-blue-500/10 rounded-2xl space-y-3">
-                    <div className="flex items-center gap-2">
-                       <div className="w-2 h-2 rounded-full bg-blue-500" />
-                       <span className="text-[9px] font-black text-blue-400 uppercase tracking-widest">Multi-Lingual Engine</span>
-                    </div>
-                    <p className="text-xs text-slate-400 leading-relaxed">Speak in your native tongue (Hindi, Marathi, etc.). The AI will translate your intent and respond with precise English guidance.</p>
-                  </div>
+                    <LanguagePicker settings={profile} onChange={(next) => setProfile(prev => ({ ...prev, ...next }))} />
 
-                  <div className="mt-auto pt-4 flex flex-col items-center justify-center text-center opacity-30">
-                     <div className="w-8 h-8 border border-slate-700 rounded-full mb-3 flex items-center justify-center">
-                        <div className="w-1 h-1 bg-slate-500 rounded-full animate-ping" />
-                     </div>
-                     <p className="text-[9px] font-black uppercase tracking-[0.2em]">Neural Cortex Standing By</p>
+                    <div className="mt-auto pt-4 flex flex-col items-center justify-center text-center opacity-30">
+                       <div className="w-8 h-8 border border-slate-700 rounded-full mb-3 flex items-center justify-center">
+                          <div className="w-1 h-1 bg-slate-500 rounded-full animate-ping" />
+                       </div>
+                       <p className="text-[9px] font-black uppercase tracking-[0.2em]">{ui.panel.standingBy}</p>
+                    </div>
                   </div>
-                </div>
-              ) : (
-                <>
-                  {history.map((t, i) => (
-                    <div key={i} className={`flex w-full flex-col ${t.role === 'user' ? 'items-end' : 'items-start'} animate-in slide-in-from-bottom-2`}>
-                      <span className="text-[8px] font-black text-slate-600 uppercase tracking-widest mb-1 px-1">
-                        {t.role === 'user' ? 'Input' : 'AI'}
-                      </span>
-                      <div className={`p-4 md:p-6 rounded-xl md:rounded-[2rem] text-[12px] md:text-[15px] leading-relaxed border w-fit max-w-[90%] break-words whitespace-pre-wrap ${
-                        t.role === 'user' 
-                          ? 'bg-blue-600 border-blue-500 text-white rounded-tr-none font-bold' 
-                          : 'bg-white/[0.03] border-white/10 text-slate-300 rounded-tl-none shadow-xl'
-                      }`}>
-                        {t.text}
-                      </div>
+                ) : (
+                  <>
+                    <div role="log" aria-label={ui.a11y.feed} className="space-y-4 md:space-y-8 flex flex-col">
+                      {history.map((t, i) => (
+                        <div key={i} className={`flex w-full flex-col ${t.role === 'user' ? 'items-end' : 'items-start'} animate-in slide-in-from-bottom-2`}>
+                          <span className={`text-[8px] font-black uppercase tracking-widest mb-1 px-1 ${
+                            t.kind === 'reading' ? 'text-violet-400' : t.kind === 'helper' ? 'text-teal-400' : 'text-slate-600'
+                          }`}>
+                            {t.role === 'user' ? ui.you
+                              : t.kind === 'reading' ? `${ui.guide} · ${ui.reading.label}`
+                              : t.kind === 'helper' ? ui.caregiver.label
+                              : ui.guide}
+                          </span>
+                          <div className={`p-4 md:p-6 rounded-xl md:rounded-[2rem] text-[12px] md:text-[15px] leading-relaxed border w-fit max-w-[90%] break-words whitespace-pre-wrap ${
+                            t.role === 'user' 
+                              ? 'bg-blue-600 border-blue-500 text-white rounded-tr-none font-bold' 
+                              : t.kind === 'reading'
+                                ? 'bg-violet-500/10 border-violet-500/30 text-slate-100 rounded-tl-none shadow-xl select-text'
+                                : 'bg-white/[0.03] border-white/10 text-slate-300 rounded-tl-none shadow-xl'
+                          }`}>
+                            {t.text}
+                          </div>
+                        </div>
+                      ))}
                     </div>
-                  ))}
                   
-                  {currentOutput && (
-                    <div className="flex w-full flex-col items-start animate-in fade-in">
-                      <span className="text-[8px] font-black text-emerald-500 uppercase tracking-widest mb-1 px-1">Processing...</span>
-                      <div className="p-4 md:p-6 rounded-xl md:rounded-[2rem] text-[12px] md:text-[15px] leading-relaxed border border-emerald-500/30 bg-emerald-500/10 text-emerald-100 rounded-tl-none w-fit max-w-[90%] break-words">
-                        {currentOutput}
-                        <span className="inline-block w-1.5 h-4 ml-1 bg-emerald-400 animate-pulse" />
+                    {currentOutput && (
+                      <div className="flex w-full flex-col items-start animate-in fade-in">
+                        <span className="text-[8px] font-black text-emerald-500 uppercase tracking-widest mb-1 px-1">{ui.processing}</span>
+                        <div className="p-4 md:p-6 rounded-xl md:rounded-[2rem] text-[12px] md:text-[15px] leading-relaxed border border-emerald-500/30 bg-emerald-500/10 text-emerald-100 rounded-tl-none w-fit max-w-[90%] break-words">
+                          {currentOutput}
+                          <span className="inline-block w-1.5 h-4 ml-1 bg-emerald-400 animate-pulse" />
+                        </div>
                       </div>
-                    </div>
-                  )}
+                    )}
 
-                  {currentInput && (
-                    <div className="flex w-full flex-col items-end animate-in fade-in">
-                      <span className="text-[8px] font-black text-blue-400 uppercase tracking-widest mb-1 px-1">Listening...</span>
-                      <div className="p-4 md:p-6 rounded-xl md:rounded-[2rem] text-[12px] md:text-[15px] leading-relaxed border border-blue-500/40 bg-blue-500/20 text-white rounded-tr-none w-fit max-w-[90%] italic font-bold">
-                        {currentInput}
+                    {currentInput && (
+                      <div className="flex w-full flex-col items-end animate-in fade-in">
+                        <span className="text-[8px] font-black text-blue-400 uppercase tracking-widest mb-1 px-1">{ui.listening}</span>
+                        <div className="p-4 md:p-6 rounded-xl md:rounded-[2rem] text-[12px] md:text-[15px] leading-relaxed border border-blue-500/40 bg-blue-500/20 text-white rounded-tr-none w-fit max-w-[90%] italic font-bold">
+                          {currentInput}
+                        </div>
                       </div>
-                    </div>
-                  )}
-                </>
-              )}
-            </div>
+                    )}
+                  </>
+                )}
+              </div>
+            )}
           </div>
           
           <div className="px-5 py-4 md:px-8 md:py-6 bg-black/40 border-t border-white/[0.05] hidden xs:block">
              <div className="grid grid-cols-2 gap-3 md:gap-4">
                 <div className="bg-white/[0.02] p-2 md:p-4 rounded-xl border border-white/[0.05]">
-                  <span className="text-[8px] font-black text-slate-600 uppercase block mb-0.5">Optics</span>
-                  <span className="text-[10px] md:text-[12px] font-black text-blue-500 tracking-tighter uppercase italic">Ready</span>
+                  <span className="text-[8px] font-black text-slate-600 uppercase block mb-0.5">{ui.metrics.optics}</span>
+                  <span className="text-[10px] md:text-[12px] font-black text-blue-500 tracking-tighter uppercase italic block">
+                    {uplinkStats
+                      ? `${uplinkStats.policy.label} · ${(1000 / uplinkStats.policy.intervalMs).toFixed(1)}fps · ${(uplinkStats.bitrateBps / 1000).toFixed(0)}kbps`
+                      : ui.metrics.ready}
+                  </span>
+                  {metrics && (
+                    <span className="text-[9px] font-bold text-slate-500 block mt-0.5">
+                      {ui.metrics.frames(metrics.framesSent, metrics.framesDropped)}
+                    </span>
+                  )}
                 </div>
                 <div className="bg-white/[0.02] p-2 md:p-4 rounded-xl border border-white/[0.05]">
-                  <span className="text-[8px] font-black text-slate-600 uppercase block mb-0.5">Network</span>
-                  <span className="text-[10px] md:text-[12px] font-black text-emerald-500 tracking-tighter uppercase italic">Sync</span>
+                  <span className="text-[8px] font-black text-slate-600 uppercase block mb-0.5">{ui.metrics.network}</span>
+                  <span className="text-[10px] md:text-[12px] font-black text-emerald-500 tracking-tighter uppercase italic block">
+                    {metrics
+                      ? `${ui.metrics.latency(metrics.responseLatency.medianMs)} · ${ui.metrics.upstream(Math.round((metrics.audioBytesPerSec + metrics.videoBytesPerSec) * 8 / 1000))}`
+                      : ui.status[status]}
+                  </span>
+                  {metrics && (
+                    <span className="text-[9px] font-bold text-slate-500 block mt-0.5">
+                      {[
+                        ui.metrics.queue(metrics.playbackQueueMs),
+                        ui.metrics.reconnects(metrics.reconnects),
+                        ui.metrics.interruptions(metrics.interruptions),
+                      ].join(' · ')}
+                    </span>
+                  )}
                 </div>
              </div>
+             {metrics && (
+               <button
+                 onClick={exportMetrics}
+                 className="mt-3 px-3 py-1.5 rounded-xl border border-white/10 text-[9px] font-black text-slate-400 uppercase tracking-widest hover:bg-white/[0.05]"
+               >
+                 {ui.metrics.export}
+               </button>
+             )}
           </div>
         </div>
       </main>
@@ -0,0 +1,50 @@
+import React from 'react';
+import { UiStrings } from '../i18n/languages';
+import { CameraControlState } from '../utils/camera-controller';
+
+interface CameraControlsProps {
+  ui: UiStrings;
+  camera: CameraControlState;
+  onTorch: () => void;
+  onZoom: (direction: 1 | -1) => void;
+  onSwitchLens: () => void;
+}
+
+const CameraControls: React.FC<CameraControlsProps> = ({ ui, camera, onTorch, onZoom, onSwitchLens }) => {
+  const buttonClass = "px-3 py-2 rounded-xl backdrop-blur-3xl border text-[9px] md:text-[10px] font-black uppercase tracking-widest transition-all active:scale-95 disabled:opacity-40";
+  const idleClass = "bg-black/60 border-white/20 text-slate-200 hover:bg-black/80";
+  const zoom = camera.zoom;
+
+  return (
+    <div
+      role="toolbar"
+      aria-label={ui.settings.camera}
+      className="absolute right-4 md:right-10 top-1/2 -translate-y-1/2 z-30 flex flex-col gap-2"
+    >
+      {camera.torchSupported && (
+        <button
+          onClick={onTorch}
+          aria-pressed={camera.torch}
+          className={`${buttonClass} ${camera.torch ? 'bg-amber-500/40 border-amber-300/60 text-white' : idleClass}`}
+        >
+          {ui.camera.torch}
+        </button>
+      )}
+      {zoom && (
+        <>
+          <button onClick={() => onZoom(1)} disabled={zoom.level >= zoom.max} className={`${buttonClass} ${idleClass}`}>
+            {ui.camera.zoomIn}
+          </button>
+          <button onClick={() => onZoom(-1)} disabled={zoom.level <= zoom.min} className={`${buttonClass} ${idleClass}`}>
+            {ui.camera.zoomOut}
+          </button>
+        </>
+      )}
+      <button onClick={onSwitchLens} className={`${buttonClass} ${idleClass}`}>
+        {ui.camera.switchLens}
+      </button>
+    </div>
+  );
+};
+
+export default CameraControls;
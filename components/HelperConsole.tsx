@@ -0,0 +1,205 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { LANGUAGES, loadLanguageSettings } from '../i18n/languages';
+import { CaregiverLinkStatus, CaregiverPeer, HelperMessage, isRoomCode } from '../services/caregiver-link';
+import { PerceptionState, TranscriptionItem } from '../types';
+
+// The helper only needs the recent conversation, not the whole session.
+const MAX_ITEMS = 100;
+
+/**
+ * The sighted helper's side of the link: the user's camera and voice, the
+ * live transcript, a box for text the user hears spoken, and a switch that
+ * pauses the model while the helper guides.
+ */
+const HelperConsole: React.FC = () => {
+  const ui = LANGUAGES[loadLanguageSettings().language].ui;
+  const strings = ui.helper;
+  const [room, setRoom] = useState(() => new URLSearchParams(location.search).get('room') ?? '');
+  const [status, setStatus] = useState<CaregiverLinkStatus | null>(null);
+  const [remote, setRemote] = useState<MediaStream | null>(null);
+  const [items, setItems] = useState<TranscriptionItem[]>([]);
+  const [partial, setPartial] = useState<{ role: TranscriptionItem['role']; text: string } | null>(null);
+  const [perception, setPerception] = useState<{ perception: PerceptionState; target: string | null } | null>(null);
+  const [takeover, setTakeover] = useState(false);
+  const [noMic, setNoMic] = useState(false);
+  const [text, setText] = useState('');
+  const peerRef = useRef<CaregiverPeer | null>(null);
+  const micRef = useRef<MediaStream | null>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  useEffect(() => {
+    if (videoRef.current) videoRef.current.srcObject = remote;
+  }, [remote]);
+
+  const handleMessage = (message: HelperMessage) => {
+    switch (message.type) {
+      case 'transcript':
+        setItems(prev => [...prev, ...message.items].slice(-MAX_ITEMS));
+        setPartial(null);
+        break;
+      case 'partial':
+        setPartial({ role: message.role, text: message.text });
+        break;
+      case 'perception':
+        setPerception({ perception: message.perception, target: message.target });
+        break;
+      case 'takeover':
+        setTakeover(message.active);
+        break;
+    }
+  };
+
+  const leave = () => {
+    peerRef.current?.close();
+    peerRef.current = null;
+    micRef.current?.getTracks().forEach(track => track.stop());
+    micRef.current = null;
+    setStatus(null);
+    setTakeover(false);
+  };
+
+  const join = async () => {
+    if (peerRef.current || !isRoomCode(room)) return;
+    let mic: MediaStream | null = null;
+    try {
+      mic = await navigator.mediaDevices.getUserMedia({ audio: true });
+    } catch {
+      setNoMic(true);
+    }
+    micRef.current = mic;
+    setItems([]);
+    peerRef.current = new CaregiverPeer('helper', {
+      room,
+      tracks: mic?.getAudioTracks() ?? [],
+      onStatus: setStatus,
+      onMessage: handleMessage,
+      onRemoteStream: setRemote,
+    });
+  };
+
+  useEffect(() => leave, []);
+
+  const say = () => {
+    const message = text.trim();
+    if (!message) return;
+    peerRef.current?.send({ type: 'say', text: message });
+    setText('');
+  };
+
+  const connected = status === 'connected';
+  const buttonClass = "px-4 py-2 rounded-xl border text-[10px] font-black uppercase tracking-widest transition-all active:scale-95 disabled:opacity-40";
+
+  return (
+    <div className="flex flex-col h-screen bg-[#020408] text-slate-100 font-sans">
+      <header className="shrink-0 px-4 py-3 md:px-8 md:py-5 border-b border-white/[0.05] flex items-center justify-between gap-3">
+        <h1 className="text-[12px] md:text-[14px] font-black uppercase tracking-[0.3em]">{strings.title}</h1>
+        <div className="flex items-center gap-2">
+          {status === null ? (
+            <>
+              <label className="sr-only" htmlFor="room">{strings.room}</label>
+              <input
+                id="room"
+                value={room}
+                onChange={(e) => setRoom(e.target.value.trim().toLowerCase())}
+                placeholder={strings.room}
+                className="w-36 bg-white/[0.03] border border-white/10 rounded-xl px-3 py-2 text-[13px] text-slate-200 placeholder:text-slate-600"
+              />
+              <button
+                onClick={join}
+                disabled={!isRoomCode(room)}
+                className={`${buttonClass} bg-blue-600 border-blue-500 text-white hover:bg-blue-500`}
+              >
+                {strings.join}
+              </button>
+            </>
+          ) : (
+            <>
+              <span role="status" className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">{strings.status[status]}</span>
+              <button onClick={leave} className={`${buttonClass} border-rose-500/30 text-rose-400 hover:bg-rose-500/10`}>
+                {strings.leave}
+              </button>
+            </>
+          )}
+        </div>
+      </header>
+
+      <main className="flex-1 flex flex-col lg:flex-row p-3 md:p-6 gap-3 md:gap-6 min-h-0">
+        <div className="relative flex-[1.4] bg-black rounded-2xl md:rounded-[3rem] border border-white/[0.08] overflow-hidden min-h-[40vh]">
+          <video ref={videoRef} autoPlay playsInline className="w-full h-full object-cover" />
+          {perception && (
+            <div className="absolute top-4 left-4 px-4 py-2 rounded-xl backdrop-blur-3xl border bg-black/60 border-white/20 text-slate-200">
+              <span className="text-[10px] font-black uppercase tracking-[0.2em]">
+                {ui.perception[perception.perception]}{perception.target ? ` · ${perception.target}` : ''}
+              </span>
+            </div>
+          )}
+        </div>
+
+        <div className="flex-1 lg:flex-none lg:w-[420px] bg-[#07090d] rounded-2xl md:rounded-[3rem] border border-white/[0.05] flex flex-col overflow-hidden min-h-0">
+          <h2 className="shrink-0 px-5 py-4 md:px-8 md:py-6 border-b border-white/[0.05] text-[10px] font-black text-slate-500 uppercase tracking-[0.4em]">
+            {strings.transcript}
+          </h2>
+          <div role="log" aria-label={strings.transcript} className="flex-1 p-4 md:p-6 overflow-y-auto space-y-4 select-text">
+            {items.length === 0 && !partial && <p className="text-xs text-slate-500 italic">{strings.empty}</p>}
+            {items.map((item, i) => (
+              <div key={i} className={`flex flex-col ${item.role === 'user' ? 'items-end' : 'items-start'}`}>
+                <span className="text-[8px] font-black text-slate-600 uppercase tracking-widest mb-1 px-1">
+                  {item.role === 'user' ? strings.user : item.kind === 'helper' ? ui.you : ui.guide}
+                </span>
+                <div className={`p-3 rounded-xl text-[13px] leading-relaxed border max-w-[90%] break-words whitespace-pre-wrap ${
+                  item.role === 'user' ? 'bg-blue-600 border-blue-500 text-white'
+                    : item.kind === 'helper' ? 'bg-teal-500/10 border-teal-500/30 text-teal-100'
+                    : 'bg-white/[0.03] border-white/10 text-slate-300'
+                }`}>
+                  {item.text}
+                </div>
+              </div>
+            ))}
+            {partial && (
+              <p className="text-[12px] text-slate-400 italic">
+                {partial.role === 'user' ? strings.user : ui.guide}: {partial.text}
+              </p>
+            )}
+          </div>
+
+          <div className="shrink-0 p-4 md:p-6 border-t border-white/[0.05] space-y-3">
+            {noMic && <p className="text-xs text-amber-300">{strings.noMic}</p>}
+            <form
+              className="flex gap-2"
+              onSubmit={(e) => { e.preventDefault(); say(); }}
+            >
+              <label className="sr-only" htmlFor="say">{strings.say}</label>
+              <input
+                id="say"
+                value={text}
+                onChange={(e) => setText(e.target.value)}
+                placeholder={strings.say}
+                disabled={!connected}
+                className="flex-1 bg-white/[0.03] border border-white/10 rounded-xl px-3 py-2 text-[13px] text-slate-200 placeholder:text-slate-600"
+              />
+              <button
+                type="submit"
+                disabled={!connected || !text.trim()}
+                className={`${buttonClass} border-teal-500/40 text-teal-300 hover:bg-teal-500/10`}
+              >
+                {strings.send}
+              </button>
+            </form>
+            <button
+              onClick={() => peerRef.current?.send({ type: 'takeover', active: !takeover })}
+              disabled={!connected}
+              aria-pressed={takeover}
+              className={`${buttonClass} w-full ${
+                takeover ? 'bg-teal-600/30 border-teal-500/50 text-teal-200' : 'border-white/10 text-slate-300 hover:bg-white/[0.05]'
+              }`}
+            >
+              {takeover ? strings.handBack : strings.takeOver}
+            </button>
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default HelperConsole;
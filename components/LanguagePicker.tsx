@@ -0,0 +1,50 @@
+import React from 'react';
+import { LanguageCode, LANGUAGES, LanguageSettings, VOICE_NAMES, VoiceName } from '../i18n/languages';
+
+interface LanguagePickerProps {
+  settings: LanguageSettings;
+  onChange: (settings: LanguageSettings) => void;
+}
+
+const LanguagePicker: React.FC<LanguagePickerProps> = ({ settings, onChange }) => {
+  const ui = LANGUAGES[settings.language].ui;
+  const selectClass = "w-full px-3 py-2 bg-black/40 border border-white/10 rounded-xl text-[13px] text-slate-200 font-bold focus:outline-none focus:border-blue-500";
+
+  return (
+    <div className="p-5 bg-blue-600/5 border border-blue-500/10 rounded-2xl space-y-3">
+      <div className="flex items-center gap-2">
+         <div className="w-2 h-2 rounded-full bg-blue-500" />
+         <span className="text-[9px] font-black text-blue-400 uppercase tracking-widest">{ui.languageTitle}</span>
+      </div>
+      <p className="text-xs text-slate-400 leading-relaxed">{ui.languageBody}</p>
+      <div className="grid grid-cols-2 gap-3">
+        <label className="space-y-1">
+          <span className="text-[8px] font-black text-slate-500 uppercase tracking-widest">{ui.settings.language}</span>
+          <select
+            value={settings.language}
+            onChange={(e) => onChange({ ...settings, language: e.target.value as LanguageCode })}
+            className={selectClass}
+          >
+            {Object.values(LANGUAGES).map(lang => (
+              <option key={lang.code} value={lang.code} lang={lang.bcp47}>{lang.label}</option>
+            ))}
+          </select>
+        </label>
+        <label className="space-y-1">
+          <span className="text-[8px] font-black text-slate-500 uppercase tracking-widest">{ui.settings.voice}</span>
+          <select
+            value={settings.voice}
+            onChange={(e) => onChange({ ...settings, voice: e.target.value as VoiceName })}
+            className={selectClass}
+          >
+            {VOICE_NAMES.map(voice => (
+              <option key={voice} value={voice}>{voice}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+    </div>
+  );
+};
+
+export default LanguagePicker;
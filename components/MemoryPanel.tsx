@@ -0,0 +1,108 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { UiStrings } from '../i18n/languages';
+import { clearMemories, deleteMemory, listMemories } from '../services/memory-store';
+import { MemoryRecord } from '../types';
+
+interface MemoryPanelProps {
+  ui: UiStrings;
+  /** Bump to reload the list, e.g. after a sighting is saved. */
+  refreshKey: number;
+  /** Called after a delete so the running session stops recalling it. */
+  onChanged: () => void;
+  onClose: () => void;
+}
+
+const MemoryPanel: React.FC<MemoryPanelProps> = ({ ui, refreshKey, onChanged, onClose }) => {
+  const [memories, setMemories] = useState<MemoryRecord[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const strings = ui.memory;
+
+  const load = useCallback(() => {
+    listMemories()
+      .then(list => { setMemories(list); setError(null); })
+      .catch(err => {
+        console.error("Memory load failed:", err);
+        setError(strings.unavailable);
+      });
+  }, [strings]);
+
+  useEffect(load, [load, refreshKey]);
+
+  const handleDelete = async (memory: MemoryRecord) => {
+    await deleteMemory(memory.id);
+    load();
+    onChanged();
+  };
+
+  const handleClear = async () => {
+    await clearMemories();
+    load();
+    onChanged();
+  };
+
+  const renderList = (title: string, items: MemoryRecord[]) => items.length > 0 && (
+    <section aria-label={title} className="space-y-3">
+      <h4 className="text-[9px] font-black text-slate-600 uppercase tracking-widest">{title}</h4>
+      <ul className="space-y-3">
+        {items.map(memory => (
+          <li key={memory.id} className="p-3 bg-white/[0.02] border border-white/5 rounded-2xl flex gap-3 items-start">
+            {memory.thumbnail && (
+              <img
+                src={memory.thumbnail}
+                alt={memory.description ?? memory.label}
+                className="w-20 h-[60px] object-cover rounded-xl border border-white/10 shrink-0"
+              />
+            )}
+            <div className="min-w-0 flex-1 space-y-1">
+              <p className="text-[13px] text-slate-200 font-bold truncate">{memory.label}</p>
+              {memory.description && <p className="text-[11px] text-slate-400 leading-snug">{memory.description}</p>}
+              <p className="text-[10px] text-slate-500 uppercase tracking-widest">
+                {memory.room ? `${memory.room} · ` : ''}{new Date(memory.seenAt).toLocaleString()}
+              </p>
+            </div>
+            <button
+              onClick={() => handleDelete(memory)}
+              aria-label={strings.forget(memory.label)}
+              className="px-2 py-1 rounded-lg border border-rose-500/30 text-[9px] font-black text-rose-400 uppercase hover:bg-rose-500/10 shrink-0"
+            >
+              ✕
+            </button>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+
+  return (
+    <div className="flex-1 flex flex-col gap-4 min-h-0">
+      <div className="flex items-center justify-between">
+        <h3 className="text-[10px] font-black text-slate-500 uppercase tracking-[0.3em]">{strings.title}</h3>
+        <button
+          onClick={onClose}
+          className="px-3 py-1.5 rounded-xl border border-white/10 text-[9px] font-black text-slate-300 uppercase tracking-widest hover:bg-white/[0.05]"
+        >
+          {strings.back}
+        </button>
+      </div>
+
+      {error && <p className="text-xs text-rose-300">{error}</p>}
+      {!error && memories.length === 0 && (
+        <p className="text-xs text-slate-500 italic">{strings.empty}</p>
+      )}
+
+      {renderList(strings.places, memories.filter(m => m.kind === 'place'))}
+      {renderList(strings.objects, memories.filter(m => m.kind === 'object'))}
+
+      {memories.length > 0 && (
+        <button
+          onClick={handleClear}
+          className="self-start px-3 py-1.5 rounded-xl border border-rose-500/30 text-[9px] font-black text-rose-400 uppercase tracking-widest hover:bg-rose-500/10"
+        >
+          {strings.forgetAll}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default MemoryPanel;
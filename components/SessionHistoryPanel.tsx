@@ -0,0 +1,112 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { UiStrings } from '../i18n/languages';
+import {
+  deleteHistorySession,
+  getHistoryItems,
+  listHistorySessions,
+  SessionRecord
+} from '../services/history-store';
+import { downloadBlob, exportTranscript, ExportFormat } from '../utils/transcript-export';
+
+interface SessionHistoryPanelProps {
+  ui: UiStrings;
+  /** Bump to reload the list, e.g. after a turn is saved. */
+  refreshKey: number;
+  onClose: () => void;
+}
+
+const FORMATS: ExportFormat[] = ['txt', 'json', 'vtt'];
+
+const SessionHistoryPanel: React.FC<SessionHistoryPanelProps> = ({ ui, refreshKey, onClose }) => {
+  const [sessions, setSessions] = useState<SessionRecord[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const strings = ui.sessions;
+
+  const load = useCallback(() => {
+    listHistorySessions()
+      .then(list => { setSessions(list); setError(null); })
+      .catch(err => {
+        console.error("History load failed:", err);
+        setError(strings.unavailable);
+      });
+  }, [strings]);
+
+  useEffect(load, [load, refreshKey]);
+
+  const handleExport = async (session: SessionRecord, format: ExportFormat) => {
+    try {
+      const items = await getHistoryItems(session.id);
+      const stamp = new Date(session.startedAt).toISOString().replace(/[:.]/g, '-');
+      downloadBlob(exportTranscript(items, session.startedAt, format, strings.transcript), `visionguide-${stamp}.${format}`);
+      setError(null);
+    } catch (err) {
+      console.error("History export failed:", err);
+      setError(strings.exportFailed);
+    }
+  };
+
+  const handleDelete = async (session: SessionRecord) => {
+    try {
+      await deleteHistorySession(session.id);
+      load();
+    } catch (err) {
+      console.error("History delete failed:", err);
+      setError(strings.deleteFailed);
+    }
+  };
+
+  return (
+    <div className="flex-1 flex flex-col gap-4 min-h-0">
+      <div className="flex items-center justify-between">
+        <h3 className="text-[10px] font-black text-slate-500 uppercase tracking-[0.3em]">{strings.title}</h3>
+        <button
+          onClick={onClose}
+          className="px-3 py-1.5 rounded-xl border border-white/10 text-[9px] font-black text-slate-300 uppercase tracking-widest hover:bg-white/[0.05]"
+        >
+          {strings.back}
+        </button>
+      </div>
+
+      {error && <p role="alert" className="text-xs text-rose-300">{error}</p>}
+      {!error && sessions.length === 0 && (
+        <p className="text-xs text-slate-500 italic">{strings.empty}</p>
+      )}
+
+      <ul className="space-y-3">
+        {sessions.map(session => (
+          <li key={session.id} className="p-4 bg-white/[0.02] border border-white/5 rounded-2xl space-y-3">
+            <div className="flex justify-between items-start gap-3">
+              <div className="min-w-0">
+                <p className="text-[13px] text-slate-200 font-bold truncate">{session.title ?? strings.untitled}</p>
+                <p className="text-[10px] text-slate-500 uppercase tracking-widest">
+                  {new Date(session.startedAt).toLocaleString()} · {strings.items(session.itemCount)}
+                </p>
+              </div>
+              <button
+                onClick={() => handleDelete(session)}
+                aria-label={strings.deleteLabel(new Date(session.startedAt).toLocaleString())}
+                className="px-2 py-1 rounded-lg border border-rose-500/30 text-[9px] font-black text-rose-400 uppercase hover:bg-rose-500/10"
+              >
+                {strings.delete}
+              </button>
+            </div>
+            <div className="flex gap-2">
+              {FORMATS.map(format => (
+                <button
+                  key={format}
+                  onClick={() => handleExport(session, format)}
+                  aria-label={strings.exportLabel(format.toUpperCase(), new Date(session.startedAt).toLocaleString())}
+                  className="px-3 py-1.5 rounded-lg bg-blue-600/10 border border-blue-500/20 text-[9px] font-black text-blue-300 uppercase tracking-widest hover:bg-blue-600/20"
+                >
+                  {format}
+                </button>
+              ))}
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default SessionHistoryPanel;
@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import { LANGUAGES, UiStrings } from '../i18n/languages';
+import { loadAccessKey, saveAccessKey } from '../services/live-transport';
+import { HAPTIC_INTENSITIES, HapticIntensity } from '../utils/haptics';
+import {
+  CAMERA_FACINGS,
+  DIRECTION_STYLES,
+  DISTANCE_UNITS,
+  FRAME_BUDGETS,
+  HAZARD_SENSITIVITIES,
+  SPEECH_RATES,
+  UserProfile,
+  VERBOSITY_LEVELS
+} from '../utils/user-profile';
+import LanguagePicker from './LanguagePicker';
+
+interface SettingsPanelProps {
+  profile: UserProfile;
+  onChange: (profile: UserProfile) => void;
+  onClose: () => void;
+  /** Haptics controls are hidden where the Vibration API is missing. */
+  hapticsSupported: boolean;
+}
+
+type OptionKey = keyof UiStrings['settings']['options'];
+
+interface OptionGroupProps<T extends OptionKey> {
+  name: string;
+  legend: string;
+  value: T;
+  options: readonly T[];
+  labels: Record<OptionKey, string>;
+  onSelect: (value: T) => void;
+}
+
+// Native radios keep arrow-key navigation and screen reader semantics; the
+// visible pill is styled off the hidden input's state.
+function OptionGroup<T extends OptionKey>({ name, legend, value, options, labels, onSelect }: OptionGroupProps<T>) {
+  return (
+    <fieldset className="space-y-2">
+      <legend className="text-[8px] font-black text-slate-500 uppercase tracking-widest mb-2">{legend}</legend>
+      <div className="flex flex-wrap gap-2">
+        {options.map(option => (
+          <label key={option} className="cursor-pointer">
+            <input
+              type="radio"
+              name={name}
+              value={option}
+              checked={value === option}
+              onChange={() => onSelect(option)}
+              className="sr-only peer"
+            />
+            <span className="block px-3 py-2 rounded-xl border border-white/10 bg-white/[0.02] text-[11px] font-bold text-slate-300 peer-checked:bg-blue-600 peer-checked:border-blue-500 peer-checked:text-white peer-focus-visible:ring-2 peer-focus-visible:ring-blue-400">
+              {labels[option]}
+            </span>
+          </label>
+        ))}
+      </div>
+    </fieldset>
+  );
+}
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ profile, onChange, onClose, hapticsSupported }) => {
+  const { settings } = LANGUAGES[profile.language].ui;
+  const update = <K extends keyof UserProfile>(key: K, value: UserProfile[K]) => onChange({ ...profile, [key]: value });
+  // Kept apart from the profile, which is shared with the model.
+  const [accessKey, setAccessKey] = useState(() => loadAccessKey() ?? '');
+
+  return (
+    <section aria-labelledby="settings-title" className="flex-1 flex flex-col gap-6 min-h-0">
+      <div className="flex items-center justify-between">
+        <h3 id="settings-title" className="text-[10px] font-black text-slate-500 uppercase tracking-[0.3em]">{settings.title}</h3>
+        <button
+          onClick={onClose}
+          className="px-3 py-1.5 rounded-xl border border-white/10 text-[9px] font-black text-slate-300 uppercase tracking-widest hover:bg-white/[0.05]"
+        >
+          {settings.back}
+        </button>
+      </div>
+
+      <LanguagePicker settings={profile} onChange={(next) => onChange({ ...profile, ...next })} />
+
+      <OptionGroup name="speechRate" legend={settings.speechRate} value={profile.speechRate} options={SPEECH_RATES}
+        labels={settings.options} onSelect={(v) => update('speechRate', v)} />
+      <OptionGroup name="verbosity" legend={settings.verbosity} value={profile.verbosity} options={VERBOSITY_LEVELS}
+        labels={settings.options} onSelect={(v) => update('verbosity', v)} />
+      <OptionGroup name="units" legend={settings.units} value={profile.units} options={DISTANCE_UNITS}
+        labels={settings.options} onSelect={(v) => update('units', v)} />
+      <OptionGroup name="directions" legend={settings.directions} value={profile.directions} options={DIRECTION_STYLES}
+        labels={settings.options} onSelect={(v) => update('directions', v)} />
+      <OptionGroup name="cameraFacing" legend={settings.camera} value={profile.cameraFacing} options={CAMERA_FACINGS}
+        labels={settings.options} onSelect={(v) => update('cameraFacing', v)} />
+      <OptionGroup name="frameBudget" legend={settings.frameBudget} value={profile.frameBudget} options={FRAME_BUDGETS}
+        labels={settings.options} onSelect={(v) => update('frameBudget', v)} />
+      <OptionGroup name="hazardSensitivity" legend={settings.hazardSensitivity} value={profile.hazardSensitivity} options={HAZARD_SENSITIVITIES}
+        labels={settings.options} onSelect={(v) => update('hazardSensitivity', v)} />
+      {hapticsSupported && (
+        <OptionGroup<HapticIntensity> name="haptics" legend={settings.haptics} value={profile.haptics.intensity} options={HAPTIC_INTENSITIES}
+          labels={settings.options} onSelect={(v) => update('haptics', { enabled: v !== 'off', intensity: v })} />
+      )}
+
+      <label className="block space-y-2">
+        <span className="block text-[8px] font-black text-slate-500 uppercase tracking-widest">{settings.accessKey}</span>
+        <input
+          type="password"
+          autoComplete="off"
+          value={accessKey}
+          onChange={(e) => { setAccessKey(e.target.value); saveAccessKey(e.target.value.trim()); }}
+          aria-describedby="access-key-hint"
+          className="w-full bg-white/[0.03] border border-white/10 rounded-xl px-3 py-2 text-[13px] text-slate-200 select-text"
+        />
+        <span id="access-key-hint" className="block text-[11px] text-slate-500">{settings.accessKeyHint}</span>
+      </label>
+    </section>
+  );
+};
+
+export default SettingsPanel;
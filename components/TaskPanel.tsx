@@ -0,0 +1,184 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { UiStrings } from '../i18n/languages';
+import { deleteRoutine, listRoutines, saveRoutine } from '../services/routine-store';
+import { Routine, TaskStatus } from '../types';
+import { parseTargetList, TaskListState, taskProgress } from '../utils/task-list';
+
+interface TaskPanelProps {
+  ui: UiStrings;
+  tasks: TaskListState | null;
+  /** Bump to reload the routines, e.g. after one is saved by voice. */
+  refreshKey: number;
+  onStart: (targets: string[], name: string | null) => void;
+  onFound: () => void;
+  onSkip: () => void;
+  onEnd: () => void;
+  onClose: () => void;
+}
+
+const STATUS_CLASS: Record<TaskStatus, string> = {
+  pending: 'text-slate-500',
+  found: 'text-emerald-400',
+  skipped: 'text-amber-400',
+};
+
+const TaskPanel: React.FC<TaskPanelProps> = ({ ui, tasks, refreshKey, onStart, onFound, onSkip, onEnd, onClose }) => {
+  const [routines, setRoutines] = useState<Routine[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [targetsText, setTargetsText] = useState('');
+  const [name, setName] = useState('');
+  const strings = ui.tasks;
+  const targets = parseTargetList(targetsText);
+
+  const load = useCallback(() => {
+    listRoutines()
+      .then(list => { setRoutines(list); setError(null); })
+      .catch(err => {
+        console.error("Routine load failed:", err);
+        setError(strings.unavailable);
+      });
+  }, [strings]);
+
+  useEffect(load, [load, refreshKey]);
+
+  const handleSave = async () => {
+    await saveRoutine(name, targets);
+    setName('');
+    load();
+  };
+
+  const handleDelete = async (routine: Routine) => {
+    await deleteRoutine(routine.id);
+    load();
+  };
+
+  const buttonClass = "px-3 py-1.5 rounded-xl border text-[9px] font-black uppercase tracking-widest disabled:opacity-40";
+  const inputClass = "w-full bg-white/[0.03] border border-white/10 rounded-xl px-3 py-2 text-[13px] text-slate-200 placeholder:text-slate-600 select-text";
+
+  return (
+    <div className="flex-1 flex flex-col gap-4 min-h-0">
+      <div className="flex items-center justify-between">
+        <h3 className="text-[10px] font-black text-slate-500 uppercase tracking-[0.3em]">{strings.title}</h3>
+        <button
+          onClick={onClose}
+          className="px-3 py-1.5 rounded-xl border border-white/10 text-[9px] font-black text-slate-300 uppercase tracking-widest hover:bg-white/[0.05]"
+        >
+          {strings.back}
+        </button>
+      </div>
+
+      {tasks && (
+        <section aria-label={tasks.name ?? strings.title} className="space-y-3">
+          <h4 className="text-[9px] font-black text-slate-600 uppercase tracking-widest">
+            {tasks.name ? `${tasks.name} · ` : ''}{strings.progress(taskProgress(tasks).found, tasks.items.length)}
+          </h4>
+          <ol className="space-y-2">
+            {tasks.items.map((item, i) => (
+              <li
+                key={i}
+                aria-current={i === tasks.activeIndex ? 'step' : undefined}
+                className={`p-3 rounded-2xl border flex items-center justify-between gap-3 ${
+                  i === tasks.activeIndex ? 'bg-emerald-500/10 border-emerald-500/30' : 'bg-white/[0.02] border-white/5'
+                }`}
+              >
+                <span className="text-[13px] text-slate-200 font-bold truncate">{item.label}</span>
+                <span className={`text-[9px] font-black uppercase tracking-widest shrink-0 ${STATUS_CLASS[item.status]}`}>
+                  {strings.status[item.status]}
+                </span>
+              </li>
+            ))}
+          </ol>
+          <div className="flex gap-2">
+            <button
+              onClick={onFound}
+              disabled={tasks.activeIndex < 0}
+              className={`${buttonClass} border-emerald-500/30 text-emerald-400 hover:bg-emerald-500/10`}
+            >
+              {strings.found}
+            </button>
+            <button
+              onClick={onSkip}
+              disabled={tasks.activeIndex < 0}
+              className={`${buttonClass} border-white/10 text-slate-300 hover:bg-white/[0.05]`}
+            >
+              {strings.skip}
+            </button>
+            <button onClick={onEnd} className={`${buttonClass} border-rose-500/30 text-rose-400 hover:bg-rose-500/10`}>
+              {strings.end}
+            </button>
+          </div>
+        </section>
+      )}
+
+      <section className="space-y-3">
+        <label className="block space-y-1">
+          <span className="text-[9px] font-black text-slate-600 uppercase tracking-widest">{strings.targets}</span>
+          <input
+            value={targetsText}
+            onChange={(e) => setTargetsText(e.target.value)}
+            placeholder={strings.targetsPlaceholder}
+            className={inputClass}
+          />
+        </label>
+        <label className="block space-y-1">
+          <span className="text-[9px] font-black text-slate-600 uppercase tracking-widest">{strings.name}</span>
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder={strings.namePlaceholder}
+            className={inputClass}
+          />
+        </label>
+        <div className="flex gap-2">
+          <button
+            onClick={() => { onStart(targets, name.trim() || null); setTargetsText(''); }}
+            disabled={targets.length === 0}
+            className={`${buttonClass} border-blue-500/40 text-blue-300 hover:bg-blue-500/10`}
+          >
+            {strings.start}
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={targets.length === 0 || !name.trim() || !!error}
+            className={`${buttonClass} border-white/10 text-slate-300 hover:bg-white/[0.05]`}
+          >
+            {strings.save}
+          </button>
+        </div>
+      </section>
+
+      <section aria-label={strings.routines} className="space-y-3">
+        <h4 className="text-[9px] font-black text-slate-600 uppercase tracking-widest">{strings.routines}</h4>
+        {error && <p className="text-xs text-rose-300">{error}</p>}
+        {!error && routines.length === 0 && (
+          <p className="text-xs text-slate-500 italic">{strings.empty}</p>
+        )}
+        <ul className="space-y-3">
+          {routines.map(routine => (
+            <li key={routine.id} className="p-3 bg-white/[0.02] border border-white/5 rounded-2xl flex gap-3 items-start">
+              <div className="min-w-0 flex-1 space-y-1">
+                <p className="text-[13px] text-slate-200 font-bold truncate">{routine.name}</p>
+                <p className="text-[11px] text-slate-400 leading-snug">{routine.targets.join(', ')}</p>
+              </div>
+              <button
+                onClick={() => onStart(routine.targets, routine.name)}
+                className={`${buttonClass} border-blue-500/40 text-blue-300 hover:bg-blue-500/10 shrink-0`}
+              >
+                {strings.start}
+              </button>
+              <button
+                onClick={() => handleDelete(routine)}
+                aria-label={strings.remove(routine.name)}
+                className="px-2 py-1 rounded-lg border border-rose-500/30 text-[9px] font-black text-rose-400 uppercase hover:bg-rose-500/10 shrink-0"
+              >
+                ✕
+              </button>
+            </li>
+          ))}
+        </ul>
+      </section>
+    </div>
+  );
+};
+
+export default TaskPanel;
@@ -0,0 +1,39 @@
+import { useEffect, useState, useSyncExternalStore } from 'react';
+import { SessionEnvironment } from '../services/media-sources';
+import { VisionGuideSession, VisionGuideState } from '../services/vision-guide-session';
+import { downloadBlob } from '../utils/transcript-export';
+import { UserProfile } from '../utils/user-profile';
+
+const fileStamp = (at: number) => new Date(at).toISOString().replace(/[:.]/g, '-');
+
+const downloadJson = (data: unknown, filename: string, indent?: number) =>
+  downloadBlob(new Blob([JSON.stringify(data, null, indent)], { type: 'application/json' }), filename);
+
+/**
+ * Binds one `VisionGuideSession` to a component: state comes through
+ * `useSyncExternalStore`, profile changes are pushed into the running session,
+ * finished recordings are downloaded, and the session stops on unmount.
+ */
+export function useVisionGuide(profile: UserProfile, environment?: SessionEnvironment): {
+  state: VisionGuideState;
+  session: VisionGuideSession;
+  exportMetrics: () => void;
+} {
+  const [session] = useState(() => new VisionGuideSession(profile, environment));
+  const state = useSyncExternalStore(session.subscribe, session.getState);
+
+  useEffect(() => session.setProfile(profile), [session, profile]);
+
+  useEffect(() => session.on('recording', bundle => {
+    downloadJson(bundle, `visionguide-recording-${fileStamp(bundle.startedAt)}.json`);
+  }), [session]);
+
+  useEffect(() => session.stop, [session]);
+
+  const exportMetrics = () => {
+    const report = session.exportMetrics();
+    downloadJson(report, `visionguide-metrics-${fileStamp(report.startedAt)}.json`, 2);
+  };
+
+  return { state, session, exportMetrics };
+}
@@ -0,0 +1,1265 @@
+import { ConnectionStatus, PerceptionState, TaskStatus } from '../types';
+import { ENGLISH_PERCEPTION_KEYWORDS, PerceptionKeywords } from '../utils/guidance';
+import { HapticIntensity } from '../utils/haptics';
+import { HazardSensitivity } from '../utils/hazard-detector';
+import { LightLevel, SceneCue } from '../utils/scene-monitor';
+import { CommandGrammar, ENGLISH_COMMAND_GRAMMAR } from '../utils/voice-commands';
+import { TranscriptLabels } from '../utils/transcript-export';
+import { CaregiverLinkStatus } from '../services/caregiver-link';
+import {
+  CameraFacing,
+  DirectionStyle,
+  DistanceUnit,
+  FrameBudget,
+  RelativeDirection,
+  SpeechRate,
+  Verbosity
+} from '../utils/user-profile';
+
+export type LanguageCode = 'en' | 'hi' | 'mr';
+
+export const VOICE_NAMES = ['Kore', 'Puck', 'Charon', 'Fenrir', 'Aoede', 'Leda', 'Orus', 'Zephyr'] as const;
+export type VoiceName = typeof VOICE_NAMES[number];
+
+export interface UiStrings {
+  connect: string;
+  stop: string;
+  live: string;
+  status: Record<ConnectionStatus, string>;
+  perception: Record<PerceptionState, string>;
+  analyzingEnvironment: string;
+  targetIdentified: string;
+  /** `direction` and `distance` come pre-formatted in the user's chosen style. */
+  targetAt: (label: string, direction: string, distance: string | null) => string;
+  clock: (hour: number) => string;
+  relative: Record<RelativeDirection, string>;
+  distance: Record<DistanceUnit, (value: number) => string>;
+  hazard: string;
+  cameraPaused: string;
+  path: { clear: string; caution: string; stop: string };
+  mic: string;
+  voice: string;
+  you: string;
+  guide: string;
+  listening: string;
+  processing: string;
+  commandProtocol: string;
+  exampleCommands: string[];
+  languageTitle: string;
+  languageBody: string;
+  settings: {
+    title: string;
+    back: string;
+    language: string;
+    voice: string;
+    speechRate: string;
+    verbosity: string;
+    units: string;
+    directions: string;
+    camera: string;
+    frameBudget: string;
+    hazardSensitivity: string;
+    haptics: string;
+    accessKey: string;
+    accessKeyHint: string;
+    options: Record<SpeechRate | Verbosity | DistanceUnit | DirectionStyle | CameraFacing | FrameBudget | HazardSensitivity | HapticIntensity, string>;
+  };
+  memory: {
+    title: string;
+    back: string;
+    places: string;
+    objects: string;
+    empty: string;
+    forgetAll: string;
+    forget: (label: string) => string;
+    unavailable: string;
+  };
+  /** Screen reader labels and feedback for the gesture surface and shortcuts. */
+  a11y: {
+    gestureSurface: string;
+    gestureHintIdle: string;
+    gestureHintActive: string;
+    shortcuts: string;
+    feed: string;
+    mute: string;
+    unmute: string;
+    muted: string;
+    unmuted: string;
+    nothingToRepeat: string;
+  };
+  errors: {
+    permissionDenied: string;
+    linkFailed: string;
+    connectionLost: string;
+    reconnecting: (attempt: number, max: number) => string;
+    replayFailed: string;
+    offline: string;
+    accessDenied: string;
+    replyFailed: string;
+  };
+  /** Phrases spoken with on-device TTS. */
+  cues: {
+    reconnecting: string;
+    reconnected: string;
+    connectionLost: string;
+    obstacle: string;
+    videoPaused: string;
+    videoResumed: string;
+    currentTarget: (label: string) => string;
+    noTarget: string;
+    targetChanged: (label: string) => string;
+    offline: string;
+    backOnline: string;
+  };
+  /** Footer telemetry. */
+  metrics: {
+    optics: string;
+    network: string;
+    ready: string;
+    frames: (sent: number, dropped: number) => string;
+    latency: (ms: number | null) => string;
+    upstream: (kbps: number) => string;
+    queue: (ms: number) => string;
+    reconnects: (count: number) => string;
+    interruptions: (count: number) => string;
+    export: string;
+  };
+  /** Recording and replay buttons in the header. */
+  recording: {
+    start: string;
+    save: string;
+    replay: string;
+    /** Alt text of the recorded frame shown during a replay. */
+    frame: string;
+    /** Timelines come as localized perception states joined with arrows. */
+    replayMatched: (timeline: string) => string;
+    replayDiverged: (recorded: string, replayed: string) => string;
+  };
+  /** Saved sessions and transcript export. */
+  sessions: {
+    title: string;
+    back: string;
+    empty: string;
+    unavailable: string;
+    exportFailed: string;
+    deleteFailed: string;
+    untitled: string;
+    items: (count: number) => string;
+    delete: string;
+    deleteLabel: (startedAt: string) => string;
+    exportLabel: (format: string, startedAt: string) => string;
+    transcript: TranscriptLabels;
+  };
+  /** Header of the side panel. */
+  panel: {
+    title: string;
+    history: string;
+    secureLink: string;
+    standingBy: string;
+  };
+  /** Shown on the camera view until the camera starts. */
+  overview: {
+    title: string;
+    protocol: string;
+    features: { label: string; title: string; body: string }[];
+    awaitingLink: string;
+    hint: string;
+  };
+  /** Local scene cues and the spoken description used in offline mode. */
+  scene: {
+    light: Record<LightLevel, string>;
+    steady: string;
+    moving: string;
+    path: Record<'CLEAR' | 'CAUTION' | 'STOP', string>;
+    cues: Record<SceneCue, string>;
+  };
+  /** Torch, zoom and lens controls on the camera view. */
+  camera: {
+    torch: string;
+    zoomIn: string;
+    zoomOut: string;
+    switchLens: string;
+    torchOn: string;
+    torchOff: string;
+    /** Spoken when the view goes dark and the torch is switched on for the user. */
+    torchAuto: string;
+    zoomLevel: (level: number) => string;
+    lensSwitched: string;
+    noOtherLens: string;
+  };
+  /** Read-text mode. */
+  reading: {
+    button: string;
+    /** Badge on transcript items that hold read text. */
+    label: string;
+    hud: string;
+    started: string;
+    unavailable: string;
+    failed: string;
+  };
+  /** Task lists and saved routines. */
+  tasks: {
+    title: string;
+    back: string;
+    routines: string;
+    empty: string;
+    targets: string;
+    targetsPlaceholder: string;
+    name: string;
+    namePlaceholder: string;
+    start: string;
+    save: string;
+    remove: (name: string) => string;
+    end: string;
+    found: string;
+    skip: string;
+    status: Record<TaskStatus, string>;
+    progress: (found: number, total: number) => string;
+    lookingFor: (label: string) => string;
+    started: (first: string, total: number) => string;
+    next: (label: string, found: number, total: number) => string;
+    finished: (found: number, total: number) => string;
+    routineSaved: (name: string) => string;
+    routineMissing: (name: string) => string;
+    noList: string;
+    unavailable: string;
+  };
+  /** Sharing the camera with a sighted helper, on the user's side. */
+  caregiver: {
+    button: string;
+    stop: string;
+    waiting: (room: string) => string;
+    connected: string;
+    /** Status strip while a helper waits to be accepted. */
+    requested: string;
+    /** Spoken when a helper asks to join. */
+    requestCue: string;
+    accept: string;
+    decline: string;
+    pageLink: string;
+    /** Badge on transcript items the helper sent. */
+    label: string;
+    hud: string;
+    joined: string;
+    left: string;
+    takeoverOn: string;
+    takeoverOff: string;
+    ended: string;
+    unavailable: string;
+  };
+  /** The helper's page. */
+  helper: {
+    title: string;
+    room: string;
+    join: string;
+    leave: string;
+    status: Record<CaregiverLinkStatus, string>;
+    say: string;
+    send: string;
+    takeOver: string;
+    handBack: string;
+    transcript: string;
+    user: string;
+    empty: string;
+    noMic: string;
+  };
+}
+
+export interface PromptPhrases {
+  /** Native name of the language, used inside the system prompt. */
+  nativeName: string;
+  scanning: string;
+  lookingFor: string;
+  acquired: string;
+  /** Movement examples; one of the two direction examples below is appended. */
+  directions: string[];
+  clockExample: string;
+  relativeExample: string;
+  uiKeywords: string[];
+  /** Sent after a reconnect that could not resume, so the model picks up the same target. */
+  restoredContext: (target: string) => string;
+}
+
+export interface LanguageProfile {
+  code: LanguageCode;
+  /** Shown in the picker, in the language itself. */
+  label: string;
+  /** BCP-47 tag for the Live API speech config and browser TTS. */
+  bcp47: string;
+  defaultVoice: VoiceName;
+  prompt: PromptPhrases;
+  keywords: PerceptionKeywords;
+  commands: CommandGrammar;
+  ui: UiStrings;
+}
+
+const EN: LanguageProfile = {
+  code: 'en',
+  label: 'English',
+  bcp47: 'en-US',
+  defaultVoice: 'Kore',
+  prompt: {
+    nativeName: 'English',
+    scanning: 'Scanning room...',
+    lookingFor: 'Looking for [object]...',
+    acquired: 'TARGET ACQUIRED',
+    directions: ['Move left', 'Step forward'],
+    clockExample: "Object at 3 o'clock",
+    relativeExample: 'Object slightly to your right',
+    uiKeywords: ['FOUND', 'TARGET', 'ACQUIRED', 'SCANNING', 'LOST SIGHT'],
+    restoredContext: (target) => `[Context restored after a dropped connection. Current target: ${target}. Resume guidance from the live view.]`,
+  },
+  keywords: ENGLISH_PERCEPTION_KEYWORDS,
+  commands: ENGLISH_COMMAND_GRAMMAR,
+  ui: {
+    connect: 'Connect',
+    stop: 'Stop',
+    live: 'LIVE',
+    status: {
+      [ConnectionStatus.DISCONNECTED]: 'DISCONNECTED',
+      [ConnectionStatus.CONNECTING]: 'CONNECTING',
+      [ConnectionStatus.CONNECTED]: 'CONNECTED',
+      [ConnectionStatus.RECONNECTING]: 'RECONNECTING',
+      [ConnectionStatus.OFFLINE]: 'OFFLINE',
+      [ConnectionStatus.ERROR]: 'ERROR',
+    },
+    perception: { IDLE: 'IDLE', SCANNING: 'SCANNING', LOCKING: 'LOCKING', GUIDING: 'GUIDING', READING: 'READING' },
+    analyzingEnvironment: 'Analyzing Environment...',
+    targetIdentified: 'Target Identified. Following instructions.',
+    targetAt: (label, direction, distance) => `${label} ${direction}${distance ? `, ${distance}` : ''}`,
+    clock: hour => `at ${hour} o'clock`,
+    relative: {
+      ahead: 'straight ahead',
+      slightlyLeft: 'slightly left',
+      left: 'to your left',
+      slightlyRight: 'slightly right',
+      right: 'to your right',
+      behind: 'behind you',
+    },
+    distance: { steps: n => `${n} steps`, feet: n => `${n} ft`, meters: n => `${n} m` },
+    hazard: 'Hazard',
+    cameraPaused: 'Camera paused',
+    path: { clear: 'Path: Clear', caution: 'Path: Caution', stop: 'Stop: Obstacle' },
+    mic: 'Mic',
+    voice: 'Voice',
+    you: 'Input',
+    guide: 'AI',
+    listening: 'Listening...',
+    processing: 'Processing...',
+    commandProtocol: 'Command Protocol',
+    exampleCommands: [
+      'What do you see in front of me?',
+      'Find my blue water bottle.',
+      'Describe the room layout.',
+      'Is there anything on the floor?',
+      'Find my keys, then my wallet, then the door.',
+    ],
+    languageTitle: 'Multi-Lingual Engine',
+    languageBody: 'Pick the language the guide should speak. Applies from the next connection.',
+    settings: {
+      title: 'Settings',
+      back: 'Back to feed',
+      language: 'Language',
+      voice: 'Voice',
+      speechRate: 'Speech Rate',
+      verbosity: 'Detail Level',
+      units: 'Distance Units',
+      directions: 'Directions',
+      camera: 'Camera',
+      frameBudget: 'Data Budget',
+      hazardSensitivity: 'Obstacle Warnings',
+      haptics: 'Vibration',
+      accessKey: 'Access Key',
+      accessKeyHint: 'Your personal key for the guide server. Stored only on this device.',
+      options: {
+        slow: 'Slow',
+        normal: 'Normal',
+        fast: 'Fast',
+        terse: 'Terse directions',
+        rich: 'Rich descriptions',
+        steps: 'Steps',
+        feet: 'Feet',
+        meters: 'Meters',
+        clock: 'Clock face',
+        relative: 'Left / right',
+        environment: 'Rear camera',
+        user: 'Front camera',
+        saver: 'Saver',
+        balanced: 'Balanced',
+        detail: 'Detail',
+        off: 'Off',
+        low: 'Low',
+        medium: 'Medium',
+        high: 'High',
+      },
+    },
+    memory: {
+      title: 'Memory',
+      back: 'Back to feed',
+      places: 'Saved Places',
+      objects: 'Last Seen Objects',
+      empty: 'Nothing remembered yet. Objects are saved when the guide finds them.',
+      forgetAll: 'Forget everything',
+      forget: label => `Forget ${label}`,
+      unavailable: 'Memory is unavailable in this browser.',
+    },
+    a11y: {
+      gestureSurface: 'Guide control surface',
+      gestureHintIdle: 'Tap to connect.',
+      gestureHintActive: 'Tap to repeat the last instruction. Double-tap to mute or unmute. Triple-tap to read text. Press and hold to stop.',
+      shortcuts: 'Shortcuts: C connect, Escape stop, R repeat, M mute, T read text.',
+      feed: 'Conversation',
+      mute: 'Mute',
+      unmute: 'Unmute',
+      muted: 'Guide muted.',
+      unmuted: 'Guide unmuted.',
+      nothingToRepeat: 'No instruction to repeat yet.',
+    },
+    errors: {
+      permissionDenied: 'Permission denied. Enable Camera/Mic.',
+      linkFailed: 'Link failed. Check network.',
+      connectionLost: 'Connection lost. Tap Connect to retry.',
+      reconnecting: (attempt, max) => `Link disrupted. Reconnecting (${attempt}/${max})...`,
+      replayFailed: 'Replay failed. Check the recording file.',
+      offline: 'Offline mode. Local cues only; the live guide will reconnect when the network returns.',
+      accessDenied: 'Access key not accepted. Enter your key in Settings.',
+      replyFailed: "Couldn't play the guide's reply. Ask again.",
+    },
+    cues: {
+      reconnecting: 'Connection lost. Reconnecting.',
+      reconnected: 'Reconnected.',
+      connectionLost: 'Connection lost. Tap connect to try again.',
+      obstacle: 'Stop. Obstacle ahead.',
+      videoPaused: 'Camera paused.',
+      videoResumed: 'Camera on.',
+      currentTarget: label => `You were looking for ${label}.`,
+      noTarget: 'No target yet.',
+      targetChanged: label => `New target: ${label}.`,
+      offline: 'The live guide is unavailable. Offline mode: I will still warn about obstacles and lighting, and reconnect when I can.',
+      backOnline: 'Back online. Live guide connected.',
+    },
+    metrics: {
+      optics: 'Optics',
+      network: 'Network',
+      ready: 'Ready',
+      frames: (sent, dropped) => `${sent} sent · ${dropped} dropped`,
+      latency: ms => ms === null ? 'Reply —' : `Reply ${ms} ms`,
+      upstream: kbps => `↑ ${kbps} kbps`,
+      queue: ms => `Queue ${ms} ms`,
+      reconnects: count => `${count} reconnects`,
+      interruptions: count => `${count} interruptions`,
+      export: 'Export metrics',
+    },
+    recording: {
+      start: 'Rec',
+      save: 'Save Rec',
+      replay: 'Replay',
+      frame: 'Recorded camera frame',
+      replayMatched: timeline => `Replay matched the recording: ${timeline}`,
+      replayDiverged: (recorded, replayed) => `Replay differs from the recording. Recorded: ${recorded}. Replayed: ${replayed}`,
+    },
+    sessions: {
+      title: 'Saved Sessions',
+      back: 'Back to feed',
+      empty: 'No sessions recorded yet.',
+      unavailable: 'Saved history is unavailable in this browser.',
+      exportFailed: 'Could not export this session. Please try again.',
+      deleteFailed: 'Could not delete this session. Please try again.',
+      untitled: 'Untitled session',
+      items: count => `${count} ${count === 1 ? 'item' : 'items'}`,
+      delete: 'Delete',
+      deleteLabel: startedAt => `Delete session from ${startedAt}`,
+      exportLabel: (format, startedAt) => `Export session from ${startedAt} as ${format}`,
+      transcript: {
+        title: startedAt => `Vision Guide AI session - ${startedAt}`,
+        speakers: { user: 'User', model: 'Guide', reading: 'Guide (read text)', helper: 'Helper' },
+      },
+    },
+    panel: {
+      title: 'Neural Feed',
+      history: 'History',
+      secureLink: 'Secure Link',
+      standingBy: 'Neural Cortex Standing By',
+    },
+    overview: {
+      title: 'Sensory System Overview',
+      protocol: 'Protocol: Vision Guide 2.5',
+      features: [
+        {
+          label: 'Feature 01',
+          title: 'Spatial Mapping',
+          body: 'The AI constructs a real-time 3D model of your environment, identifying furniture, walls, and obstacles.',
+        },
+        {
+          label: 'Feature 02',
+          title: 'Object Lock',
+          body: 'Ask for specific items. The AI scans the video feed to locate and highlight targets with precision guidance.',
+        },
+        {
+          label: 'Feature 03',
+          title: 'Voice Guidance',
+          body: 'Step-by-step spatial directions. "Two steps forward," "Object at 3 o\'clock," or "Clear path ahead."',
+        },
+      ],
+      awaitingLink: 'Awaiting Neural Link',
+      hint: 'Authorizing optic input will enable live stream',
+    },
+    scene: {
+      light: { dark: 'It is dark here.', normal: 'The lighting is fine.', glare: 'There is strong light or glare.' },
+      steady: 'The view is steady.',
+      moving: 'The camera is moving a lot.',
+      path: { CLEAR: 'The path ahead looks clear.', CAUTION: 'Something may be in the way ahead.', STOP: 'There is an obstacle right ahead.' },
+      cues: { dark: 'It is getting dark.', glare: 'Strong glare ahead.', lightOk: 'Lighting is better now.', shaky: 'Hold the camera steadier.', blurry: 'The picture is blurry. Hold still or wipe the lens.' },
+    },
+    camera: {
+      torch: 'Light',
+      zoomIn: 'Zoom in',
+      zoomOut: 'Zoom out',
+      switchLens: 'Switch camera',
+      torchOn: 'Light on.',
+      torchOff: 'Light off.',
+      torchAuto: 'Too dark, turning on the light.',
+      zoomLevel: (level) => `Zoom ${level.toFixed(1)} times.`,
+      lensSwitched: 'Switched camera.',
+      noOtherLens: 'There is no other camera.',
+    },
+    reading: {
+      button: 'Read',
+      label: 'Read text',
+      hud: 'Reading text...',
+      started: 'Reading. Hold the phone still, about a hand span from the text.',
+      unavailable: 'Reading text needs the live guide.',
+      failed: 'I could not take a clear picture. Try again.',
+    },
+    tasks: {
+      title: 'Tasks',
+      back: 'Back to feed',
+      routines: 'Saved Routines',
+      empty: 'No routines saved yet.',
+      targets: 'Things to find, separated by commas',
+      targetsPlaceholder: 'keys, wallet, front door',
+      name: 'Routine name',
+      namePlaceholder: 'leaving home',
+      start: 'Start',
+      save: 'Save routine',
+      remove: name => `Delete ${name}`,
+      end: 'End list',
+      found: 'Found',
+      skip: 'Skip',
+      status: { pending: 'To find', found: 'Found', skipped: 'Skipped' },
+      progress: (found, total) => `${found} of ${total} found`,
+      lookingFor: label => `Looking for ${label}`,
+      started: (first, total) => `${total} things to find. First: ${first}.`,
+      next: (label, found, total) => `${found} of ${total} found. Next: ${label}.`,
+      finished: (found, total) => `All done. ${found} of ${total} found.`,
+      routineSaved: name => `Saved as ${name}.`,
+      routineMissing: name => `There is no routine called ${name}.`,
+      noList: 'No task list is running.',
+      unavailable: 'Routines are unavailable in this browser.',
+    },
+    caregiver: {
+      button: 'Helper',
+      stop: 'End Help',
+      waiting: room => `Waiting for a helper · code ${room}`,
+      connected: 'Helper connected',
+      requested: 'A helper wants to join',
+      requestCue: 'A helper wants to join. Accept to share your camera and microphone with them.',
+      accept: 'Accept',
+      decline: 'Decline',
+      pageLink: 'Helper page',
+      label: 'Helper',
+      hud: 'Helper guiding',
+      joined: 'Your helper has joined and can see your camera.',
+      left: 'Your helper has left.',
+      takeoverOn: 'Your helper is guiding you now.',
+      takeoverOff: 'The guide is back.',
+      ended: 'Helper link closed.',
+      unavailable: 'Sharing with a helper is not supported in this browser.',
+    },
+    helper: {
+      title: 'Helper Console',
+      room: 'Room code',
+      join: 'Join',
+      leave: 'Leave',
+      status: { waiting: 'Waiting for the user...', requested: 'Asking the user to accept...', connected: 'Connected', closed: 'Disconnected' },
+      say: 'Say to the user',
+      send: 'Speak',
+      takeOver: 'Take over guidance',
+      handBack: 'Hand back to the guide',
+      transcript: 'Transcript',
+      user: 'User',
+      empty: 'The conversation will appear here.',
+      noMic: 'No microphone: the user will only hear what you type.',
+    },
+  },
+};
+
+const HI: LanguageProfile = {
+  code: 'hi',
+  label: 'हिन्दी',
+  bcp47: 'hi-IN',
+  defaultVoice: 'Kore',
+  prompt: {
+    nativeName: 'Hindi (हिन्दी)',
+    scanning: 'कमरा स्कैन कर रहा हूँ...',
+    lookingFor: '[वस्तु] खोज रहा हूँ...',
+    acquired: 'लक्ष्य मिल गया',
+    directions: ['बाएं चलिए', 'एक कदम आगे'],
+    clockExample: 'वस्तु 3 बजे की दिशा में',
+    relativeExample: 'वस्तु थोड़ा दाईं ओर',
+    uiKeywords: ['मिल गया', 'लक्ष्य', 'स्कैन', 'नज़र से हट गया'],
+    restoredContext: (target) => `[कनेक्शन टूटने के बाद संदर्भ बहाल किया गया। मौजूदा लक्ष्य: ${target}। लाइव दृश्य से मार्गदर्शन जारी रखें।]`,
+  },
+  keywords: {
+    sentenceBreak: /(?<=[.!?।])\s*/u,
+    negatedSighting: /नहीं[^.!?।]{0,20}(मिल|दिख)|(मिल|दिख)[^.!?।]{0,8}नहीं/u,
+    scanning: /(स्कैन|खोज रह|ढूं?ढ रह|ढूँढ रह|नज़र से हट|नजर से हट)/u,
+    locking: /(मिल गय|मिल गई|दिख गय|दिख गई|दिखाई दे रह)/u,
+    guiding: /(कदम|बाएं|बाईं|बाएँ|दाएं|दाईं|दाएँ|आगे|मुड़|बजे)/u,
+  },
+  commands: {
+    stop: /^(रुको|रुकिए|बंद करो|बस करो|स्टॉप)$/u,
+    pauseVideo: /^((कैमरा|वीडियो) (रोको|बंद करो))$/u,
+    resumeVideo: /^((कैमरा|वीडियो) (चालू करो|शुरू करो))$/u,
+    repeat: /^(फिर से बोलो|दोबारा बोलो|फिर से कहो|दोहराओ|क्या कहा)$/u,
+    whereWasI: /^(मैं (कहाँ|कहां) (था|थी)|मैं क्या (ढूंढ|ढूँढ) (रहा था|रही थी))$/u,
+    mute: /^(चुप|चुप रहो|आवाज़? बंद करो|म्यूट)$/u,
+    unmute: /^(आवाज़? चालू करो|अनम्यूट)$/u,
+    describeScene: /^(आसपास क्या है|मेरे आसपास क्या है|वर्णन करो|दृश्य बताओ)$/u,
+    readText: /^(यह पढ़ो|इसे पढ़ो|पढ़ो|लेबल पढ़ो|(इस पर )?क्या लिखा है)$/u,
+    taskFound: /^(मिल गया|मिल गई|मिल गए|हाँ मिल गया)$/u,
+    taskSkip: /^(छोड़ो|इसे छोड़ो|छोड़ दो|अगला)$/u,
+    startTasks: /^(?:अब |पहले )?(.+ फिर .+) (?:ढूंढो|ढूँढो|खोजो)$/u,
+    taskSeparator: / (?:और )?(?:उसके बाद )?फिर /u,
+    startRoutine: /^(.+) (?:रूटीन|दिनचर्या) (?:शुरू करो|चलाओ)$/u,
+    saveRoutine: /^(?:इसे|यह सूची|इस सूची को) (.+) (?:के )?नाम से (?:सेव करो|सहेजो)$/u,
+    changeTarget: /^(?:अब (.+) (?:ढूंढो|ढूँढो|खोजो)|नया लक्ष्य (.+))$/u,
+  },
+  ui: {
+    connect: 'कनेक्ट',
+    stop: 'रोकें',
+    live: 'लाइव',
+    status: {
+      [ConnectionStatus.DISCONNECTED]: 'डिस्कनेक्ट',
+      [ConnectionStatus.CONNECTING]: 'कनेक्ट हो रहा है',
+      [ConnectionStatus.CONNECTED]: 'कनेक्टेड',
+      [ConnectionStatus.RECONNECTING]: 'फिर से जुड़ रहा है',
+      [ConnectionStatus.OFFLINE]: 'ऑफ़लाइन',
+      [ConnectionStatus.ERROR]: 'त्रुटि',
+    },
+    perception: { IDLE: 'निष्क्रिय', SCANNING: 'स्कैनिंग', LOCKING: 'लॉक हो रहा', GUIDING: 'मार्गदर्शन', READING: 'पढ़ रहा है' },
+    analyzingEnvironment: 'आसपास का विश्लेषण हो रहा है...',
+    targetIdentified: 'लक्ष्य मिल गया। निर्देशों का पालन करें।',
+    targetAt: (label, direction, distance) => `${label} ${direction}${distance ? `, ${distance}` : ''}`,
+    clock: hour => `${hour} बजे की दिशा में`,
+    relative: {
+      ahead: 'सीधे आगे',
+      slightlyLeft: 'थोड़ा बाएं',
+      left: 'बाएं',
+      slightlyRight: 'थोड़ा दाएं',
+      right: 'दाएं',
+      behind: 'पीछे',
+    },
+    distance: { steps: n => `${n} कदम`, feet: n => `${n} फ़ीट`, meters: n => `${n} मीटर` },
+    hazard: 'खतरा',
+    cameraPaused: 'कैमरा रुका है',
+    path: { clear: 'रास्ता: साफ़', caution: 'रास्ता: सावधान', stop: 'रुकिए: रुकावट' },
+    mic: 'माइक',
+    voice: 'आवाज़',
+    you: 'आप',
+    guide: 'AI',
+    listening: 'सुन रहा है...',
+    processing: 'सोच रहा है...',
+    commandProtocol: 'उदाहरण आदेश',
+    exampleCommands: [
+      'मेरे सामने क्या है?',
+      'मेरी नीली पानी की बोतल ढूंढो।',
+      'कमरे का वर्णन करो।',
+      'क्या फ़र्श पर कुछ पड़ा है?',
+      'चाबी फिर बटुआ फिर दरवाज़ा ढूंढो।',
+    ],
+    languageTitle: 'भाषा',
+    languageBody: 'गाइड किस भाषा में बोले, यह चुनें। अगले कनेक्शन से लागू होगा।',
+    settings: {
+      title: 'सेटिंग्स',
+      back: 'फ़ीड पर वापस',
+      language: 'भाषा',
+      voice: 'आवाज़',
+      speechRate: 'बोलने की गति',
+      verbosity: 'विवरण',
+      units: 'दूरी की इकाई',
+      directions: 'दिशा बताने का तरीका',
+      camera: 'कैमरा',
+      frameBudget: 'डेटा उपयोग',
+      hazardSensitivity: 'बाधा चेतावनी',
+      haptics: 'कंपन',
+      accessKey: 'एक्सेस कुंजी',
+      accessKeyHint: 'गाइड सर्वर के लिए आपकी निजी कुंजी। केवल इसी डिवाइस पर रखी जाती है।',
+      options: {
+        slow: 'धीमी',
+        normal: 'सामान्य',
+        fast: 'तेज़',
+        terse: 'संक्षिप्त निर्देश',
+        rich: 'विस्तृत वर्णन',
+        steps: 'कदम',
+        feet: 'फ़ीट',
+        meters: 'मीटर',
+        clock: 'घड़ी की दिशा',
+        relative: 'बाएं / दाएं',
+        environment: 'पीछे का कैमरा',
+        user: 'सामने का कैमरा',
+        saver: 'कम',
+        balanced: 'संतुलित',
+        detail: 'अधिक',
+        off: 'बंद',
+        low: 'हल्का',
+        medium: 'मध्यम',
+        high: 'तेज़',
+      },
+    },
+    memory: {
+      title: 'याद',
+      back: 'फ़ीड पर वापस',
+      places: 'सहेजी गई जगहें',
+      objects: 'आखिरी बार देखी गई चीज़ें',
+      empty: 'अभी कुछ याद नहीं है। गाइड को कोई चीज़ मिलने पर वह सहेजी जाती है।',
+      forgetAll: 'सब भूल जाएं',
+      forget: label => `${label} भूल जाएं`,
+      unavailable: 'इस ब्राउज़र में याद उपलब्ध नहीं है।',
+    },
+    a11y: {
+      gestureSurface: 'गाइड नियंत्रण सतह',
+      gestureHintIdle: 'कनेक्ट करने के लिए टैप करें।',
+      gestureHintActive: 'पिछला निर्देश दोहराने के लिए टैप करें। आवाज़ बंद या चालू करने के लिए डबल-टैप करें। लिखा हुआ पढ़वाने के लिए तीन बार टैप करें। रोकने के लिए दबाकर रखें।',
+      shortcuts: 'शॉर्टकट: C कनेक्ट, Escape रोकें, R दोहराएं, M म्यूट, T पढ़ें।',
+      feed: 'बातचीत',
+      mute: 'म्यूट',
+      unmute: 'अनम्यूट',
+      muted: 'गाइड की आवाज़ बंद।',
+      unmuted: 'गाइड की आवाज़ चालू।',
+      nothingToRepeat: 'दोहराने के लिए अभी कोई निर्देश नहीं है।',
+    },
+    errors: {
+      permissionDenied: 'अनुमति नहीं मिली। कैमरा/माइक चालू करें।',
+      linkFailed: 'कनेक्शन विफल। नेटवर्क जांचें।',
+      connectionLost: 'कनेक्शन टूट गया। फिर से कनेक्ट दबाएं।',
+      reconnecting: (attempt, max) => `कनेक्शन बाधित। फिर से जुड़ रहा है (${attempt}/${max})...`,
+      replayFailed: 'रीप्ले विफल। रिकॉर्डिंग फ़ाइल जांचें।',
+      offline: 'ऑफ़लाइन मोड। केवल स्थानीय संकेत; नेटवर्क लौटने पर लाइव गाइड फिर से जुड़ेगा।',
+      accessDenied: 'एक्सेस कुंजी स्वीकार नहीं हुई। सेटिंग्स में अपनी कुंजी डालें।',
+      replyFailed: 'गाइड का जवाब नहीं चल सका। फिर से पूछें।',
+    },
+    cues: {
+      reconnecting: 'कनेक्शन टूट गया। फिर से जोड़ रहा हूँ।',
+      reconnected: 'फिर से जुड़ गया।',
+      connectionLost: 'कनेक्शन टूट गया। कृपया फिर से कनेक्ट दबाएं।',
+      obstacle: 'रुकिए। आगे रुकावट है।',
+      videoPaused: 'कैमरा रोका गया।',
+      videoResumed: 'कैमरा चालू।',
+      currentTarget: label => `आप ${label} ढूंढ रहे थे।`,
+      noTarget: 'अभी कोई लक्ष्य नहीं है।',
+      targetChanged: label => `नया लक्ष्य: ${label}।`,
+      offline: 'लाइव गाइड उपलब्ध नहीं है। ऑफ़लाइन मोड: मैं फिर भी रुकावट और रोशनी के बारे में बताऊँगा, और मौका मिलते ही फिर से जुड़ूँगा।',
+      backOnline: 'फिर से ऑनलाइन। लाइव गाइड जुड़ गया।',
+    },
+    metrics: {
+      optics: 'कैमरा',
+      network: 'नेटवर्क',
+      ready: 'तैयार',
+      frames: (sent, dropped) => `${sent} भेजे · ${dropped} छूटे`,
+      latency: ms => ms === null ? 'जवाब —' : `जवाब ${ms} ms`,
+      upstream: kbps => `↑ ${kbps} kbps`,
+      queue: ms => `कतार ${ms} ms`,
+      reconnects: count => `${count} बार फिर जुड़ा`,
+      interruptions: count => `${count} बार रोका`,
+      export: 'मेट्रिक्स निर्यात करें',
+    },
+    recording: {
+      start: 'रिकॉर्ड',
+      save: 'रिकॉर्डिंग सहेजें',
+      replay: 'रीप्ले',
+      frame: 'रिकॉर्ड किया गया कैमरा फ़्रेम',
+      replayMatched: timeline => `रीप्ले रिकॉर्डिंग से मेल खाता है: ${timeline}`,
+      replayDiverged: (recorded, replayed) => `रीप्ले रिकॉर्डिंग से अलग है। रिकॉर्ड: ${recorded}। रीप्ले: ${replayed}`,
+    },
+    sessions: {
+      title: 'सहेजे गए सत्र',
+      back: 'फ़ीड पर वापस',
+      empty: 'अभी कोई सत्र रिकॉर्ड नहीं हुआ।',
+      unavailable: 'इस ब्राउज़र में सहेजा गया इतिहास उपलब्ध नहीं है।',
+      exportFailed: 'यह सत्र निर्यात नहीं हो सका। कृपया फिर से कोशिश करें।',
+      deleteFailed: 'यह सत्र हटाया नहीं जा सका। कृपया फिर से कोशिश करें।',
+      untitled: 'बिना नाम का सत्र',
+      items: count => `${count} ${count === 1 ? 'प्रविष्टि' : 'प्रविष्टियाँ'}`,
+      delete: 'हटाएं',
+      deleteLabel: startedAt => `${startedAt} का सत्र हटाएं`,
+      exportLabel: (format, startedAt) => `${startedAt} का सत्र ${format} में निर्यात करें`,
+      transcript: {
+        title: startedAt => `विज़न गाइड AI सत्र - ${startedAt}`,
+        speakers: { user: 'उपयोगकर्ता', model: 'गाइड', reading: 'गाइड (पढ़ा गया पाठ)', helper: 'सहायक' },
+      },
+    },
+    panel: {
+      title: 'न्यूरल फ़ीड',
+      history: 'इतिहास',
+      secureLink: 'सुरक्षित लिंक',
+      standingBy: 'न्यूरल कॉर्टेक्स तैयार है',
+    },
+    overview: {
+      title: 'संवेदी प्रणाली अवलोकन',
+      protocol: 'प्रोटोकॉल: विज़न गाइड 2.5',
+      features: [
+        {
+          label: 'सुविधा 01',
+          title: 'स्थान मानचित्रण',
+          body: 'AI आपके आसपास का रियल-टाइम 3D मॉडल बनाता है और फ़र्नीचर, दीवारें और बाधाएं पहचानता है।',
+        },
+        {
+          label: 'सुविधा 02',
+          title: 'वस्तु लॉक',
+          body: 'किसी खास चीज़ के बारे में पूछें। AI वीडियो फ़ीड में उसे ढूंढता है और सटीक मार्गदर्शन देता है।',
+        },
+        {
+          label: 'सुविधा 03',
+          title: 'आवाज़ मार्गदर्शन',
+          body: 'कदम-दर-कदम दिशा-निर्देश। "दो कदम आगे", "वस्तु 3 बजे की दिशा में" या "आगे रास्ता साफ़ है"।',
+        },
+      ],
+      awaitingLink: 'न्यूरल लिंक की प्रतीक्षा',
+      hint: 'कैमरे की अनुमति देने पर लाइव स्ट्रीम शुरू होगी',
+    },
+    scene: {
+      light: { dark: 'यहाँ अंधेरा है।', normal: 'रोशनी ठीक है।', glare: 'बहुत तेज़ रोशनी या चमक है।' },
+      steady: 'दृश्य स्थिर है।',
+      moving: 'कैमरा बहुत हिल रहा है।',
+      path: { CLEAR: 'आगे रास्ता साफ़ लगता है।', CAUTION: 'आगे रास्ते में कुछ हो सकता है।', STOP: 'ठीक आगे रुकावट है।' },
+      cues: { dark: 'अंधेरा हो रहा है।', glare: 'आगे तेज़ चमक है।', lightOk: 'अब रोशनी बेहतर है।', shaky: 'कैमरा स्थिर रखिए।', blurry: 'तस्वीर धुंधली है। कैमरा स्थिर रखिए या लेंस पोंछिए।' },
+    },
+    camera: {
+      torch: 'लाइट',
+      zoomIn: 'ज़ूम इन',
+      zoomOut: 'ज़ूम आउट',
+      switchLens: 'कैमरा बदलें',
+      torchOn: 'लाइट चालू।',
+      torchOff: 'लाइट बंद।',
+      torchAuto: 'बहुत अंधेरा है, लाइट चालू कर रहा हूँ।',
+      zoomLevel: (level) => `ज़ूम ${level.toFixed(1)} गुना।`,
+      lensSwitched: 'कैमरा बदल दिया।',
+      noOtherLens: 'कोई दूसरा कैमरा नहीं है।',
+    },
+    reading: {
+      button: 'पढ़ें',
+      label: 'पढ़ा गया पाठ',
+      hud: 'पाठ पढ़ रहा है...',
+      started: 'पढ़ रहा हूँ। फ़ोन को स्थिर रखिए, लिखे हुए से लगभग एक बित्ता दूर।',
+      unavailable: 'पढ़ने के लिए लाइव गाइड चाहिए।',
+      failed: 'साफ़ तस्वीर नहीं ले पाया। फिर से कोशिश कीजिए।',
+    },
+    tasks: {
+      title: 'काम',
+      back: 'फ़ीड पर वापस',
+      routines: 'सहेजे गए रूटीन',
+      empty: 'अभी कोई रूटीन सहेजा नहीं गया है।',
+      targets: 'ढूँढने की चीज़ें, कॉमा से अलग करके',
+      targetsPlaceholder: 'चाबी, बटुआ, मुख्य दरवाज़ा',
+      name: 'रूटीन का नाम',
+      namePlaceholder: 'घर से निकलना',
+      start: 'शुरू करें',
+      save: 'रूटीन सहेजें',
+      remove: name => `${name} हटाएँ`,
+      end: 'सूची बंद करें',
+      found: 'मिल गया',
+      skip: 'छोड़ें',
+      status: { pending: 'ढूँढना है', found: 'मिल गया', skipped: 'छोड़ा' },
+      progress: (found, total) => `${total} में से ${found} मिले`,
+      lookingFor: label => `${label} ढूँढ रहा है`,
+      started: (first, total) => `${total} चीज़ें ढूँढनी हैं। पहले: ${first}।`,
+      next: (label, found, total) => `${total} में से ${found} मिले। अब: ${label}।`,
+      finished: (found, total) => `सब हो गया। ${total} में से ${found} मिले।`,
+      routineSaved: name => `${name} नाम से सहेज लिया।`,
+      routineMissing: name => `${name} नाम का कोई रूटीन नहीं है।`,
+      noList: 'अभी कोई सूची नहीं चल रही है।',
+      unavailable: 'इस ब्राउज़र में रूटीन उपलब्ध नहीं हैं।',
+    },
+    caregiver: {
+      button: 'सहायक',
+      stop: 'सहायता बंद',
+      waiting: room => `सहायक की प्रतीक्षा · कोड ${room}`,
+      connected: 'सहायक जुड़े हैं',
+      requested: 'एक सहायक जुड़ना चाहते हैं',
+      requestCue: 'एक सहायक जुड़ना चाहते हैं। अपना कैमरा और माइक्रोफ़ोन साझा करने के लिए स्वीकार करें।',
+      accept: 'स्वीकार करें',
+      decline: 'अस्वीकार करें',
+      pageLink: 'सहायक पेज',
+      label: 'सहायक',
+      hud: 'सहायक मार्गदर्शन कर रहे हैं',
+      joined: 'आपके सहायक जुड़ गए हैं और आपका कैमरा देख सकते हैं।',
+      left: 'आपके सहायक चले गए हैं।',
+      takeoverOn: 'अब आपके सहायक आपका मार्गदर्शन कर रहे हैं।',
+      takeoverOff: 'गाइड वापस आ गया है।',
+      ended: 'सहायक से जुड़ाव बंद हुआ।',
+      unavailable: 'इस ब्राउज़र में सहायक के साथ साझा करना संभव नहीं है।',
+    },
+    helper: {
+      title: 'सहायक कंसोल',
+      room: 'रूम कोड',
+      join: 'जुड़ें',
+      leave: 'छोड़ें',
+      status: { waiting: 'उपयोगकर्ता की प्रतीक्षा...', requested: 'उपयोगकर्ता की स्वीकृति की प्रतीक्षा...', connected: 'जुड़े हैं', closed: 'डिस्कनेक्ट' },
+      say: 'उपयोगकर्ता से कहें',
+      send: 'बोलें',
+      takeOver: 'मार्गदर्शन अपने हाथ में लें',
+      handBack: 'गाइड को वापस दें',
+      transcript: 'बातचीत',
+      user: 'उपयोगकर्ता',
+      empty: 'बातचीत यहाँ दिखेगी।',
+      noMic: 'माइक्रोफ़ोन नहीं है: उपयोगकर्ता केवल आपका लिखा सुनेंगे।',
+    },
+  },
+};
+
+const MR: LanguageProfile = {
+  code: 'mr',
+  label: 'मराठी',
+  bcp47: 'mr-IN',
+  defaultVoice: 'Kore',
+  prompt: {
+    nativeName: 'Marathi (मराठी)',
+    scanning: 'खोली स्कॅन करत आहे...',
+    lookingFor: '[वस्तू] शोधत आहे...',
+    acquired: 'लक्ष्य सापडले',
+    directions: ['डावीकडे चला', 'एक पाऊल पुढे'],
+    clockExample: 'वस्तू 3 वाजण्याच्या दिशेला',
+    relativeExample: 'वस्तू थोडी उजवीकडे',
+    uiKeywords: ['सापडले', 'लक्ष्य', 'स्कॅन', 'दिसेनासे झाले'],
+    restoredContext: (target) => `[कनेक्शन तुटल्यानंतर संदर्भ पुनर्संचयित केला. सध्याचे लक्ष्य: ${target}. लाइव्ह दृश्यावरून मार्गदर्शन पुढे सुरू ठेवा.]`,
+  },
+  keywords: {
+    sentenceBreak: /(?<=[.!?।])\s*/u,
+    negatedSighting: /(सापड|दिस)[^.!?।]{0,10}नाही|(^|\s)(न|नाही)\s+(सापड|दिस)|दिसेनास/u,
+    scanning: /(स्कॅन|शोधत|पाहत आहे)/u,
+    locking: /(सापडल|दिसत आहे|दिसल)/u,
+    guiding: /(पाऊल|पावल|डावीकडे|उजवीकडे|पुढे|वळा|वाजता|वाजण्याच्या)/u,
+  },
+  commands: {
+    stop: /^(थांबा|थांब|बंद करा|स्टॉप)$/u,
+    pauseVideo: /^((कॅमेरा|व्हिडिओ) (थांबवा|बंद करा))$/u,
+    resumeVideo: /^((कॅमेरा|व्हिडिओ) (सुरू करा|चालू करा))$/u,
+    repeat: /^(पुन्हा सांगा|परत सांगा|परत बोला|काय म्हणालात)$/u,
+    whereWasI: /^(मी कुठे (होतो|होते)|मी काय शोधत (होतो|होते))$/u,
+    mute: /^(शांत|शांत रहा|आवाज बंद करा|म्यूट)$/u,
+    unmute: /^(आवाज (सुरू|चालू) करा|अनम्यूट)$/u,
+    describeScene: /^(आजूबाजूला काय आहे|माझ्या आजूबाजूला काय आहे|वर्णन करा|दृश्य सांगा)$/u,
+    readText: /^(हे वाचा|वाचा|लेबल वाचा|(यावर )?काय लिहिले आहे|काय लिहिलंय)$/u,
+    taskFound: /^(सापडलं|सापडले|सापडला|मिळालं|मिळाले)$/u,
+    taskSkip: /^(सोडा|हे सोडा|वगळा|पुढचं|पुढचे)$/u,
+    startTasks: /^(?:आता |आधी )?(.+ मग .+) शोधा$/u,
+    taskSeparator: / (?:आणि )?(?:त्यानंतर|मग) /u,
+    startRoutine: /^(.+) (?:रूटीन|दिनक्रम) (?:सुरू करा|चालवा)$/u,
+    saveRoutine: /^(?:हे|ही यादी|या यादीला) (.+) नावाने (?:सेव्ह करा|जतन करा)$/u,
+    changeTarget: /^(?:आता (.+) शोधा|नवीन लक्ष्य (.+))$/u,
+  },
+  ui: {
+    connect: 'कनेक्ट',
+    stop: 'थांबवा',
+    live: 'लाइव्ह',
+    status: {
+      [ConnectionStatus.DISCONNECTED]: 'डिस्कनेक्ट',
+      [ConnectionStatus.CONNECTING]: 'जोडत आहे',
+      [ConnectionStatus.CONNECTED]: 'जोडलेले',
+      [ConnectionStatus.RECONNECTING]: 'पुन्हा जोडत आहे',
+      [ConnectionStatus.OFFLINE]: 'ऑफलाइन',
+      [ConnectionStatus.ERROR]: 'त्रुटी',
+    },
+    perception: { IDLE: 'निष्क्रिय', SCANNING: 'स्कॅनिंग', LOCKING: 'लॉक होत आहे', GUIDING: 'मार्गदर्शन', READING: 'वाचत आहे' },
+    analyzingEnvironment: 'आजूबाजूचे विश्लेषण करत आहे...',
+    targetIdentified: 'लक्ष्य सापडले. सूचनांचे पालन करा.',
+    targetAt: (label, direction, distance) => `${label} ${direction}${distance ? `, ${distance}` : ''}`,
+    clock: hour => `${hour} वाजण्याच्या दिशेला`,
+    relative: {
+      ahead: 'सरळ पुढे',
+      slightlyLeft: 'थोडे डावीकडे',
+      left: 'डावीकडे',
+      slightlyRight: 'थोडे उजवीकडे',
+      right: 'उजवीकडे',
+      behind: 'मागे',
+    },
+    distance: { steps: n => `${n} पावले`, feet: n => `${n} फूट`, meters: n => `${n} मीटर` },
+    hazard: 'धोका',
+    cameraPaused: 'कॅमेरा थांबवला',
+    path: { clear: 'मार्ग: मोकळा', caution: 'मार्ग: सावधान', stop: 'थांबा: अडथळा' },
+    mic: 'माइक',
+    voice: 'आवाज',
+    you: 'तुम्ही',
+    guide: 'AI',
+    listening: 'ऐकत आहे...',
+    processing: 'विचार करत आहे...',
+    commandProtocol: 'उदाहरण आज्ञा',
+    exampleCommands: [
+      'माझ्या समोर काय आहे?',
+      'माझी निळी पाण्याची बाटली शोधा.',
+      'खोलीचे वर्णन करा.',
+      'जमिनीवर काही पडले आहे का?',
+      'चाव्या मग पाकीट मग दरवाजा शोधा.',
+    ],
+    languageTitle: 'भाषा',
+    languageBody: 'मार्गदर्शक कोणत्या भाषेत बोलेल ते निवडा. पुढच्या कनेक्शनपासून लागू होईल.',
+    settings: {
+      title: 'सेटिंग्ज',
+      back: 'फीडवर परत',
+      language: 'भाषा',
+      voice: 'आवाज',
+      speechRate: 'बोलण्याचा वेग',
+      verbosity: 'तपशील',
+      units: 'अंतराचे एकक',
+      directions: 'दिशा सांगण्याची पद्धत',
+      camera: 'कॅमेरा',
+      frameBudget: 'डेटा वापर',
+      hazardSensitivity: 'अडथळा इशारे',
+      haptics: 'कंपन',
+      accessKey: 'ॲक्सेस की',
+      accessKeyHint: 'मार्गदर्शक सर्व्हरसाठी तुमची वैयक्तिक की. फक्त याच डिव्हाइसवर ठेवली जाते.',
+      options: {
+        slow: 'हळू',
+        normal: 'सामान्य',
+        fast: 'जलद',
+        terse: 'थोडक्यात सूचना',
+        rich: 'सविस्तर वर्णन',
+        steps: 'पावले',
+        feet: 'फूट',
+        meters: 'मीटर',
+        clock: 'घड्याळाची दिशा',
+        relative: 'डावीकडे / उजवीकडे',
+        environment: 'मागचा कॅमेरा',
+        user: 'पुढचा कॅमेरा',
+        saver: 'कमी',
+        balanced: 'संतुलित',
+        detail: 'जास्त',
+        off: 'बंद',
+        low: 'हलके',
+        medium: 'मध्यम',
+        high: 'जोरदार',
+      },
+    },
+    memory: {
+      title: 'आठवण',
+      back: 'फीडवर परत',
+      places: 'जतन केलेली ठिकाणे',
+      objects: 'शेवटच्या वेळी दिसलेल्या वस्तू',
+      empty: 'अजून काहीही लक्षात नाही. मार्गदर्शकाला वस्तू सापडल्यावर ती जतन होते.',
+      forgetAll: 'सर्व विसरा',
+      forget: label => `${label} विसरा`,
+      unavailable: 'या ब्राउझरमध्ये आठवण उपलब्ध नाही.',
+    },
+    a11y: {
+      gestureSurface: 'मार्गदर्शक नियंत्रण पृष्ठ',
+      gestureHintIdle: 'कनेक्ट करण्यासाठी टॅप करा.',
+      gestureHintActive: 'मागील सूचना पुन्हा ऐकण्यासाठी टॅप करा. आवाज बंद किंवा सुरू करण्यासाठी डबल-टॅप करा. लिहिलेले वाचून घेण्यासाठी तीन वेळा टॅप करा. थांबवण्यासाठी दाबून धरा.',
+      shortcuts: 'शॉर्टकट: C कनेक्ट, Escape थांबवा, R पुन्हा, M म्यूट, T वाचा.',
+      feed: 'संभाषण',
+      mute: 'म्यूट',
+      unmute: 'अनम्यूट',
+      muted: 'मार्गदर्शकाचा आवाज बंद.',
+      unmuted: 'मार्गदर्शकाचा आवाज सुरू.',
+      nothingToRepeat: 'पुन्हा सांगण्यासाठी अजून कोणतीही सूचना नाही.',
+    },
+    errors: {
+      permissionDenied: 'परवानगी नाकारली. कॅमेरा/माइक सुरू करा.',
+      linkFailed: 'कनेक्शन अयशस्वी. नेटवर्क तपासा.',
+      connectionLost: 'कनेक्शन तुटले. पुन्हा कनेक्ट दाबा.',
+      reconnecting: (attempt, max) => `कनेक्शन खंडित. पुन्हा जोडत आहे (${attempt}/${max})...`,
+      replayFailed: 'रीप्ले अयशस्वी. रेकॉर्डिंग फाइल तपासा.',
+      offline: 'ऑफलाइन मोड. फक्त स्थानिक सूचना; नेटवर्क परत आल्यावर लाइव्ह मार्गदर्शक पुन्हा जोडेल.',
+      accessDenied: 'ॲक्सेस की स्वीकारली नाही. सेटिंग्जमध्ये तुमची की टाका.',
+      replyFailed: 'मार्गदर्शकाचे उत्तर वाजवता आले नाही. पुन्हा विचारा.',
+    },
+    cues: {
+      reconnecting: 'कनेक्शन तुटले. पुन्हा जोडत आहे.',
+      reconnected: 'पुन्हा जोडले.',
+      connectionLost: 'कनेक्शन तुटले. कृपया पुन्हा कनेक्ट दाबा.',
+      obstacle: 'थांबा. पुढे अडथळा आहे.',
+      videoPaused: 'कॅमेरा थांबवला.',
+      videoResumed: 'कॅमेरा सुरू.',
+      currentTarget: label => `तुम्ही ${label} शोधत होता.`,
+      noTarget: 'अजून कोणतेही लक्ष्य नाही.',
+      targetChanged: label => `नवीन लक्ष्य: ${label}.`,
+      offline: 'लाइव्ह मार्गदर्शक उपलब्ध नाही. ऑफलाइन मोड: मी तरीही अडथळे आणि प्रकाशाबद्दल सांगेन, आणि शक्य होताच पुन्हा जोडेन.',
+      backOnline: 'पुन्हा ऑनलाइन. लाइव्ह मार्गदर्शक जोडला.',
+    },
+    metrics: {
+      optics: 'कॅमेरा',
+      network: 'नेटवर्क',
+      ready: 'तयार',
+      frames: (sent, dropped) => `${sent} पाठवले · ${dropped} सुटले`,
+      latency: ms => ms === null ? 'उत्तर —' : `उत्तर ${ms} ms`,
+      upstream: kbps => `↑ ${kbps} kbps`,
+      queue: ms => `रांग ${ms} ms`,
+      reconnects: count => `${count} वेळा पुन्हा जोडले`,
+      interruptions: count => `${count} वेळा थांबवले`,
+      export: 'मेट्रिक्स निर्यात करा',
+    },
+    recording: {
+      start: 'रेकॉर्ड',
+      save: 'रेकॉर्डिंग जतन करा',
+      replay: 'रीप्ले',
+      frame: 'रेकॉर्ड केलेली कॅमेरा फ्रेम',
+      replayMatched: timeline => `रीप्ले रेकॉर्डिंगशी जुळतो: ${timeline}`,
+      replayDiverged: (recorded, replayed) => `रीप्ले रेकॉर्डिंगपेक्षा वेगळा आहे. रेकॉर्ड: ${recorded}. रीप्ले: ${replayed}`,
+    },
+    sessions: {
+      title: 'जतन केलेली सत्रे',
+      back: 'फीडवर परत',
+      empty: 'अजून कोणतेही सत्र रेकॉर्ड झालेले नाही.',
+      unavailable: 'या ब्राउझरमध्ये जतन केलेला इतिहास उपलब्ध नाही.',
+      exportFailed: 'हे सत्र निर्यात करता आले नाही. कृपया पुन्हा प्रयत्न करा.',
+      deleteFailed: 'हे सत्र हटवता आले नाही. कृपया पुन्हा प्रयत्न करा.',
+      untitled: 'नाव नसलेले सत्र',
+      items: count => `${count} ${count === 1 ? 'नोंद' : 'नोंदी'}`,
+      delete: 'हटवा',
+      deleteLabel: startedAt => `${startedAt} चे सत्र हटवा`,
+      exportLabel: (format, startedAt) => `${startedAt} चे सत्र ${format} म्हणून निर्यात करा`,
+      transcript: {
+        title: startedAt => `व्हिजन गाइड AI सत्र - ${startedAt}`,
+        speakers: { user: 'वापरकर्ता', model: 'गाइड', reading: 'गाइड (वाचलेला मजकूर)', helper: 'मदतनीस' },
+      },
+    },
+    panel: {
+      title: 'न्यूरल फीड',
+      history: 'इतिहास',
+      secureLink: 'सुरक्षित लिंक',
+      standingBy: 'न्यूरल कॉर्टेक्स तयार आहे',
+    },
+    overview: {
+      title: 'संवेदी प्रणाली आढावा',
+      protocol: 'प्रोटोकॉल: व्हिजन गाइड 2.5',
+      features: [
+        {
+          label: 'वैशिष्ट्य 01',
+          title: 'जागेचे मॅपिंग',
+          body: 'AI तुमच्या आसपासचे रिअल-टाइम 3D मॉडेल बनवते आणि फर्निचर, भिंती व अडथळे ओळखते.',
+        },
+        {
+          label: 'वैशिष्ट्य 02',
+          title: 'वस्तू लॉक',
+          body: 'एखाद्या विशिष्ट वस्तूबद्दल विचारा. AI व्हिडिओ फीडमध्ये ती शोधते आणि अचूक मार्गदर्शन देते.',
+        },
+        {
+          label: 'वैशिष्ट्य 03',
+          title: 'आवाज मार्गदर्शन',
+          body: 'पावलोपावली दिशा. "दोन पावले पुढे", "वस्तू 3 वाजण्याच्या दिशेला" किंवा "पुढे रस्ता मोकळा आहे".',
+        },
+      ],
+      awaitingLink: 'न्यूरल लिंकची प्रतीक्षा',
+      hint: 'कॅमेऱ्याला परवानगी दिल्यावर लाइव्ह स्ट्रीम सुरू होईल',
+    },
+    scene: {
+      light: { dark: 'इथे अंधार आहे.', normal: 'प्रकाश ठीक आहे.', glare: 'खूप तीव्र प्रकाश किंवा चकाकी आहे.' },
+      steady: 'दृश्य स्थिर आहे.',
+      moving: 'कॅमेरा खूप हलत आहे.',
+      path: { CLEAR: 'पुढचा रस्ता मोकळा दिसतो.', CAUTION: 'पुढे रस्त्यात काहीतरी असू शकते.', STOP: 'अगदी पुढे अडथळा आहे.' },
+      cues: { dark: 'अंधार होत आहे.', glare: 'पुढे तीव्र चकाकी आहे.', lightOk: 'आता प्रकाश चांगला आहे.', shaky: 'कॅमेरा स्थिर धरा.', blurry: 'चित्र धूसर आहे. कॅमेरा स्थिर धरा किंवा लेन्स पुसा.' },
+    },
+    camera: {
+      torch: 'लाइट',
+      zoomIn: 'झूम इन',
+      zoomOut: 'झूम आउट',
+      switchLens: 'कॅमेरा बदला',
+      torchOn: 'लाइट चालू.',
+      torchOff: 'लाइट बंद.',
+      torchAuto: 'खूप अंधार आहे, लाइट चालू करत आहे.',
+      zoomLevel: (level) => `झूम ${level.toFixed(1)} पट.`,
+      lensSwitched: 'कॅमेरा बदलला.',
+      noOtherLens: 'दुसरा कॅमेरा नाही.',
+    },
+    reading: {
+      button: 'वाचा',
+      label: 'वाचलेला मजकूर',
+      hud: 'मजकूर वाचत आहे...',
+      started: 'वाचत आहे. फोन स्थिर धरा, मजकुरापासून साधारण एक वीत अंतरावर.',
+      unavailable: 'वाचण्यासाठी लाइव्ह मार्गदर्शक हवा.',
+      failed: 'स्पष्ट फोटो घेता आला नाही. पुन्हा प्रयत्न करा.',
+    },
+    tasks: {
+      title: 'कामे',
+      back: 'फीडवर परत',
+      routines: 'जतन केलेले रूटीन',
+      empty: 'अजून कोणतेही रूटीन जतन केलेले नाही.',
+      targets: 'शोधायच्या वस्तू, स्वल्पविरामाने वेगळ्या',
+      targetsPlaceholder: 'चाव्या, पाकीट, मुख्य दरवाजा',
+      name: 'रूटीनचे नाव',
+      namePlaceholder: 'घराबाहेर पडणे',
+      start: 'सुरू करा',
+      save: 'रूटीन जतन करा',
+      remove: name => `${name} काढा`,
+      end: 'यादी बंद करा',
+      found: 'सापडले',
+      skip: 'वगळा',
+      status: { pending: 'शोधायचे', found: 'सापडले', skipped: 'वगळले' },
+      progress: (found, total) => `${total} पैकी ${found} सापडले`,
+      lookingFor: label => `${label} शोधत आहे`,
+      started: (first, total) => `${total} वस्तू शोधायच्या आहेत. आधी: ${first}.`,
+      next: (label, found, total) => `${total} पैकी ${found} सापडले. आता: ${label}.`,
+      finished: (found, total) => `सगळे झाले. ${total} पैकी ${found} सापडले.`,
+      routineSaved: name => `${name} नावाने जतन केले.`,
+      routineMissing: name => `${name} नावाचे रूटीन नाही.`,
+      noList: 'सध्या कोणतीही यादी सुरू नाही.',
+      unavailable: 'या ब्राउझरमध्ये रूटीन उपलब्ध नाहीत.',
+    },
+    caregiver: {
+      button: 'मदतनीस',
+      stop: 'मदत बंद',
+      waiting: room => `मदतनीसाची वाट · कोड ${room}`,
+      connected: 'मदतनीस जोडलेले',
+      requested: 'एक मदतनीस जोडू इच्छितात',
+      requestCue: 'एक मदतनीस जोडू इच्छितात. तुमचा कॅमेरा आणि मायक्रोफोन शेअर करण्यासाठी स्वीकारा.',
+      accept: 'स्वीकारा',
+      decline: 'नाकारा',
+      pageLink: 'मदतनीस पान',
+      label: 'मदतनीस',
+      hud: 'मदतनीस मार्गदर्शन करत आहेत',
+      joined: 'तुमचे मदतनीस जोडले गेले आहेत आणि तुमचा कॅमेरा पाहू शकतात.',
+      left: 'तुमचे मदतनीस गेले.',
+      takeoverOn: 'आता तुमचे मदतनीस तुम्हाला मार्गदर्शन करत आहेत.',
+      takeoverOff: 'मार्गदर्शक परत आला आहे.',
+      ended: 'मदतनीसाशी जोडणी बंद झाली.',
+      unavailable: 'या ब्राउझरमध्ये मदतनीसासोबत शेअर करता येत नाही.',
+    },
+    helper: {
+      title: 'मदतनीस कन्सोल',
+      room: 'रूम कोड',
+      join: 'जोडा',
+      leave: 'बाहेर पडा',
+      status: { waiting: 'वापरकर्त्याची वाट पाहत आहे...', requested: 'वापरकर्त्याच्या मंजुरीची वाट पाहत आहे...', connected: 'जोडलेले', closed: 'डिस्कनेक्ट' },
+      say: 'वापरकर्त्याला सांगा',
+      send: 'बोला',
+      takeOver: 'मार्गदर्शन हाती घ्या',
+      handBack: 'मार्गदर्शकाला परत द्या',
+      transcript: 'संभाषण',
+      user: 'वापरकर्ता',
+      empty: 'संभाषण इथे दिसेल.',
+      noMic: 'मायक्रोफोन नाही: वापरकर्त्याला फक्त तुम्ही टाइप केलेले ऐकू येईल.',
+    },
+  },
+};
+
+export const LANGUAGES: Record<LanguageCode, LanguageProfile> = { en: EN, hi: HI, mr: MR };
+
+export interface LanguageSettings {
+  language: LanguageCode;
+  voice: VoiceName;
+}
+
+export const DEFAULT_LANGUAGE_SETTINGS: LanguageSettings = { language: 'en', voice: 'Kore' };
+
+const STORAGE_KEY = 'visionguide.language';
+
+export function loadLanguageSettings(): LanguageSettings {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (raw) {
+      const parsed = { ...DEFAULT_LANGUAGE_SETTINGS, ...JSON.parse(raw) } as LanguageSettings;
+      if (parsed.language in LANGUAGES && VOICE_NAMES.includes(parsed.voice)) return parsed;
+    }
+  } catch {}
+  return DEFAULT_LANGUAGE_SETTINGS;
+}
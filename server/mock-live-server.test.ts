@@ -0,0 +1,68 @@
+import { AddressInfo } from 'net';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { WebSocket as NodeWebSocket, WebSocketServer } from 'ws';
+import { createFakeEnvironment } from '../services/fake-environment';
+import { createMockTransport } from '../services/live-transport';
+import { VisionGuideSession } from '../services/vision-guide-session';
+import { ConnectionStatus, PerceptionState } from '../types';
+import { createOfflineContext } from '../utils/offline-audio';
+import { DEFAULT_PLAYBACK_CONFIG, PlaybackManager } from '../utils/playback-manager';
+import { DEFAULT_USER_PROFILE } from '../utils/user-profile';
+import { loadScenario, startMockLiveServer } from './mock-live-server';
+
+const here = path.dirname(fileURLToPath(import.meta.url));
+
+let server: WebSocketServer | null = null;
+let session: VisionGuideSession | null = null;
+
+afterEach(async () => {
+  session?.stop();
+  session = null;
+  if (server) await new Promise(resolve => server!.close(resolve));
+  server = null;
+  vi.unstubAllGlobals();
+});
+
+describe('mock live server', () => {
+  it('drives a session through the find-keys scenario', async () => {
+    // Node 20 has no global WebSocket; the browser transport gets the `ws` client.
+    vi.stubGlobal('WebSocket', NodeWebSocket);
+    server = startMockLiveServer({ port: 0, scenario: loadScenario(path.join(here, 'scenarios', 'find-keys.json')), speed: 10 });
+    await new Promise(resolve => server!.once('listening', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    const fake = createFakeEnvironment({
+      transport: createMockTransport(`ws://localhost:${port}`),
+      openPlayback: () => new PlaybackManager(createOfflineContext(1, 1, 24000), DEFAULT_PLAYBACK_CONFIG),
+    });
+    session = new VisionGuideSession(DEFAULT_USER_PROFILE, fake.env);
+    const perception: PerceptionState[] = [];
+    session.on('perception', state => perception.push(state));
+    // The script ends its second turn last.
+    const finished = new Promise<void>(resolve => {
+      let turns = 0;
+      session!.on('turnComplete', () => ++turns === 2 && resolve());
+    });
+
+    await session.start();
+    await finished;
+
+    const state = session.getState();
+    expect(state.status).toBe(ConnectionStatus.CONNECTED);
+    expect(state.error).toBeNull();
+    expect(perception).toEqual(['SCANNING', 'LOCKING', 'GUIDING']);
+    expect(state.guidance.target).toMatchObject({ label: 'keys', clockDirection: 3, distanceSteps: 2 });
+    expect(state.guidance.hazard).toMatchObject({ description: 'chair leg', severity: 'medium' });
+    // The interruption cuts the audio, not the transcript of the turn it belongs to.
+    expect(state.history.map(item => [item.role, item.text])).toEqual([
+      ['user', 'Find my keys.'],
+      ['model', 'Scanning room... Looking for keys.'],
+      ['user', 'Which way?'],
+      ['model', "Target acquired. Keys at 2 o'clock, Move right and take two steps forward."],
+    ]);
+    // Sightings are saved at most once per refresh interval, so the first one stays.
+    expect(fake.memories.get('object:keys')).toMatchObject({ label: 'keys', clockDirection: 2 });
+  }, 10000);
+});
@@ -0,0 +1,120 @@
+/**
+ * Local stand-in for the Gemini Live WebSocket. Replays a scripted scenario of
+ * `serverContent` messages to every client so the perception and transcript
+ * pipeline can run without a network or API key.
+ *
+ *   npm run mock:live -- --port 8787 --script server/scenarios/find-keys.json --loop --speed 2
+ *
+ * Point the app at it with `LIVE_MOCK_URL=ws://localhost:8787` in .env.local.
+ */
+import { readFileSync } from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { WebSocketServer, WebSocket } from 'ws';
+
+export interface MockStep {
+  delayMs: number;
+  /** Generates this many milliseconds of 24 kHz PCM tone as a model audio chunk. */
+  audioMs?: number;
+  serverContent?: Record<string, unknown>;
+  toolCall?: Record<string, unknown>;
+}
+
+export interface MockScenario {
+  name: string;
+  steps: MockStep[];
+}
+
+const OUTPUT_SAMPLE_RATE = 24000;
+
+function toneChunk(durationMs: number, frequency = 440): string {
+  const samples = Math.round((OUTPUT_SAMPLE_RATE * durationMs) / 1000);
+  const pcm = new Int16Array(samples);
+  for (let i = 0; i < samples; i++) {
+    pcm[i] = Math.round(Math.sin((2 * Math.PI * frequency * i) / OUTPUT_SAMPLE_RATE) * 0.2 * 32767);
+  }
+  return Buffer.from(pcm.buffer).toString('base64');
+}
+
+export function buildMessage(step: MockStep): Record<string, unknown> | null {
+  const serverContent: Record<string, unknown> = { ...(step.serverContent ?? {}) };
+  if (step.audioMs) {
+    serverContent.modelTurn = {
+      parts: [{ inlineData: { data: toneChunk(step.audioMs), mimeType: `audio/pcm;rate=${OUTPUT_SAMPLE_RATE}` } }],
+    };
+  }
+  const message: Record<string, unknown> = {};
+  if (Object.keys(serverContent).length > 0) message.serverContent = serverContent;
+  if (step.toolCall) message.toolCall = step.toolCall;
+  return Object.keys(message).length > 0 ? message : null;
+}
+
+export function loadScenario(file: string): MockScenario {
+  return JSON.parse(readFileSync(file, 'utf8')) as MockScenario;
+}
+
+async function replay(ws: WebSocket, scenario: MockScenario, loop: boolean, speed: number) {
+  do {
+    for (const step of scenario.steps) {
+      await new Promise(resolve => setTimeout(resolve, step.delayMs / speed));
+      if (ws.readyState !== WebSocket.OPEN) return;
+      const message = buildMessage(step);
+      if (message) ws.send(JSON.stringify(message));
+    }
+  } while (loop && ws.readyState === WebSocket.OPEN);
+}
+
+export interface MockLiveServerOptions {
+  /** 0 picks a free port; read it from the server's `address()` once listening. */
+  port: number;
+  scenario: MockScenario;
+  loop?: boolean;
+  /** 2 plays the script twice as fast. */
+  speed?: number;
+}
+
+export function startMockLiveServer(options: MockLiveServerOptions) {
+  const wss = new WebSocketServer({ port: options.port });
+
+  wss.on('connection', (ws) => {
+    const received = { setup: 0, realtimeInput: 0, clientContent: 0, toolResponse: 0 };
+    let started = false;
+
+    ws.on('message', (raw) => {
+      let payload: Record<string, unknown>;
+      try {
+        payload = JSON.parse(raw.toString());
+      } catch {
+        return;
+      }
+      for (const key of Object.keys(received) as (keyof typeof received)[]) {
+        if (key in payload) received[key]++;
+      }
+      if ('setup' in payload && !started) {
+        started = true;
+        ws.send(JSON.stringify({ setupComplete: {} }));
+        replay(ws, options.scenario, !!options.loop, options.speed ?? 1).catch(err => console.error('[mock-live] replay failed', err));
+      }
+    });
+
+    ws.on('close', () => console.log('[mock-live] client closed', received));
+  });
+
+  return wss;
+}
+
+function argValue(args: string[], flag: string): string | undefined {
+  const idx = args.indexOf(flag);
+  return idx >= 0 ? args[idx + 1] : undefined;
+}
+
+if (process.argv[1] && path.resolve(process.argv[1]) === fileURLToPath(import.meta.url)) {
+  const args = process.argv.slice(2);
+  const here = path.dirname(fileURLToPath(import.meta.url));
+  const port = Number(argValue(args, '--port') ?? 8787);
+  const scenarioFile = argValue(args, '--script') ?? path.join(here, 'scenarios', 'find-keys.json');
+  const scenario = loadScenario(scenarioFile);
+  const speed = Number(argValue(args, '--speed') ?? 1);
+  startMockLiveServer({ port, scenario, loop: args.includes('--loop'), speed });
+  console.log(`[mock-live] replaying "${scenario.name}" on ws://localhost:${port}`);
+}
@@ -0,0 +1,51 @@
+export interface RateLimitPolicy {
+  /** Requests a user can make back to back. */
+  burst: number;
+  /** Sustained requests per minute once the burst is spent. */
+  perMinute: number;
+}
+
+export const DEFAULT_RATE_LIMIT_POLICY: RateLimitPolicy = {
+  burst: 5,
+  perMinute: 10,
+};
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+/** Token bucket per key. Idle buckets are forgotten once they are full again. */
+export class RateLimiter {
+  private readonly buckets = new Map<string, Bucket>();
+
+  constructor(
+    private readonly policy: RateLimitPolicy = DEFAULT_RATE_LIMIT_POLICY,
+    private readonly now: () => number = Date.now,
+  ) {}
+
+  /** Takes one request from `key`'s bucket; `retryAfterMs` is set when it is empty. */
+  take(key: string): { allowed: boolean; retryAfterMs: number } {
+    const now = this.now();
+    this.sweep(now);
+    const bucket = this.refill(this.buckets.get(key) ?? { tokens: this.policy.burst, updatedAt: now }, now);
+    this.buckets.set(key, bucket);
+    if (bucket.tokens >= 1) {
+      bucket.tokens -= 1;
+      return { allowed: true, retryAfterMs: 0 };
+    }
+    const msPerToken = 60000 / this.policy.perMinute;
+    return { allowed: false, retryAfterMs: Math.ceil((1 - bucket.tokens) * msPerToken) };
+  }
+
+  private refill(bucket: Bucket, now: number): Bucket {
+    const earned = ((now - bucket.updatedAt) / 60000) * this.policy.perMinute;
+    return { tokens: Math.min(this.policy.burst, bucket.tokens + earned), updatedAt: now };
+  }
+
+  private sweep(now: number) {
+    for (const [key, bucket] of this.buckets) {
+      if (this.refill(bucket, now).tokens >= this.policy.burst) this.buckets.delete(key);
+    }
+  }
+}
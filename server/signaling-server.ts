@@ -0,0 +1,89 @@
+/**
+ * Introduces a user and a sighted helper so they can open a WebRTC link. A
+ * room holds at most one peer of each role, and each message is relayed as-is
+ * to the other peer. Media never passes through here.
+ *
+ *   npm run signaling -- --port 8789
+ *
+ * The Vite dev server proxies `/signal` here, so the app and the helper page
+ * work on one machine. The room code is the only secret, so keep it to people
+ * you trust or put it behind your own auth.
+ */
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { WebSocket, WebSocketServer } from 'ws';
+import { isRoomCode, PeerRole, SIGNALING_PATH, SignalMessage } from '../services/caregiver-link';
+
+const ROLES: PeerRole[] = ['user', 'helper'];
+// SDP offers are a few kilobytes; anything much larger isn't signaling.
+const MAX_MESSAGE_BYTES = 64 * 1024;
+const DEFAULT_MAX_ROOMS = 100;
+
+export interface SignalingServerOptions {
+  port: number;
+  maxRooms?: number;
+}
+
+function send(ws: WebSocket, message: SignalMessage) {
+  if (ws.readyState === WebSocket.OPEN) ws.send(JSON.stringify(message));
+}
+
+export function startSignalingServer(options: SignalingServerOptions) {
+  const maxRooms = options.maxRooms ?? DEFAULT_MAX_ROOMS;
+  const rooms = new Map<string, Partial<Record<PeerRole, WebSocket>>>();
+  const wss = new WebSocketServer({ port: options.port, path: SIGNALING_PATH, maxPayload: MAX_MESSAGE_BYTES });
+
+  wss.on('connection', (ws, req) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const room = url.searchParams.get('room') ?? '';
+    const role = url.searchParams.get('role') as PeerRole;
+    if (!isRoomCode(room) || !ROLES.includes(role)) return ws.close(4400, 'bad_request');
+    if (!rooms.has(room) && rooms.size >= maxRooms) return ws.close(4429, 'too_many_rooms');
+    const peers = rooms.get(room) ?? {};
+    if (peers[role]) return ws.close(4409, 'role_taken');
+    peers[role] = ws;
+    rooms.set(room, peers);
+
+    const otherRole: PeerRole = role === 'user' ? 'helper' : 'user';
+    const other = peers[otherRole];
+    if (other) {
+      send(other, { type: 'peerJoined', role });
+      send(ws, { type: 'peerJoined', role: otherRole });
+    }
+
+    ws.on('message', (raw) => {
+      const peer = rooms.get(room)?.[otherRole];
+      if (!peer || peer.readyState !== WebSocket.OPEN) return;
+      const text = raw.toString();
+      try {
+        JSON.parse(text);
+      } catch {
+        return;
+      }
+      peer.send(text);
+    });
+
+    ws.on('close', () => {
+      const current = rooms.get(room);
+      if (current?.[role] !== ws) return;
+      delete current[role];
+      const peer = current[otherRole];
+      if (peer) send(peer, { type: 'peerLeft', role });
+      else rooms.delete(room);
+    });
+  });
+
+  return wss;
+}
+
+function argValue(args: string[], flag: string): string | undefined {
+  const idx = args.indexOf(flag);
+  return idx >= 0 ? args[idx + 1] : undefined;
+}
+
+if (process.argv[1] && path.resolve(process.argv[1]) === fileURLToPath(import.meta.url)) {
+  const args = process.argv.slice(2);
+  const port = Number(argValue(args, '--port') ?? process.env.SIGNALING_PORT ?? 8789);
+  startSignalingServer({ port });
+  console.log(`[signaling] relaying on ws://localhost:${port}${SIGNALING_PATH}`);
+}
@@ -0,0 +1,125 @@
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import { afterEach, describe, expect, it } from 'vitest';
+import { MintRequest, parseClientKeys, startTokenServer, TOKEN_PATH, TokenServerOptions } from './token-server';
+
+const NOW = Date.UTC(2025, 0, 1);
+
+let server: Server | null = null;
+
+afterEach(async () => {
+  if (server) await new Promise(resolve => server!.close(resolve));
+  server = null;
+});
+
+/** Starts a server on a free port with a stub upstream that records every mint. */
+async function start(options: Partial<TokenServerOptions> = {}) {
+  const mints: MintRequest[] = [];
+  server = startTokenServer(0, {
+    minter: async (request) => {
+      mints.push(request);
+      return `token-${mints.length}`;
+    },
+    clientKeys: parseClientKeys('alice:alice-key,bob:bob-key'),
+    rateLimit: { burst: 2, perMinute: 1 },
+    now: () => NOW,
+    ...options,
+  });
+  await new Promise(resolve => server!.once('listening', resolve));
+  const { port } = server.address() as AddressInfo;
+  const request = (init: RequestInit & { key?: string; forwardedFor?: string } = {}, path = TOKEN_PATH) => fetch(`http://127.0.0.1:${port}${path}`, {
+    method: 'POST',
+    ...init,
+    headers: {
+      ...(init.key ? { Authorization: `Bearer ${init.key}` } : {}),
+      ...(init.forwardedFor ? { 'X-Forwarded-For': init.forwardedFor } : {}),
+    },
+  });
+  return { mints, request, address: server.address() as AddressInfo };
+}
+
+describe('parseClientKeys', () => {
+  it('maps each access key to its user and skips malformed entries', () => {
+    const keys = parseClientKeys(' alice:k1, bob:k:2 ,broken,:nouser');
+    expect([...keys]).toEqual([['k1', 'alice'], ['k:2', 'bob']]);
+  });
+});
+
+describe('token server', () => {
+  it('mints a short-lived token for a known user', async () => {
+    const { mints, request } = await start();
+    const res = await request({ key: 'alice-key' });
+    expect(res.status).toBe(200);
+    expect(res.headers.get('cache-control')).toBe('no-store');
+    expect(await res.json()).toEqual({
+      token: 'token-1',
+      expiresAt: NOW + 30 * 60 * 1000,
+      newSessionExpiresAt: NOW + 60 * 1000,
+    });
+    expect(mints).toEqual([{
+      expireTime: new Date(NOW + 30 * 60 * 1000),
+      newSessionExpireTime: new Date(NOW + 60 * 1000),
+    }]);
+  });
+
+  it('rejects missing and unknown access keys without calling upstream', async () => {
+    const { mints, request } = await start();
+    expect((await request()).status).toBe(401);
+    expect((await request({ key: 'guess' })).status).toBe(401);
+    expect(mints).toHaveLength(0);
+  });
+
+  it('rate limits each user separately', async () => {
+    const { request } = await start();
+    expect((await request({ key: 'alice-key' })).status).toBe(200);
+    expect((await request({ key: 'alice-key' })).status).toBe(200);
+    const limited = await request({ key: 'alice-key' });
+    expect(limited.status).toBe(429);
+    expect(limited.headers.get('retry-after')).toBe('60');
+    expect(await limited.json()).toEqual({ error: 'rate_limited', retryAfterMs: 60000 });
+    expect((await request({ key: 'bob-key' })).status).toBe(200);
+  });
+
+  it('reports an upstream failure as a bad gateway', async () => {
+    const { request } = await start({ minter: async () => { throw new Error('quota'); } });
+    const res = await request({ key: 'bob-key' });
+    expect(res.status).toBe(502);
+    expect(await res.json()).toEqual({ error: 'upstream_failed' });
+  });
+
+  it('only serves POST on the token path', async () => {
+    const { request } = await start();
+    expect((await request({ key: 'alice-key' }, '/api/other')).status).toBe(404);
+    expect((await request({ key: 'alice-key', method: 'GET' })).status).toBe(405);
+  });
+
+  it('answers CORS preflight for the allowed origin', async () => {
+    const { request } = await start({ allowedOrigin: 'https://app.example' });
+    const res = await request({ method: 'OPTIONS' });
+    expect(res.status).toBe(204);
+    expect(res.headers.get('access-control-allow-origin')).toBe('https://app.example');
+    expect(res.headers.get('access-control-allow-headers')).toBe('Authorization');
+  });
+
+  it('serves anonymous clients on this machine only, as one user', async () => {
+    const { address, request } = await start({ clientKeys: new Map() });
+    expect(address.address).toBe('127.0.0.1');
+    expect((await request()).status).toBe(200);
+    // Through the dev proxy, which appends the caller's address.
+    expect((await request({ forwardedFor: '127.0.0.1' })).status).toBe(200);
+    expect((await request({ forwardedFor: '127.0.0.1' })).status).toBe(429);
+  });
+
+  it('turns away anonymous clients the dev proxy forwards from other machines', async () => {
+    const { mints, request } = await start({ clientKeys: new Map() });
+    expect((await request({ forwardedFor: '192.168.1.20' })).status).toBe(401);
+    // Only the proxy's own entry counts; the client's are spoofable.
+    expect((await request({ forwardedFor: '127.0.0.1, 192.168.1.20' })).status).toBe(401);
+    expect(mints).toHaveLength(0);
+  });
+
+  it('refuses to serve anonymous clients on other interfaces', () => {
+    expect(() => startTokenServer(0, { minter: async () => 'token', clientKeys: new Map(), host: '0.0.0.0' }))
+      .toThrow(/TOKEN_CLIENT_KEYS/);
+  });
+});
@@ -0,0 +1,191 @@
+/**
+ * Mints short-lived Gemini Live tokens so the real API key never reaches the
+ * browser. Clients authenticate with a per-user access key and are rate
+ * limited per user; each token is single-use, locked to the live model, and
+ * only good for opening a session within a minute.
+ *
+ *   GEMINI_API_KEY=... TOKEN_CLIENT_KEYS=alice:s3cret npm run token-server -- --port 8788
+ *
+ * The Vite dev server proxies `/api` here. Without TOKEN_CLIENT_KEYS the
+ * server is for local development only: it listens on loopback, serves only
+ * clients on this machine (including those the dev proxy forwards), and they
+ * all share one rate limit.
+ */
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { GoogleGenAI } from '@google/genai';
+import { LIVE_MODEL } from '../services/live-transport';
+import { DEFAULT_RATE_LIMIT_POLICY, RateLimiter, RateLimitPolicy } from './rate-limiter';
+
+export const TOKEN_PATH = '/api/token';
+
+export interface MintRequest {
+  /** When messages on a session opened with the token stop being accepted. */
+  expireTime: Date;
+  /** When the token stops opening new sessions. */
+  newSessionExpireTime: Date;
+}
+
+/** Creates an ephemeral token upstream; tests swap in a stub. */
+export type TokenMinter = (request: MintRequest) => Promise<string>;
+
+export interface TokenResponse {
+  token: string;
+  expiresAt: number;
+  newSessionExpiresAt: number;
+}
+
+export interface TokenServerOptions {
+  minter: TokenMinter;
+  /** Access key to user id. Empty means anonymous, local clients only. */
+  clientKeys: Map<string, string>;
+  /** Interface to listen on. Defaults to all of them, or loopback when anonymous. */
+  host?: string;
+  rateLimit?: RateLimitPolicy;
+  sessionTtlMs?: number;
+  newSessionTtlMs?: number;
+  /** Origin allowed to call from another host; the dev proxy doesn't need it. */
+  allowedOrigin?: string;
+  now?: () => number;
+}
+
+const DEFAULT_SESSION_TTL_MS = 30 * 60 * 1000;
+const DEFAULT_NEW_SESSION_TTL_MS = 60 * 1000;
+
+export function createGeminiMinter(apiKey: string): TokenMinter {
+  const ai = new GoogleGenAI({ apiKey, httpOptions: { apiVersion: 'v1alpha' } });
+  return async ({ expireTime, newSessionExpireTime }) => {
+    const token = await ai.authTokens.create({
+      config: {
+        uses: 1,
+        expireTime: expireTime.toISOString(),
+        newSessionExpireTime: newSessionExpireTime.toISOString(),
+        liveConnectConstraints: { model: LIVE_MODEL },
+      },
+    });
+    if (!token.name) throw new Error('Upstream returned no token');
+    return token.name;
+  };
+}
+
+/** Parses `user:key,user:key` into a key-to-user map. */
+export function parseClientKeys(value: string | undefined): Map<string, string> {
+  const keys = new Map<string, string>();
+  (value ?? '').split(',').map(entry => entry.trim()).filter(Boolean).forEach(entry => {
+    const idx = entry.indexOf(':');
+    if (idx > 0) keys.set(entry.slice(idx + 1), entry.slice(0, idx));
+  });
+  return keys;
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) {
+  res.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store', ...headers });
+  res.end(JSON.stringify(body));
+}
+
+const LOOPBACK_HOSTS = new Set(['localhost', '127.0.0.1', '::1', '::ffff:127.0.0.1']);
+
+export const isLoopback = (address: string | undefined) => !!address && LOOPBACK_HOSTS.has(address);
+
+/**
+ * The address a request came from. Behind the local dev proxy that is the last
+ * `X-Forwarded-For` entry, the one the proxy added; earlier entries come from
+ * the client and can't be trusted.
+ */
+function clientAddress(req: IncomingMessage): string | undefined {
+  const socket = req.socket.remoteAddress;
+  const forwarded = req.headers['x-forwarded-for'];
+  if (!isLoopback(socket) || typeof forwarded !== 'string') return socket;
+  return forwarded.split(',').at(-1)?.trim();
+}
+
+function authenticate(req: IncomingMessage, clientKeys: Map<string, string>): string | null {
+  // Anonymous mode serves this machine only, as a single user.
+  if (clientKeys.size === 0) return isLoopback(clientAddress(req)) ? 'local' : null;
+  const match = /^Bearer (.+)$/.exec(req.headers.authorization ?? '');
+  return match ? clientKeys.get(match[1]) ?? null : null;
+}
+
+export function startTokenServer(port: number, options: TokenServerOptions): Server {
+  const anonymous = options.clientKeys.size === 0;
+  if (anonymous && options.host && !isLoopback(options.host)) {
+    throw new Error(`Refusing to serve anonymous clients on ${options.host}; set TOKEN_CLIENT_KEYS`);
+  }
+  const limiter = new RateLimiter(options.rateLimit ?? DEFAULT_RATE_LIMIT_POLICY, options.now);
+  const now = options.now ?? Date.now;
+  const sessionTtl = options.sessionTtlMs ?? DEFAULT_SESSION_TTL_MS;
+  const newSessionTtl = options.newSessionTtlMs ?? DEFAULT_NEW_SESSION_TTL_MS;
+
+  const server = createServer(async (req, res) => {
+    const cors: Record<string, string> = options.allowedOrigin ? {
+      'Access-Control-Allow-Origin': options.allowedOrigin,
+      'Access-Control-Allow-Headers': 'Authorization',
+      'Access-Control-Allow-Methods': 'POST',
+      Vary: 'Origin',
+    } : {};
+    const url = new URL(req.url ?? '/', 'http://localhost');
+
+    if (url.pathname !== TOKEN_PATH) return sendJson(res, 404, { error: 'not_found' }, cors);
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, cors);
+      return res.end();
+    }
+    if (req.method !== 'POST') return sendJson(res, 405, { error: 'method_not_allowed' }, cors);
+
+    const user = authenticate(req, options.clientKeys);
+    if (!user) return sendJson(res, 401, { error: 'unauthorized' }, cors);
+
+    const { allowed, retryAfterMs } = limiter.take(user);
+    if (!allowed) {
+      return sendJson(res, 429, { error: 'rate_limited', retryAfterMs }, {
+        ...cors,
+        'Retry-After': String(Math.ceil(retryAfterMs / 1000)),
+      });
+    }
+
+    const issuedAt = now();
+    const expiresAt = issuedAt + sessionTtl;
+    const newSessionExpiresAt = issuedAt + newSessionTtl;
+    try {
+      const token = await options.minter({
+        expireTime: new Date(expiresAt),
+        newSessionExpireTime: new Date(newSessionExpiresAt),
+      });
+      sendJson(res, 200, { token, expiresAt, newSessionExpiresAt } satisfies TokenResponse, cors);
+    } catch (err) {
+      console.error('[token-server] mint failed', err);
+      sendJson(res, 502, { error: 'upstream_failed' }, cors);
+    }
+  });
+
+  server.listen(port, options.host ?? (anonymous ? '127.0.0.1' : undefined));
+  return server;
+}
+
+function argValue(args: string[], flag: string): string | undefined {
+  const idx = args.indexOf(flag);
+  return idx >= 0 ? args[idx + 1] : undefined;
+}
+
+if (process.argv[1] && path.resolve(process.argv[1]) === fileURLToPath(import.meta.url)) {
+  const args = process.argv.slice(2);
+  // Same .env.local the Vite build reads; variables already set win.
+  try { process.loadEnvFile('.env.local'); } catch {}
+  const port = Number(argValue(args, '--port') ?? process.env.TOKEN_SERVER_PORT ?? 8788);
+  const apiKey = process.env.GEMINI_API_KEY;
+  if (!apiKey) {
+    console.error('[token-server] GEMINI_API_KEY is not set');
+    process.exit(1);
+  }
+  const host = argValue(args, '--host') ?? process.env.TOKEN_SERVER_HOST;
+  const clientKeys = parseClientKeys(process.env.TOKEN_CLIENT_KEYS);
+  if (clientKeys.size === 0) console.warn('[token-server] TOKEN_CLIENT_KEYS is empty; accepting anonymous clients on this machine only');
+  try {
+    startTokenServer(port, { minter: createGeminiMinter(apiKey), clientKeys, host, allowedOrigin: process.env.TOKEN_ALLOWED_ORIGIN });
+  } catch (err) {
+    console.error(`[token-server] ${(err as Error).message}`);
+    process.exit(1);
+  }
+  console.log(`[token-server] minting tokens on http://localhost:${port}${TOKEN_PATH}`);
+}
@@ -0,0 +1,224 @@
+/**
+ * Sighted-helper link. The user's camera and mic go to a helper page over
+ * WebRTC, and the helper's voice comes back the same way. A data channel
+ * carries the transcript one way and spoken text and takeover requests the
+ * other. `server/signaling-server.ts` only introduces the two peers.
+ */
+import { PerceptionState, TranscriptionItem } from '../types';
+
+export type PeerRole = 'user' | 'helper';
+
+/** Relayed by the signaling server between the two peers in a room. */
+export type SignalMessage =
+  | { type: 'peerJoined'; role: PeerRole }
+  | { type: 'peerLeft'; role: PeerRole }
+  | { type: 'offer'; sdp: string }
+  | { type: 'answer'; sdp: string }
+  | { type: 'candidate'; candidate: RTCIceCandidateInit };
+
+/** Sent over the data channel once the peers are connected. */
+export type HelperMessage =
+  | { type: 'transcript'; items: TranscriptionItem[] }
+  | { type: 'partial'; role: TranscriptionItem['role']; text: string }
+  | { type: 'perception'; perception: PerceptionState; target: string | null }
+  | { type: 'takeover'; active: boolean }
+  | { type: 'say'; text: string };
+
+/** `requested`: a helper is in the room and waits for the user to accept. */
+export type CaregiverLinkStatus = 'waiting' | 'requested' | 'connected' | 'closed';
+
+export const SIGNALING_PATH = '/signal';
+
+const ROOM_ALPHABET = 'abcdefghjkmnpqrstuvwxyz23456789';
+const ROOM_CODE_LENGTH = 8;
+
+/** Short code that is easy to read out over the phone; it is the room's only secret. */
+export function createRoomCode(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(ROOM_CODE_LENGTH));
+  return Array.from(bytes, b => ROOM_ALPHABET[b % ROOM_ALPHABET.length]).join('');
+}
+
+export function isRoomCode(value: string): boolean {
+  return /^[a-z0-9]{6,32}$/.test(value);
+}
+
+/** Helper page address for a room, opened on the helper's device. */
+export function helperPageUrl(room: string): string {
+  return new URL(`helper.html?room=${room}`, location.href).toString();
+}
+
+function signalingUrl(room: string, role: PeerRole): string {
+  const url = new URL(process.env.SIGNALING_URL || SIGNALING_PATH, location.href);
+  url.protocol = url.protocol === 'https:' ? 'wss:' : url.protocol === 'http:' ? 'ws:' : url.protocol;
+  url.searchParams.set('room', room);
+  url.searchParams.set('role', role);
+  return url.toString();
+}
+
+// Peers on one machine or network connect directly; STUN_URL lets them reach
+// each other across NATs.
+const iceServers = (): RTCIceServer[] => (process.env.STUN_URL ? [{ urls: process.env.STUN_URL }] : []);
+
+export interface CaregiverLinkOptions {
+  room: string;
+  /** Sent to the other side: camera and mic for the user, mic for the helper. */
+  tracks: MediaStreamTrack[];
+  onStatus: (status: CaregiverLinkStatus) => void;
+  onMessage: (message: HelperMessage) => void;
+}
+
+/** The user's end of the link, as the session engine sees it. */
+export interface CaregiverLink {
+  /** Lets a helper who joined the room connect; nothing is shared before this. */
+  accept(): void;
+  send(message: HelperMessage): void;
+  /** Swaps the shared camera track after a camera or lens switch. */
+  replaceVideoTrack(track: MediaStreamTrack | null): void;
+  close(): void;
+}
+
+/**
+ * One end of the link. The user offers once they accept a helper who joined
+ * the room, so a helper who reloads the page has to be accepted again.
+ */
+export class CaregiverPeer implements CaregiverLink {
+  private readonly socket: WebSocket;
+  private pc: RTCPeerConnection | null = null;
+  private channel: RTCDataChannel | null = null;
+  private tracks: MediaStreamTrack[];
+  // Signals are handled one at a time so candidates never race the offer.
+  private signals: Promise<void> = Promise.resolve();
+  private helperWaiting = false;
+  private closed = false;
+
+  constructor(
+    private readonly role: PeerRole,
+    private readonly options: CaregiverLinkOptions & { onRemoteStream: (stream: MediaStream | null) => void },
+  ) {
+    this.tracks = options.tracks;
+    this.socket = new WebSocket(signalingUrl(options.room, role));
+    this.socket.onmessage = (e) => {
+      let message: SignalMessage;
+      try {
+        message = JSON.parse(e.data);
+      } catch {
+        return;
+      }
+      this.signals = this.signals
+        .then(() => this.handleSignal(message))
+        .catch(err => console.error("Caregiver signal failed:", err));
+    };
+    this.socket.onclose = () => this.close();
+    options.onStatus('waiting');
+  }
+
+  accept() {
+    if (this.role !== 'user' || !this.helperWaiting) return;
+    this.helperWaiting = false;
+    this.signals = this.signals
+      .then(() => this.offer())
+      .catch(err => console.error("Caregiver signal failed:", err));
+  }
+
+  send(message: HelperMessage) {
+    if (this.channel?.readyState === 'open') this.channel.send(JSON.stringify(message));
+  }
+
+  replaceVideoTrack(track: MediaStreamTrack | null) {
+    this.tracks = [...this.tracks.filter(t => t.kind !== 'video'), ...(track ? [track] : [])];
+    // Found by receiver kind, since the sender's track may already be null.
+    const sender = this.pc?.getTransceivers().find(t => t.receiver.track.kind === 'video')?.sender;
+    sender?.replaceTrack(track).catch(err => console.error("Caregiver track swap failed:", err));
+  }
+
+  close() {
+    if (this.closed) return;
+    this.closed = true;
+    this.resetPeer();
+    this.socket.onclose = null;
+    this.socket.close();
+    this.options.onStatus('closed');
+  }
+
+  private async handleSignal(message: SignalMessage) {
+    switch (message.type) {
+      case 'peerJoined':
+        if (this.role !== 'user') break;
+        this.resetPeer();
+        this.helperWaiting = true;
+        this.options.onStatus('requested');
+        break;
+      case 'peerLeft':
+        this.helperWaiting = false;
+        this.resetPeer();
+        this.options.onStatus('waiting');
+        break;
+      case 'offer': {
+        // Only the user offers, so a helper can never pull tracks by offering first.
+        if (this.role === 'user') break;
+        const pc = this.createPeer();
+        await pc.setRemoteDescription({ type: 'offer', sdp: message.sdp });
+        const answer = await pc.createAnswer();
+        await pc.setLocalDescription(answer);
+        this.signal({ type: 'answer', sdp: answer.sdp ?? '' });
+        break;
+      }
+      case 'answer':
+        await this.pc?.setRemoteDescription({ type: 'answer', sdp: message.sdp });
+        break;
+      case 'candidate':
+        await this.pc?.addIceCandidate(message.candidate);
+        break;
+    }
+  }
+
+  private async offer() {
+    const pc = this.createPeer();
+    this.attachChannel(pc.createDataChannel('guide'));
+    const offer = await pc.createOffer();
+    await pc.setLocalDescription(offer);
+    this.signal({ type: 'offer', sdp: offer.sdp ?? '' });
+  }
+
+  private createPeer(): RTCPeerConnection {
+    this.resetPeer();
+    const pc = new RTCPeerConnection({ iceServers: iceServers() });
+    const stream = new MediaStream(this.tracks);
+    this.tracks.forEach(track => pc.addTrack(track, stream));
+    pc.onicecandidate = (e) => {
+      if (e.candidate) this.signal({ type: 'candidate', candidate: e.candidate.toJSON() });
+    };
+    pc.ontrack = (e) => this.options.onRemoteStream(e.streams[0] ?? new MediaStream([e.track]));
+    pc.ondatachannel = (e) => this.attachChannel(e.channel);
+    pc.onconnectionstatechange = () => {
+      if (this.pc === pc && pc.connectionState === 'failed') this.options.onStatus('waiting');
+    };
+    this.pc = pc;
+    return pc;
+  }
+
+  // The link counts as connected once messages can flow, not just media.
+  private attachChannel(channel: RTCDataChannel) {
+    channel.onopen = () => this.options.onStatus('connected');
+    channel.onmessage = (e) => {
+      try {
+        this.options.onMessage(JSON.parse(e.data));
+      } catch {
+        // Ignore anything that isn't a message we know.
+      }
+    };
+    this.channel = channel;
+  }
+
+  private resetPeer() {
+    this.channel?.close();
+    this.channel = null;
+    this.pc?.close();
+    this.pc = null;
+    this.options.onRemoteStream(null);
+  }
+
+  private signal(message: SignalMessage) {
+    if (this.socket.readyState === WebSocket.OPEN) this.socket.send(JSON.stringify(message));
+  }
+}
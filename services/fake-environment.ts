@@ -0,0 +1,216 @@
+/**
+ * In-memory stand-ins for everything `VisionGuideSession` takes from its host,
+ * so the engine runs under Node. Each fake records what the engine asked of
+ * it for tests to inspect.
+ */
+import { LiveServerMessage } from '@google/genai';
+import { MemoryRecord, Routine, TranscriptionItem } from '../types';
+import { NO_CAMERA_CONTROLS } from '../utils/camera-controller';
+import { PlaybackManager } from '../utils/playback-manager';
+import { CaregiverLink, CaregiverLinkOptions, CaregiverLinkStatus, HelperMessage } from './caregiver-link';
+import { LiveConnectOptions, LiveSession, LiveTransport } from './live-transport';
+import { SessionRecord } from './history-store';
+import { memoryId } from './memory-store';
+import { routineId } from './routine-store';
+import { CameraSource, MediaSources, MicSource, SessionEnvironment } from './media-sources';
+
+/** Everything the engine sent on one live session. */
+export interface FakeLiveSession extends LiveSession {
+  readonly sent: { realtime: unknown[]; content: unknown[]; toolResponses: unknown[] };
+  readonly closed: boolean;
+  /** What `bufferedAmount()` reports, to simulate a slow uplink. */
+  queuedBytes: number;
+}
+
+/** Hands out sessions the test drives by pushing server messages. */
+export class FakeLiveTransport implements LiveTransport {
+  readonly name = 'fake';
+  readonly connects: LiveConnectOptions[] = [];
+  session: FakeLiveSession | null = null;
+  /** Set to make the next connect fail with this error. */
+  failWith: Error | null = null;
+
+  async connect(options: LiveConnectOptions): Promise<LiveSession> {
+    this.connects.push(options);
+    if (this.failWith) throw this.failWith;
+    const sent = { realtime: [] as unknown[], content: [] as unknown[], toolResponses: [] as unknown[] };
+    const session: FakeLiveSession = {
+      sent,
+      closed: false,
+      queuedBytes: 0,
+      sendRealtimeInput: (params) => { sent.realtime.push(params); },
+      sendClientContent: (params) => { sent.content.push(params); },
+      sendToolResponse: (params) => { sent.toolResponses.push(params); },
+      bufferedAmount: () => session.queuedBytes,
+      close: () => { (session as { closed: boolean }).closed = true; },
+    };
+    this.session = session;
+    // Like a socket, the link opens after `connect` has handed back its promise.
+    await Promise.resolve();
+    options.callbacks.onopen?.();
+    return session;
+  }
+
+  /** Delivers a server message, given as its JSON frame, on the current session. */
+  receive(message: Partial<LiveServerMessage>) {
+    this.connects[this.connects.length - 1]?.callbacks.onmessage(message as LiveServerMessage);
+  }
+}
+
+export class FakeCamera implements CameraSource {
+  readonly preview = null;
+  readonly width = 640;
+  readonly height = 480;
+  readonly controls = NO_CAMERA_CONTROLS;
+  stopped = false;
+
+  sample(width: number, height: number) {
+    return new Uint8ClampedArray(width * height * 4).fill(128);
+  }
+  async encodeJpeg() {
+    return { data: 'AAAA', bytes: 3 };
+  }
+  async takePhoto(): Promise<{ data: string; bytes: number } | null> {
+    return null;
+  }
+  thumbnail() {
+    return null;
+  }
+  async switchFacing() {}
+  async setTorch() {
+    return false;
+  }
+  async stepZoom() {
+    return null;
+  }
+  async switchLens() {
+    return false;
+  }
+  stop() {
+    this.stopped = true;
+  }
+}
+
+export class FakeMic implements MicSource {
+  readonly stream = null;
+  onChunk: ((pcm: Int16Array, sampleRate: number) => void) | null = null;
+
+  async start(onChunk: (pcm: Int16Array, sampleRate: number) => void) {
+    this.onChunk = onChunk;
+    return { inputSampleRate: 16000, mode: 'worklet' as const, stop: () => { this.onChunk = null; } };
+  }
+  stop() {
+    this.onChunk = null;
+  }
+}
+
+/** A helper link the test drives by changing its status and sending helper messages. */
+export class FakeCaregiverLink implements CaregiverLink {
+  readonly sent: HelperMessage[] = [];
+  accepted = false;
+  closed = false;
+
+  constructor(private readonly options: CaregiverLinkOptions) {}
+
+  accept() {
+    this.accepted = true;
+  }
+  send(message: HelperMessage) {
+    this.sent.push(message);
+  }
+  replaceVideoTrack() {}
+  close() {
+    this.closed = true;
+  }
+
+  setStatus(status: CaregiverLinkStatus) {
+    this.options.onStatus(status);
+  }
+  receive(message: HelperMessage) {
+    this.options.onMessage(message);
+  }
+}
+
+export interface FakeEnvironmentOptions {
+  transport?: LiveTransport;
+  /** Output audio for the engine; none by default. */
+  openPlayback?: () => PlaybackManager | null;
+  /** Rejects `openMedia` with this error, e.g. a `NotAllowedError`. */
+  mediaError?: Error;
+  online?: boolean;
+}
+
+export interface FakeEnvironment {
+  env: SessionEnvironment;
+  transport: LiveTransport;
+  media: { camera: FakeCamera; mic: FakeMic } | null;
+  spoken: string[];
+  caregiver: FakeCaregiverLink | null;
+  history: Map<string, SessionRecord & { items: TranscriptionItem[] }>;
+  memories: Map<string, MemoryRecord>;
+  routines: Map<string, Routine>;
+}
+
+export function createFakeEnvironment(options: FakeEnvironmentOptions = {}): FakeEnvironment {
+  const fake: FakeEnvironment = {
+    env: null as unknown as SessionEnvironment,
+    transport: options.transport ?? new FakeLiveTransport(),
+    media: null,
+    spoken: [],
+    caregiver: null,
+    history: new Map(),
+    memories: new Map(),
+    routines: new Map(),
+  };
+  let nextSession = 0;
+
+  fake.env = {
+    openMedia: async (): Promise<MediaSources> => {
+      if (options.mediaError) throw options.mediaError;
+      fake.media = { camera: new FakeCamera(), mic: new FakeMic() };
+      return fake.media;
+    },
+    openPlayback: async () => options.openPlayback?.() ?? null,
+    transport: () => fake.transport,
+    speak: (text) => { fake.spoken.push(text); },
+    createHaptics: () => ({ supported: false, play: () => {}, cancel: () => {} }),
+    startSpeechCommands: () => null,
+    isOnline: () => options.online ?? true,
+    onOnline: () => () => {},
+    openCaregiverLink: (linkOptions) => {
+      fake.caregiver = new FakeCaregiverLink(linkOptions);
+      return fake.caregiver;
+    },
+    history: {
+      createHistorySession: async () => {
+        const record: SessionRecord = { id: `session-${++nextSession}`, startedAt: 0, endedAt: null, title: null, itemCount: 0 };
+        fake.history.set(record.id, { ...record, items: [] });
+        return record;
+      },
+      appendHistoryItems: async (sessionId, items) => {
+        fake.history.get(sessionId)?.items.push(...items);
+      },
+      endHistorySession: async (sessionId) => {
+        const record = fake.history.get(sessionId);
+        if (record) record.endedAt = Date.now();
+      },
+    },
+    memories: {
+      saveMemory: async (record) => {
+        const stored = { ...record, id: memoryId(record.kind, record.label) };
+        fake.memories.set(stored.id, stored);
+        return stored;
+      },
+      listMemories: async () => [...fake.memories.values()].sort((a, b) => b.seenAt - a.seenAt),
+    },
+    routines: {
+      saveRoutine: async (name, targets) => {
+        const stored: Routine = { id: routineId(name), name: name.trim(), targets, updatedAt: Date.now() };
+        fake.routines.set(stored.id, stored);
+        return stored;
+      },
+      findRoutine: async (name) => fake.routines.get(routineId(name)) ?? null,
+    },
+  };
+  return fake;
+}
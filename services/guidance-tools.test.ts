@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { toFoundReport, toGuidanceEvent, toolAck, toPlaceReport } from './guidance-tools';
+
+describe('toGuidanceEvent', () => {
+  it('maps a full reportTarget call', () => {
+    const call = {
+      name: 'reportTarget',
+      args: { label: 'keys', clockDirection: 2, distanceSteps: 3, confidence: 0.8, placeDescription: ' on the counter ', room: 'kitchen' },
+    };
+    expect(toGuidanceEvent(call, 1000)).toEqual({
+      type: 'targetReported',
+      at: 1000,
+      target: { label: 'keys', clockDirection: 2, distanceSteps: 3, confidence: 0.8, placeDescription: 'on the counter', room: 'kitchen' },
+    });
+  });
+
+  it('wraps clock directions onto 1-12 and accepts numeric strings', () => {
+    const clock = (clockDirection: unknown) => {
+      const event = toGuidanceEvent({ name: 'reportTarget', args: { label: 'keys', clockDirection, confidence: 1 } });
+      return event?.type === 'targetReported' ? event.target.clockDirection : null;
+    };
+    expect(clock(12)).toBe(12);
+    expect(clock(0)).toBe(12);
+    expect(clock(13)).toBe(1);
+    expect(clock(-1)).toBe(11);
+    expect(clock(2.6)).toBe(3);
+    expect(clock('9')).toBe(9);
+  });
+
+  it('clamps confidence and drops unusable distances and blank text', () => {
+    const event = toGuidanceEvent({
+      name: 'reportTarget',
+      args: { label: 'keys', clockDirection: 12, distanceSteps: -2, confidence: 1.7, placeDescription: '  ', room: 5 },
+    });
+    expect(event).toMatchObject({ target: { distanceSteps: null, confidence: 1, placeDescription: null, room: null } });
+
+    const noConfidence = toGuidanceEvent({ name: 'reportTarget', args: { label: 'keys', clockDirection: 12, confidence: 'high' } });
+    expect(noConfidence).toMatchObject({ target: { confidence: 0, distanceSteps: null } });
+  });
+
+  it('rejects reportTarget without a label or a usable direction', () => {
+    expect(toGuidanceEvent({ name: 'reportTarget', args: { clockDirection: 2, confidence: 1 } })).toBeNull();
+    expect(toGuidanceEvent({ name: 'reportTarget', args: { label: 'keys', clockDirection: 'left', confidence: 1 } })).toBeNull();
+    expect(toGuidanceEvent({ name: 'reportTarget' })).toBeNull();
+  });
+
+  it('maps reportLost', () => {
+    expect(toGuidanceEvent({ name: 'reportLost', args: {} }, 5)).toEqual({ type: 'targetLost', at: 5 });
+  });
+
+  it('maps reportHazard, defaulting an unknown severity to medium', () => {
+    expect(toGuidanceEvent({ name: 'reportHazard', args: { description: 'stairs', clockDirection: 12, severity: 'high' } }, 7)).toEqual({
+      type: 'hazardReported',
+      at: 7,
+      hazard: { description: 'stairs', clockDirection: 12, severity: 'high' },
+    });
+    expect(toGuidanceEvent({ name: 'reportHazard', args: { description: 'rug', severity: 'extreme' } })).toMatchObject({
+      hazard: { description: 'rug', clockDirection: null, severity: 'medium' },
+    });
+    expect(toGuidanceEvent({ name: 'reportHazard', args: { severity: 'high' } })).toBeNull();
+  });
+
+  it('leaves other calls to their own handlers', () => {
+    expect(toGuidanceEvent({ name: 'rememberPlace', args: { name: 'door' } })).toBeNull();
+    expect(toGuidanceEvent({ name: 'unknownTool', args: {} })).toBeNull();
+  });
+});
+
+describe('toPlaceReport', () => {
+  it('trims the name and description', () => {
+    expect(toPlaceReport({ name: 'rememberPlace', args: { name: ' Front door ', description: ' Brass handle ' } }))
+      .toEqual({ name: 'Front door', description: 'Brass handle' });
+    expect(toPlaceReport({ name: 'rememberPlace', args: { name: 'Desk' } })).toEqual({ name: 'Desk', description: null });
+  });
+
+  it('rejects a missing or blank name and other calls', () => {
+    expect(toPlaceReport({ name: 'rememberPlace', args: { name: '  ' } })).toBeNull();
+    expect(toPlaceReport({ name: 'rememberPlace', args: { description: 'somewhere' } })).toBeNull();
+    expect(toPlaceReport({ name: 'reportFound', args: { name: 'Desk' } })).toBeNull();
+  });
+});
+
+describe('toFoundReport', () => {
+  it('needs a non-blank label', () => {
+    expect(toFoundReport({ name: 'reportFound', args: { label: ' wallet ' } })).toEqual({ label: 'wallet' });
+    expect(toFoundReport({ name: 'reportFound', args: { label: 42 } })).toBeNull();
+    expect(toFoundReport({ name: 'reportTarget', args: { label: 'wallet' } })).toBeNull();
+  });
+});
+
+describe('toolAck', () => {
+  it('echoes the call and reports whether it was handled', () => {
+    const call = { id: 'call-1', name: 'reportLost' };
+    expect(toolAck(call, true)).toEqual({ id: 'call-1', name: 'reportLost', response: { result: 'ok' } });
+    expect(toolAck(call, false)).toEqual({ id: 'call-1', name: 'reportLost', response: { error: 'unrecognised call' } });
+    expect(toolAck(call, false, 'no task list is active').response).toEqual({ error: 'no task list is active' });
+  });
+});
@@ -0,0 +1,134 @@
+import { FunctionCall, FunctionDeclaration, FunctionResponse, Type } from '@google/genai';
+import { HazardSeverity } from '../types';
+import { GuidanceEvent } from '../utils/guidance';
+
+export const GUIDANCE_TOOL_DECLARATIONS: FunctionDeclaration[] = [
+  {
+    name: 'reportTarget',
+    description: 'Report that the requested object is visible. Call on first sighting and whenever its direction or distance changes.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        label: { type: Type.STRING, description: 'Short name of the object, e.g. "keys".' },
+        clockDirection: { type: Type.INTEGER, description: 'Direction from the camera center on a clock face, 1-12. 12 is straight ahead.' },
+        distanceSteps: { type: Type.NUMBER, description: 'Approximate walking steps to reach it. Omit if unknown.' },
+        confidence: { type: Type.NUMBER, description: 'How sure you are this is the requested object, 0 to 1.' },
+        placeDescription: { type: Type.STRING, description: 'Where it is, relative to nearby things, e.g. "on the counter next to the kettle".' },
+        room: { type: Type.STRING, description: 'The room it is in, e.g. "kitchen". Omit if unsure.' },
+      },
+      required: ['label', 'clockDirection', 'confidence'],
+    },
+  },
+  {
+    name: 'reportLost',
+    description: 'Report that the target is no longer visible and you are scanning again.',
+    parameters: { type: Type.OBJECT, properties: {} },
+  },
+  {
+    name: 'rememberPlace',
+    description: 'Save the current location under a name when the user asks you to remember where they are.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        name: { type: Type.STRING, description: 'Name the user gave the place, e.g. "front door".' },
+        description: { type: Type.STRING, description: 'What identifies the place in view, in one sentence.' },
+      },
+      required: ['name'],
+    },
+  },
+  {
+    name: 'reportFound',
+    description: 'Report that the user has reached or picked up the current task-list target, so the app can move on to the next one.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        label: { type: Type.STRING, description: 'The task-list target that was found.' },
+      },
+      required: ['label'],
+    },
+  },
+  {
+    name: 'reportHazard',
+    description: 'Report an obstacle or danger in the user\'s path.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        description: { type: Type.STRING, description: 'What the hazard is, e.g. "chair leg".' },
+        clockDirection: { type: Type.INTEGER, description: 'Direction on a clock face, 1-12. Omit if unknown.' },
+        severity: { type: Type.STRING, enum: ['low', 'medium', 'high'] },
+      },
+      required: ['description', 'severity'],
+    },
+  },
+];
+
+const clampClock = (value: unknown): number | null => {
+  const n = Math.round(Number(value));
+  if (!Number.isFinite(n)) return null;
+  return ((((n - 1) % 12) + 12) % 12) + 1;
+};
+
+const SEVERITIES: HazardSeverity[] = ['low', 'medium', 'high'];
+
+const optionalText = (value: unknown): string | null =>
+  typeof value === 'string' && value.trim() ? value.trim() : null;
+
+/** Maps a model function call onto a guidance event; null for unknown or malformed calls. */
+export function toGuidanceEvent(call: FunctionCall, at: number = Date.now()): GuidanceEvent | null {
+  const args = call.args ?? {};
+  switch (call.name) {
+    case 'reportTarget': {
+      const clockDirection = clampClock(args.clockDirection);
+      if (typeof args.label !== 'string' || clockDirection === null) return null;
+      const distance = Number(args.distanceSteps);
+      const confidence = Number(args.confidence);
+      return {
+        type: 'targetReported',
+        at,
+        target: {
+          label: args.label,
+          clockDirection,
+          distanceSteps: Number.isFinite(distance) && distance >= 0 ? distance : null,
+          confidence: Number.isFinite(confidence) ? Math.min(1, Math.max(0, confidence)) : 0,
+          placeDescription: optionalText(args.placeDescription),
+          room: optionalText(args.room),
+        },
+      };
+    }
+    case 'reportLost':
+      return { type: 'targetLost', at };
+    case 'reportHazard': {
+      if (typeof args.description !== 'string') return null;
+      const severity = SEVERITIES.includes(args.severity as HazardSeverity) ? args.severity as HazardSeverity : 'medium';
+      return {
+        type: 'hazardReported',
+        at,
+        hazard: { description: args.description, clockDirection: clampClock(args.clockDirection), severity },
+      };
+    }
+    default:
+      return null;
+  }
+}
+
+/** The place a `rememberPlace` call asks to save; null for any other call. */
+export function toPlaceReport(call: FunctionCall): { name: string; description: string | null } | null {
+  if (call.name !== 'rememberPlace') return null;
+  const name = optionalText(call.args?.name);
+  return name ? { name, description: optionalText(call.args?.description) } : null;
+}
+
+/** The target a `reportFound` call marks as found; null for any other call. */
+export function toFoundReport(call: FunctionCall): { label: string } | null {
+  if (call.name !== 'reportFound') return null;
+  const label = optionalText(call.args?.label);
+  return label ? { label } : null;
+}
+
+export function toolAck(call: FunctionCall, handled: boolean, error: string = 'unrecognised call'): FunctionResponse {
+  return {
+    id: call.id,
+    name: call.name,
+    response: handled ? { result: 'ok' } : { error },
+  };
+}
@@ -0,0 +1,103 @@
+import { TranscriptionItem } from '../types';
+import { done, openDb, promisify } from './idb';
+
+export interface SessionRecord {
+  id: string;
+  startedAt: number;
+  endedAt: number | null;
+  /** First user utterance, used as a label in the session list. */
+  title: string | null;
+  itemCount: number;
+}
+
+interface StoredItem extends TranscriptionItem {
+  sessionId: string;
+}
+
+const DB_NAME = 'visionguide-history';
+const DB_VERSION = 1;
+const SESSIONS = 'sessions';
+const ITEMS = 'items';
+
+const openHistoryDb = () => openDb(DB_NAME, DB_VERSION, db => {
+  if (!db.objectStoreNames.contains(SESSIONS)) {
+    db.createObjectStore(SESSIONS, { keyPath: 'id' }).createIndex('startedAt', 'startedAt');
+  }
+  if (!db.objectStoreNames.contains(ITEMS)) {
+    db.createObjectStore(ITEMS, { autoIncrement: true }).createIndex('sessionId', 'sessionId');
+  }
+});
+
+export async function createHistorySession(startedAt: number = Date.now()): Promise<SessionRecord> {
+  const record: SessionRecord = {
+    id: `${startedAt.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    startedAt,
+    endedAt: null,
+    title: null,
+    itemCount: 0,
+  };
+  const db = await openHistoryDb();
+  const tx = db.transaction(SESSIONS, 'readwrite');
+  const committed = done(tx);
+  tx.objectStore(SESSIONS).put(record);
+  await committed;
+  return record;
+}
+
+export async function appendHistoryItems(sessionId: string, items: TranscriptionItem[]): Promise<void> {
+  if (items.length === 0) return;
+  const db = await openHistoryDb();
+  const tx = db.transaction([SESSIONS, ITEMS], 'readwrite');
+  const committed = done(tx);
+  const itemStore = tx.objectStore(ITEMS);
+  items.forEach(item => itemStore.add({ ...item, sessionId } as StoredItem));
+
+  const sessions = tx.objectStore(SESSIONS);
+  const record = await promisify<SessionRecord | undefined>(sessions.get(sessionId));
+  if (record) {
+    const firstUser = items.find(i => i.role === 'user');
+    sessions.put({
+      ...record,
+      itemCount: record.itemCount + items.length,
+      title: record.title ?? (firstUser ? firstUser.text.slice(0, 80) : null),
+    });
+  }
+  await committed;
+}
+
+export async function endHistorySession(sessionId: string, endedAt: number = Date.now()): Promise<void> {
+  const db = await openHistoryDb();
+  const tx = db.transaction(SESSIONS, 'readwrite');
+  const committed = done(tx);
+  const store = tx.objectStore(SESSIONS);
+  const record = await promisify<SessionRecord | undefined>(store.get(sessionId));
+  if (record) store.put({ ...record, endedAt });
+  await committed;
+}
+
+/** Newest first. */
+export async function listHistorySessions(): Promise<SessionRecord[]> {
+  const db = await openHistoryDb();
+  const all = await promisify<SessionRecord[]>(db.transaction(SESSIONS).objectStore(SESSIONS).getAll());
+  return all.sort((a, b) => b.startedAt - a.startedAt);
+}
+
+export async function getHistoryItems(sessionId: string): Promise<TranscriptionItem[]> {
+  const db = await openHistoryDb();
+  const index = db.transaction(ITEMS).objectStore(ITEMS).index('sessionId');
+  const stored = await promisify<StoredItem[]>(index.getAll(IDBKeyRange.only(sessionId)));
+  return stored
+    .map(({ sessionId: _sessionId, ...item }) => item as TranscriptionItem)
+    .sort((a, b) => a.timestamp - b.timestamp);
+}
+
+export async function deleteHistorySession(sessionId: string): Promise<void> {
+  const db = await openHistoryDb();
+  const tx = db.transaction([SESSIONS, ITEMS], 'readwrite');
+  const committed = done(tx);
+  tx.objectStore(SESSIONS).delete(sessionId);
+  const index = tx.objectStore(ITEMS).index('sessionId');
+  const keys = await promisify(index.getAllKeys(IDBKeyRange.only(sessionId)));
+  keys.forEach(key => tx.objectStore(ITEMS).delete(key));
+  await committed;
+}
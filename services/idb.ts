@@ -0,0 +1,40 @@
+/** Small promise wrappers shared by the IndexedDB-backed stores. */
+
+const connections = new Map<string, Promise<IDBDatabase>>();
+
+/**
+ * Opens a database once and reuses the connection. `upgrade` creates any
+ * missing object stores; a failed open is forgotten so the next call retries.
+ */
+export function openDb(name: string, version: number, upgrade: (db: IDBDatabase) => void): Promise<IDBDatabase> {
+  let connection = connections.get(name);
+  if (!connection) {
+    connection = new Promise((resolve, reject) => {
+      const request = indexedDB.open(name, version);
+      request.onupgradeneeded = () => upgrade(request.result);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        connections.delete(name);
+        reject(request.error);
+      };
+    });
+    connections.set(name, connection);
+  }
+  return connection;
+}
+
+export function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/** Create this right after opening the transaction, before any await, or the completion can be missed. */
+export function done(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
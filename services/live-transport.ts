@@ -0,0 +1,182 @@
+import {
+  GoogleGenAI,
+  LiveConnectConfig,
+  LiveSendClientContentParameters,
+  LiveSendRealtimeInputParameters,
+  LiveSendToolResponseParameters,
+  LiveServerMessage,
+} from '@google/genai';
+
+export const LIVE_MODEL = 'gemini-2.5-flash-native-audio-preview-09-2025';
+
+export interface LiveTransportCallbacks {
+  onopen?: () => void;
+  onmessage: (message: LiveServerMessage) => void;
+  onerror?: (e: ErrorEvent | Event) => void;
+  onclose?: (e: CloseEvent) => void;
+}
+
+export interface LiveConnectOptions {
+  model: string;
+  config: LiveConnectConfig;
+  callbacks: LiveTransportCallbacks;
+}
+
+/** The subset of the Gemini Live session the app talks to. */
+export interface LiveSession {
+  sendRealtimeInput(params: LiveSendRealtimeInputParameters): void;
+  sendClientContent(params: LiveSendClientContentParameters): void;
+  sendToolResponse(params: LiveSendToolResponseParameters): void;
+  /** Bytes handed to the socket but not yet on the wire, for uplink backpressure. */
+  bufferedAmount(): number;
+  close(): void;
+}
+
+// The SDK's connection wraps the browser socket without exposing its send
+// queue, so only the member read here is declared.
+interface SdkConnection {
+  ws?: { bufferedAmount: number };
+}
+
+export interface LiveTransport {
+  readonly name: string;
+  connect(options: LiveConnectOptions): Promise<LiveSession>;
+}
+
+export interface LiveToken {
+  token: string;
+  expiresAt: number;
+  newSessionExpiresAt: number;
+}
+
+/** The token server turned the request down; 401 means the access key is missing or wrong. */
+export class TokenRequestError extends Error {
+  constructor(readonly status: number, retryAfter: string | null) {
+    super(`Token server refused (${status})${retryAfter ? `, retry in ${retryAfter}s` : ''}`);
+    this.name = 'TokenRequestError';
+  }
+}
+
+/**
+ * Asks the token server (server/token-server.ts) for a single-use Live token.
+ * Tokens only open one session, so every connect, including reconnects after
+ * the previous token's session expired, fetches a fresh one.
+ */
+export async function fetchLiveToken(url: string, accessKey?: string | null): Promise<LiveToken> {
+  const res = await fetch(url, {
+    method: 'POST',
+    headers: accessKey ? { Authorization: `Bearer ${accessKey}` } : {},
+  });
+  if (!res.ok) throw new TokenRequestError(res.status, res.headers.get('Retry-After'));
+  return await res.json() as LiveToken;
+}
+
+const ACCESS_KEY_STORAGE_KEY = 'visionguide.accessKey';
+
+/**
+ * The user's own token-server access key. It is entered in settings and kept
+ * on this device, never built into the bundle, so each user has their own
+ * credential and rate limit.
+ */
+export function loadAccessKey(): string | null {
+  try {
+    return localStorage.getItem(ACCESS_KEY_STORAGE_KEY) || null;
+  } catch {
+    return null;
+  }
+}
+
+export function saveAccessKey(key: string) {
+  try {
+    if (key) localStorage.setItem(ACCESS_KEY_STORAGE_KEY, key);
+    else localStorage.removeItem(ACCESS_KEY_STORAGE_KEY);
+  } catch {}
+}
+
+/** `accessKey` is read on every connect, so a key changed in settings applies to the next session. */
+export function createGeminiTransport(tokenUrl: string, accessKey: () => string | null = () => null): LiveTransport {
+  return {
+    name: 'gemini',
+    connect: async ({ model, config, callbacks }) => {
+      const { token } = await fetchLiveToken(tokenUrl, accessKey());
+      // Ephemeral tokens are only accepted on the v1alpha endpoint.
+      const ai = new GoogleGenAI({ apiKey: token, httpOptions: { apiVersion: 'v1alpha' } });
+      const session = await ai.live.connect({
+        model,
+        config,
+        callbacks: {
+          onopen: callbacks.onopen,
+          onmessage: callbacks.onmessage,
+          onerror: callbacks.onerror,
+          onclose: callbacks.onclose,
+        },
+      });
+      return {
+        sendRealtimeInput: (params) => session.sendRealtimeInput(params),
+        sendClientContent: (params) => session.sendClientContent(params),
+        sendToolResponse: (params) => session.sendToolResponse(params),
+        bufferedAmount: () => (session.conn as SdkConnection).ws?.bufferedAmount ?? 0,
+        close: () => session.close(),
+      };
+    },
+  };
+}
+
+/**
+ * Talks to the scripted stand-in in server/mock-live-server.ts. Client
+ * messages use the same JSON envelope as the real Live API
+ * (`setup`, `realtimeInput`, `clientContent`, `toolResponse`), and server
+ * frames are plain `LiveServerMessage` objects.
+ */
+export function createMockTransport(url: string): LiveTransport {
+  return {
+    name: 'mock',
+    connect: ({ model, config, callbacks }) => new Promise<LiveSession>((resolve, reject) => {
+      const ws = new WebSocket(url);
+      let opened = false;
+
+      const send = (payload: object) => {
+        if (ws.readyState === WebSocket.OPEN) ws.send(JSON.stringify(payload));
+      };
+
+      const session: LiveSession = {
+        sendRealtimeInput: (params) => send({ realtimeInput: params }),
+        sendClientContent: (params) => send({ clientContent: params }),
+        sendToolResponse: (params) => send({ toolResponse: params }),
+        bufferedAmount: () => ws.bufferedAmount,
+        close: () => ws.close(),
+      };
+
+      ws.onopen = () => {
+        opened = true;
+        send({ setup: { model, config } });
+        callbacks.onopen?.();
+        resolve(session);
+      };
+      ws.onmessage = (event) => {
+        try {
+          callbacks.onmessage(JSON.parse(String(event.data)) as LiveServerMessage);
+        } catch (err) {
+          console.error("Mock transport: bad frame", err);
+        }
+      };
+      ws.onerror = (e) => {
+        if (!opened) reject(new Error(`Mock live server unreachable at ${url}`));
+        callbacks.onerror?.(e);
+      };
+      ws.onclose = (e) => callbacks.onclose?.(e);
+    }),
+  };
+}
+
+/**
+ * Picks the mock server when `LIVE_MOCK_URL` is set at build time, Gemini via
+ * the token server otherwise, authenticated with the user's saved access key.
+ * `TOKEN_URL` defaults to the dev server's proxy.
+ */
+export function resolveTransport(): LiveTransport {
+  const mockUrl = process.env.LIVE_MOCK_URL;
+  return mockUrl
+    ? createMockTransport(mockUrl)
+    : createGeminiTransport(process.env.TOKEN_URL || '/api/token', loadAccessKey);
+}
@@ -0,0 +1,45 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { FakeCamera } from './fake-environment';
+import { captureStill, fitLongEdge, StillCaptureOptions } from './media-sources';
+
+const options: StillCaptureOptions = { attempts: 2, gapMs: 0, jpegQuality: 0.9, maxLongEdge: 1024 };
+const frame = { data: 'AAAA', bytes: 3 };
+
+afterEach(() => vi.restoreAllMocks());
+
+describe('captureStill', () => {
+  it('uses the sensor photo where the camera takes one', async () => {
+    const camera = new FakeCamera();
+    const photo = { data: 'UEhPVE8=', bytes: 5 };
+    const take = vi.spyOn(camera, 'takePhoto').mockResolvedValue(photo);
+    const encode = vi.spyOn(camera, 'encodeJpeg');
+    expect(await captureStill(camera, options)).toBe(photo);
+    expect(take).toHaveBeenCalledWith(options.maxLongEdge, options.jpegQuality);
+    expect(encode).not.toHaveBeenCalled();
+  });
+
+  it('falls back to the video frame where photos are unsupported', async () => {
+    const camera = new FakeCamera();
+    const encode = vi.spyOn(camera, 'encodeJpeg');
+    expect(await captureStill(camera, options)).toEqual(frame);
+    expect(encode).toHaveBeenCalledWith(1, options.jpegQuality);
+  });
+
+  it('falls back to the video frame when the photo fails', async () => {
+    const camera = new FakeCamera();
+    vi.spyOn(camera, 'takePhoto').mockRejectedValue(new DOMException('busy', 'InvalidStateError'));
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(await captureStill(camera, options)).toEqual(frame);
+  });
+});
+
+describe('fitLongEdge', () => {
+  it('scales a sensor photo down so its long edge fits', () => {
+    expect(fitLongEdge(4032, 3024, 2048)).toEqual({ width: 2048, height: 1536 });
+    expect(fitLongEdge(3024, 4032, 2048)).toEqual({ width: 1536, height: 2048 });
+  });
+
+  it('leaves smaller photos at their size', () => {
+    expect(fitLongEdge(1280, 720, 2048)).toEqual({ width: 1280, height: 720 });
+  });
+});
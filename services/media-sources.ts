@@ -0,0 +1,354 @@
+import { LiveTransport, resolveTransport } from './live-transport';
+import { CaregiverLink, CaregiverLinkOptions, CaregiverPeer } from './caregiver-link';
+import { captureThumbnail } from './object-memory';
+import { appendHistoryItems, createHistorySession, endHistorySession, SessionRecord } from './history-store';
+import { listMemories, saveMemory } from './memory-store';
+import { findRoutine, saveRoutine } from './routine-store';
+import { MemoryRecord, Routine, TranscriptionItem } from '../types';
+import { MicCapture, startMicCapture } from '../utils/mic-capture';
+import { PlaybackConfig, PlaybackManager } from '../utils/playback-manager';
+import { speak } from '../utils/speech';
+import { createHaptics, HapticSettings, Haptics } from '../utils/haptics';
+import { SpeechCommandListener, startSpeechCommands } from '../utils/speech-commands';
+import { CameraFacing } from '../utils/user-profile';
+import { CameraControlState, CameraController } from '../utils/camera-controller';
+import { measureSharpness } from '../utils/scene-monitor';
+import { ANALYSIS_HEIGHT, ANALYSIS_WIDTH } from '../utils/hazard-detector';
+
+/** The camera as the session engine sees it: pixels in, JPEGs out. */
+export interface CameraSource {
+  /** Stream for an on-screen preview; null for sources that have none. */
+  readonly preview: MediaStream | null;
+  /** Current frame size; 0 until the first frame arrives. */
+  readonly width: number;
+  readonly height: number;
+  /** The current frame scaled to `width` x `height` as RGBA, or null before the first frame. */
+  sample(width: number, height: number): Uint8ClampedArray | null;
+  /** The current frame as base64 JPEG, `scale` times the native size. */
+  encodeJpeg(scale: number, quality: number): Promise<{ data: string; bytes: number } | null>;
+  /**
+   * A still from the sensor at photo resolution, re-encoded as JPEG with its
+   * long edge capped at `maxLongEdge`, or null where the camera can't take one.
+   */
+  takePhoto(maxLongEdge: number, quality: number): Promise<{ data: string; bytes: number } | null>;
+  /** Small data-URL image of the current frame for the memory list. */
+  thumbnail(): string | null;
+  switchFacing(facing: CameraFacing): Promise<void>;
+  /** Torch, zoom and lens availability for the current track. */
+  readonly controls: CameraControlState;
+  /** Resolves to whether the torch is on afterwards. */
+  setTorch(on: boolean): Promise<boolean>;
+  /** Resolves to the new zoom level, or null without zoom. */
+  stepZoom(direction: 1 | -1): Promise<number | null>;
+  /** Moves to the next camera the device has; resolves false when there is only one. */
+  switchLens(): Promise<boolean>;
+  stop(): void;
+}
+
+export interface MicSource {
+  /** Live mic stream for sharing with a helper; null for sources that have none. */
+  readonly stream: MediaStream | null;
+  /** Delivers 16 kHz PCM chunks until the returned capture is stopped. */
+  start(onChunk: (pcm: Int16Array, sampleRate: number) => void): Promise<MicCapture>;
+  stop(): void;
+}
+
+export interface MediaSources {
+  camera: CameraSource;
+  mic: MicSource;
+}
+
+/** Saved conversations; `services/history-store.ts` in the browser. */
+export interface HistoryStore {
+  createHistorySession(): Promise<SessionRecord>;
+  appendHistoryItems(sessionId: string, items: TranscriptionItem[]): Promise<void>;
+  endHistorySession(sessionId: string): Promise<void>;
+}
+
+/** Remembered objects and places; `services/memory-store.ts` in the browser. */
+export interface MemoryStore {
+  saveMemory(record: Omit<MemoryRecord, 'id'>): Promise<MemoryRecord>;
+  /** Most recently seen first. */
+  listMemories(): Promise<MemoryRecord[]>;
+}
+
+/** Saved task lists; `services/routine-store.ts` in the browser. */
+export interface RoutineStore {
+  saveRoutine(name: string, targets: string[]): Promise<Routine>;
+  findRoutine(name: string): Promise<Routine | null>;
+}
+
+/**
+ * Everything the session engine needs from its host. The browser build uses
+ * `createBrowserEnvironment`; tests and other hosts pass fakes.
+ */
+export interface SessionEnvironment {
+  /** Rejects with a `NotAllowedError` when the user refuses camera or mic. */
+  openMedia(facing: CameraFacing): Promise<MediaSources>;
+  /** Null where there is no audio output. */
+  openPlayback(config: PlaybackConfig): Promise<PlaybackManager | null>;
+  transport(): LiveTransport;
+  speak(text: string, options: { interrupt?: boolean; lang?: string; rate?: number }): void;
+  createHaptics(getSettings: () => HapticSettings): Haptics;
+  /** Local command recognition for offline mode; null where unsupported. */
+  startSpeechCommands(lang: string, onPhrase: (text: string) => void): SpeechCommandListener | null;
+  isOnline(): boolean;
+  /** Calls `listener` when connectivity returns; the result unsubscribes. */
+  onOnline(listener: () => void): () => void;
+  /** Shares tracks with a sighted helper and plays their voice; null without WebRTC. */
+  openCaregiverLink(options: CaregiverLinkOptions): CaregiverLink | null;
+  history: HistoryStore;
+  memories: MemoryStore;
+  routines: RoutineStore;
+}
+
+export interface StillCaptureOptions {
+  /** Stills to take; the sharpest one is kept. */
+  attempts: number;
+  gapMs: number;
+  jpegQuality: number;
+  /** Sensor photos can be 12 MP or more; they are scaled down to fit this. */
+  maxLongEdge: number;
+}
+
+export const DEFAULT_STILL_CAPTURE: StillCaptureOptions = { attempts: 3, gapMs: 150, jpegQuality: 0.92, maxLongEdge: 2048 };
+
+/** Scales `width` x `height` down, never up, so the longer side fits `maxLongEdge`. */
+export function fitLongEdge(width: number, height: number, maxLongEdge: number): { width: number; height: number } {
+  const scale = Math.min(1, maxLongEdge / Math.max(width, height));
+  return { width: Math.round(width * scale), height: Math.round(height * scale) };
+}
+
+/**
+ * Full-resolution JPEG for reading small print. A sensor photo is used where
+ * the camera can take one. Otherwise hands shake, so a few video frames are
+ * taken a moment apart and the one with the most edge detail wins.
+ */
+export async function captureStill(
+  camera: CameraSource,
+  options: StillCaptureOptions = DEFAULT_STILL_CAPTURE,
+): Promise<{ data: string; bytes: number } | null> {
+  const photo = await camera.takePhoto(options.maxLongEdge, options.jpegQuality).catch(err => {
+    console.warn('Photo capture failed, using video frames:', err);
+    return null;
+  });
+  if (photo) return photo;
+
+  let best: { data: string; bytes: number } | null = null;
+  let bestSharpness = -1;
+  for (let i = 0; i < options.attempts; i++) {
+    if (i > 0) await new Promise(resolve => setTimeout(resolve, options.gapMs));
+    const pixels = camera.sample(ANALYSIS_WIDTH, ANALYSIS_HEIGHT);
+    const sharpness = pixels ? measureSharpness(pixels, ANALYSIS_WIDTH, ANALYSIS_HEIGHT) : 0;
+    if (sharpness <= bestSharpness) continue;
+    const still = await camera.encodeJpeg(1, options.jpegQuality);
+    if (!still) continue;
+    best = still;
+    bestSharpness = sharpness;
+  }
+  return best;
+}
+
+const cameraConstraints = (facingMode: CameraFacing): MediaTrackConstraints => ({
+  facingMode,
+  width: { ideal: 1280 },
+  height: { ideal: 720 },
+});
+
+// ImageCapture is missing from the DOM typings, so only what is used here is declared.
+declare class ImageCapture {
+  constructor(track: MediaStreamTrack);
+  takePhoto(): Promise<Blob>;
+}
+
+function readJpeg(blob: Blob): Promise<{ data: string; bytes: number } | null> {
+  return new Promise(resolve => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve({ data: (reader.result as string).split(',')[1], bytes: blob.size });
+    reader.onerror = () => resolve(null);
+    reader.readAsDataURL(blob);
+  });
+}
+
+/** Reads frames from an off-screen video element playing the camera stream. */
+class BrowserCamera implements CameraSource {
+  preview: MediaStream;
+  private readonly video = document.createElement('video');
+  private readonly samplers = new Map<string, CanvasRenderingContext2D | null>();
+  private readonly encoder = document.createElement('canvas');
+  private readonly controller = new CameraController();
+
+  constructor(stream: MediaStream) {
+    this.video.muted = true;
+    this.video.playsInline = true;
+    this.preview = stream;
+    this.attach(stream);
+  }
+
+  get width() {
+    return this.video.videoWidth;
+  }
+
+  get height() {
+    return this.video.videoHeight;
+  }
+
+  sample(width: number, height: number): Uint8ClampedArray | null {
+    if (this.video.videoWidth === 0) return null;
+    const key = `${width}x${height}`;
+    if (!this.samplers.has(key)) {
+      const canvas = document.createElement('canvas');
+      canvas.width = width;
+      canvas.height = height;
+      this.samplers.set(key, canvas.getContext('2d', { willReadFrequently: true }));
+    }
+    const ctx = this.samplers.get(key);
+    if (!ctx) return null;
+    ctx.drawImage(this.video, 0, 0, width, height);
+    return ctx.getImageData(0, 0, width, height).data;
+  }
+
+  encodeJpeg(scale: number, quality: number): Promise<{ data: string; bytes: number } | null> {
+    const ctx = this.encoder.getContext('2d');
+    if (!ctx || this.video.videoWidth === 0) return Promise.resolve(null);
+    this.encoder.width = Math.round(this.video.videoWidth * scale);
+    this.encoder.height = Math.round(this.video.videoHeight * scale);
+    ctx.drawImage(this.video, 0, 0, this.encoder.width, this.encoder.height);
+    return new Promise(resolve => {
+      this.encoder.toBlob(blob => resolve(blob ? readJpeg(blob) : null), 'image/jpeg', quality);
+    });
+  }
+
+  async takePhoto(maxLongEdge: number, quality: number): Promise<{ data: string; bytes: number } | null> {
+    const track = this.preview.getVideoTracks()[0];
+    if (!track || track.readyState !== 'live' || typeof ImageCapture === 'undefined') return null;
+    const photo = await createImageBitmap(await new ImageCapture(track).takePhoto());
+    try {
+      const canvas = document.createElement('canvas');
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return null;
+      ({ width: canvas.width, height: canvas.height } = fitLongEdge(photo.width, photo.height, maxLongEdge));
+      ctx.drawImage(photo, 0, 0, canvas.width, canvas.height);
+      return await new Promise(resolve => {
+        canvas.toBlob(blob => resolve(blob ? readJpeg(blob) : null), 'image/jpeg', quality);
+      });
+    } finally {
+      photo.close();
+    }
+  }
+
+  thumbnail(): string | null {
+    return captureThumbnail(this.video, this.video.videoWidth, this.video.videoHeight);
+  }
+
+  get controls(): CameraControlState {
+    return this.controller.state;
+  }
+
+  switchFacing(facing: CameraFacing) {
+    return this.replaceVideo(cameraConstraints(facing));
+  }
+
+  setTorch(on: boolean) {
+    return this.controller.setTorch(on);
+  }
+
+  stepZoom(direction: 1 | -1) {
+    return this.controller.stepZoom(direction);
+  }
+
+  async switchLens() {
+    const deviceId = await this.controller.nextLens();
+    if (!deviceId) return false;
+    await this.replaceVideo({ deviceId: { exact: deviceId }, width: { ideal: 1280 }, height: { ideal: 720 } });
+    return true;
+  }
+
+  stop() {
+    this.preview.getVideoTracks().forEach(track => track.stop());
+    this.video.srcObject = null;
+  }
+
+  // Only the video track changes, so the mic and the live link keep running.
+  // The old track goes first: many phones can't open two cameras at once.
+  // The preview becomes a new stream so views notice the change.
+  private async replaceVideo(constraints: MediaTrackConstraints) {
+    const current = this.preview;
+    current.getVideoTracks().forEach(track => track.stop());
+    let fresh: MediaStream;
+    try {
+      fresh = await navigator.mediaDevices.getUserMedia({ video: constraints });
+    } catch (err) {
+      console.warn("Camera switch failed, reopening the default camera:", err);
+      fresh = await navigator.mediaDevices.getUserMedia({ video: true });
+    }
+    if (this.preview !== current) {
+      fresh.getTracks().forEach(track => track.stop());
+      return;
+    }
+    this.attach(new MediaStream([...current.getAudioTracks(), ...fresh.getVideoTracks()]));
+  }
+
+  private attach(stream: MediaStream) {
+    this.preview = stream;
+    this.video.srcObject = stream;
+    this.video.play().catch(() => {});
+    this.controller.attach(stream.getVideoTracks()[0] ?? null);
+  }
+}
+
+class BrowserMic implements MicSource {
+  constructor(readonly stream: MediaStream, private readonly ctx: AudioContext) {}
+
+  start(onChunk: (pcm: Int16Array, sampleRate: number) => void) {
+    return startMicCapture(this.ctx, this.stream, { onChunk });
+  }
+
+  stop() {
+    this.stream.getAudioTracks().forEach(track => track.stop());
+    this.ctx.close().catch(() => {});
+  }
+}
+
+export function createBrowserEnvironment(): SessionEnvironment {
+  return {
+    openMedia: async (facing) => {
+      let stream: MediaStream;
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({ audio: true, video: cameraConstraints(facing) });
+      } catch {
+        stream = await navigator.mediaDevices.getUserMedia({ audio: true, video: true });
+      }
+      // Runs at the hardware rate; mic-capture resamples to 16 kHz for the model.
+      const ctx = new (window.AudioContext || (window as any).webkitAudioContext)();
+      await ctx.resume();
+      return { camera: new BrowserCamera(stream), mic: new BrowserMic(stream, ctx) };
+    },
+    openPlayback: config => PlaybackManager.open(24000, config),
+    transport: resolveTransport,
+    speak,
+    createHaptics,
+    startSpeechCommands,
+    isOnline: () => navigator.onLine,
+    onOnline: (listener) => {
+      window.addEventListener('online', listener);
+      return () => window.removeEventListener('online', listener);
+    },
+    openCaregiverLink: (options) => {
+      if (typeof RTCPeerConnection === 'undefined') return null;
+      // The helper's voice plays straight from the stream, outside the guide's audio graph.
+      const audio = new Audio();
+      audio.autoplay = true;
+      return new CaregiverPeer('user', {
+        ...options,
+        onRemoteStream: (stream) => {
+          audio.srcObject = stream;
+          if (stream) audio.play().catch(() => {});
+        },
+      });
+    },
+    history: { createHistorySession, appendHistoryItems, endHistorySession },
+    memories: { saveMemory, listMemories },
+    routines: { saveRoutine, findRoutine },
+  };
+}
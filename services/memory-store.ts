@@ -0,0 +1,51 @@
+import { MemoryKind, MemoryRecord } from '../types';
+import { normalizeUtterance } from '../utils/voice-commands';
+import { done, openDb, promisify } from './idb';
+
+const DB_NAME = 'visionguide-memory';
+const DB_VERSION = 1;
+const MEMORIES = 'memories';
+
+const openMemoryDb = () => openDb(DB_NAME, DB_VERSION, db => {
+  if (!db.objectStoreNames.contains(MEMORIES)) {
+    db.createObjectStore(MEMORIES, { keyPath: 'id' }).createIndex('seenAt', 'seenAt');
+  }
+});
+
+export function memoryId(kind: MemoryKind, label: string): string {
+  return `${kind}:${normalizeUtterance(label)}`;
+}
+
+/** Inserts or replaces the memory with the same kind and label. */
+export async function saveMemory(record: Omit<MemoryRecord, 'id'>): Promise<MemoryRecord> {
+  const stored: MemoryRecord = { ...record, id: memoryId(record.kind, record.label) };
+  const db = await openMemoryDb();
+  const tx = db.transaction(MEMORIES, 'readwrite');
+  const committed = done(tx);
+  tx.objectStore(MEMORIES).put(stored);
+  await committed;
+  return stored;
+}
+
+/** Most recently seen first. */
+export async function listMemories(): Promise<MemoryRecord[]> {
+  const db = await openMemoryDb();
+  const all = await promisify<MemoryRecord[]>(db.transaction(MEMORIES).objectStore(MEMORIES).getAll());
+  return all.sort((a, b) => b.seenAt - a.seenAt);
+}
+
+export async function deleteMemory(id: string): Promise<void> {
+  const db = await openMemoryDb();
+  const tx = db.transaction(MEMORIES, 'readwrite');
+  const committed = done(tx);
+  tx.objectStore(MEMORIES).delete(id);
+  await committed;
+}
+
+export async function clearMemories(): Promise<void> {
+  const db = await openMemoryDb();
+  const tx = db.transaction(MEMORIES, 'readwrite');
+  const committed = done(tx);
+  tx.objectStore(MEMORIES).clear();
+  await committed;
+}
@@ -0,0 +1,66 @@
+import { MemoryRecord } from '../types';
+import { normalizeUtterance } from '../utils/voice-commands';
+
+export const THUMBNAIL_WIDTH = 160;
+export const THUMBNAIL_HEIGHT = 120;
+/** A target that stays in view is re-saved at most this often. */
+export const MEMORY_REFRESH_MS = 15000;
+
+// Words that don't identify an object, in the supported languages.
+const FILLER_WORDS = new Set([
+  'my', 'the', 'a', 'an', 'of', 'some', 'your',
+  'मेरा', 'मेरी', 'मेरे', 'का', 'की', 'के',
+  'माझा', 'माझी', 'माझे', 'चा', 'ची', 'चे',
+]);
+
+const stem = (word: string) => word.length > 3 && word.endsWith('s') ? word.slice(0, -1) : word;
+
+function keyWords(text: string): string[] {
+  return normalizeUtterance(text).split(' ').filter(w => w && !FILLER_WORDS.has(w)).map(stem);
+}
+
+/**
+ * Memories whose every key word appears in the utterance, so "where are my
+ * car keys" recalls "car keys" and "keys" but not "house keys".
+ */
+export function findRelevantMemories(utterance: string, memories: MemoryRecord[]): MemoryRecord[] {
+  const spoken = new Set(keyWords(utterance));
+  if (spoken.size === 0) return [];
+  return memories.filter(memory => {
+    const words = keyWords(memory.label);
+    return words.length > 0 && words.every(w => spoken.has(w));
+  });
+}
+
+function timeAgo(ms: number): string {
+  const minutes = Math.round(ms / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes} minute${minutes === 1 ? '' : 's'} ago`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 24) return `${hours} hour${hours === 1 ? '' : 's'} ago`;
+  const days = Math.round(hours / 24);
+  return `${days} day${days === 1 ? '' : 's'} ago`;
+}
+
+/** The context note sent to the model when the user asks about remembered things. */
+export function describeMemories(memories: MemoryRecord[], now: number = Date.now()): string {
+  const lines = memories.map(m => {
+    const where = [m.description, m.room && `in the ${m.room}`].filter(Boolean).join(', ');
+    const what = m.kind === 'place' ? `Saved place "${m.label}"` : `"${m.label}" was last seen`;
+    return `- ${what} ${timeAgo(now - m.seenAt)}${where ? `: ${where}` : ''}.`;
+  });
+  return `[Memory from earlier sessions. Use it to decide where to look first, but confirm visually; things move.\n${lines.join('\n')}]`;
+}
+
+/** Downscaled JPEG of the current view for the memory list. */
+export function captureThumbnail(source: CanvasImageSource, width: number, height: number): string | null {
+  if (width === 0 || height === 0) return null;
+  const canvas = document.createElement('canvas');
+  const scale = Math.min(THUMBNAIL_WIDTH / width, THUMBNAIL_HEIGHT / height);
+  canvas.width = Math.round(width * scale);
+  canvas.height = Math.round(height * scale);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', 0.6);
+}
@@ -0,0 +1,50 @@
+import { Routine } from '../types';
+import { normalizeUtterance } from '../utils/voice-commands';
+import { done, openDb, promisify } from './idb';
+
+const DB_NAME = 'visionguide-routines';
+const DB_VERSION = 1;
+const ROUTINES = 'routines';
+
+const openRoutineDb = () => openDb(DB_NAME, DB_VERSION, db => {
+  if (!db.objectStoreNames.contains(ROUTINES)) {
+    db.createObjectStore(ROUTINES, { keyPath: 'id' });
+  }
+});
+
+export function routineId(name: string): string {
+  return normalizeUtterance(name);
+}
+
+/** Inserts or replaces the routine with the same name. */
+export async function saveRoutine(name: string, targets: string[]): Promise<Routine> {
+  const stored: Routine = { id: routineId(name), name: name.trim(), targets, updatedAt: Date.now() };
+  const db = await openRoutineDb();
+  const tx = db.transaction(ROUTINES, 'readwrite');
+  const committed = done(tx);
+  tx.objectStore(ROUTINES).put(stored);
+  await committed;
+  return stored;
+}
+
+/** Alphabetical by name. */
+export async function listRoutines(): Promise<Routine[]> {
+  const db = await openRoutineDb();
+  const all = await promisify<Routine[]>(db.transaction(ROUTINES).objectStore(ROUTINES).getAll());
+  return all.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/** Looks a routine up by its spoken name; null when there is none. */
+export async function findRoutine(name: string): Promise<Routine | null> {
+  const db = await openRoutineDb();
+  const routine = await promisify<Routine | undefined>(db.transaction(ROUTINES).objectStore(ROUTINES).get(routineId(name)));
+  return routine ?? null;
+}
+
+export async function deleteRoutine(id: string): Promise<void> {
+  const db = await openRoutineDb();
+  const tx = db.transaction(ROUTINES, 'readwrite');
+  const committed = done(tx);
+  tx.objectStore(ROUTINES).delete(id);
+  await committed;
+}
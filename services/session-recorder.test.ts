@@ -0,0 +1,102 @@
+// @vitest-environment jsdom
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { guidanceReducer, INITIAL_GUIDANCE_STATE } from '../utils/guidance';
+import { createOfflineContext } from '../utils/offline-audio';
+import { DEFAULT_PLAYBACK_CONFIG, PlaybackManager } from '../utils/playback-manager';
+import { DEFAULT_USER_PROFILE } from '../utils/user-profile';
+import { createFakeEnvironment } from './fake-environment';
+import { compareReplay, parseRecordingBundle, RecordingBundle, replayStartState, SessionRecorder } from './session-recorder';
+import { VisionGuideSession } from './vision-guide-session';
+
+const here = path.dirname(fileURLToPath(import.meta.url));
+
+// Recorded mid-guidance, two seconds after a sighting: the "can't see" hint
+// falls inside the structured grace period and must not reset the scan.
+const fixture = parseRecordingBundle(readFileSync(path.join(here, 'fixtures', 'guiding-recording.json'), 'utf8'));
+
+describe('compareReplay', () => {
+  it('matches when the replay produces the recorded timeline', () => {
+    expect(compareReplay(fixture, ['GUIDING', 'SCANNING', 'LOCKING', 'GUIDING'])).toEqual({
+      recorded: ['GUIDING', 'SCANNING', 'LOCKING', 'GUIDING'],
+      replayed: ['GUIDING', 'SCANNING', 'LOCKING', 'GUIDING'],
+      matches: true,
+    });
+  });
+
+  it('reports a mismatch when the replay diverges', () => {
+    expect(compareReplay(fixture, ['GUIDING', 'SCANNING', 'GUIDING'])).toMatchObject({
+      recorded: ['GUIDING', 'SCANNING', 'LOCKING', 'GUIDING'],
+      matches: false,
+    });
+  });
+});
+
+describe('replaying through the session engine', () => {
+  afterEach(() => vi.useRealTimers());
+
+  const replay = async (bundle: RecordingBundle) => {
+    vi.useFakeTimers();
+    const fake = createFakeEnvironment({
+      openPlayback: () => new PlaybackManager(createOfflineContext(1, 1, 24000), DEFAULT_PLAYBACK_CONFIG),
+    });
+    const session = new VisionGuideSession(DEFAULT_USER_PROFILE, fake.env);
+    await session.replay(JSON.stringify(bundle));
+    const last = Math.max(...bundle.events.map(e => e.t));
+    await vi.advanceTimersByTimeAsync(last + 1000);
+    return session.getState();
+  };
+
+  it('reproduces the recorded perception timeline of the fixture', async () => {
+    const state = await replay(fixture);
+    expect(state.isReplaying).toBe(false);
+    expect(state.replayResult).toEqual({
+      recorded: ['GUIDING', 'SCANNING', 'LOCKING', 'GUIDING'],
+      replayed: ['GUIDING', 'SCANNING', 'LOCKING', 'GUIDING'],
+      matches: true,
+    });
+  });
+
+  it('reports what the engine did when it diverges from the recording', async () => {
+    // The first sighting no longer validates, so the engine never locks on.
+    const edited = structuredClone(fixture);
+    const sighting = edited.events.find(e => e.kind === 'server' && e.t === 10000);
+    if (sighting?.kind === 'server') sighting.message.toolCall!.functionCalls![0].args!.clockDirection = 'left';
+    const state = await replay(edited);
+    expect(state.replayResult).toEqual({
+      recorded: ['GUIDING', 'SCANNING', 'LOCKING', 'GUIDING'],
+      replayed: ['GUIDING', 'SCANNING', 'GUIDING'],
+      matches: false,
+    });
+  });
+});
+
+describe('replayStartState', () => {
+  it('starts from the recorded guidance, moved onto the replay clock', () => {
+    const state = replayStartState(fixture, 5000);
+    expect(state.perception).toBe('GUIDING');
+    expect(state.target?.label).toBe('keys');
+    expect(state.lastStructuredAt).toBe(3000);
+  });
+
+  it('falls back to the first recorded perception for older bundles', () => {
+    const { initialGuidance, ...older } = fixture;
+    expect(initialGuidance).toBeDefined();
+    expect(replayStartState(older)).toMatchObject({ perception: 'GUIDING', target: null, lastStructuredAt: 0 });
+  });
+});
+
+describe('SessionRecorder', () => {
+  it('keeps the guidance state it started from in the bundle', () => {
+    const guidance = guidanceReducer(INITIAL_GUIDANCE_STATE, { type: 'sessionStarted' });
+    const recorder = new SessionRecorder();
+    recorder.start('model', guidance, 1000);
+    recorder.recordPerception('SCANNING');
+    const bundle = recorder.stop();
+    expect(bundle).toMatchObject({ startedAt: 1000, model: 'model', initialGuidance: guidance });
+    expect(bundle!.events.map(e => e.kind)).toEqual(['perception']);
+    expect(recorder.stop()).toBeNull();
+  });
+});
@@ -0,0 +1,179 @@
+import { LiveServerMessage } from '@google/genai';
+import { PerceptionState } from '../types';
+import { guidanceReducer, GuidanceState, INITIAL_GUIDANCE_STATE } from '../utils/guidance';
+import { LiveSession, LiveTransport } from './live-transport';
+
+export type RecordedEvent =
+  | { t: number; kind: 'frame'; data: string; mimeType: string }
+  | { t: number; kind: 'audio'; data: string; mimeType: string }
+  | { t: number; kind: 'server'; message: LiveServerMessage }
+  | { t: number; kind: 'perception'; state: PerceptionState };
+
+export interface RecordingBundle {
+  version: 1;
+  startedAt: number;
+  model: string;
+  /** Guidance state when recording began; missing from older bundles. */
+  initialGuidance?: GuidanceState;
+  events: RecordedEvent[];
+}
+
+/** How a replay's perception timeline compares with the recorded one. */
+export interface ReplayResult {
+  recorded: PerceptionState[];
+  replayed: PerceptionState[];
+  matches: boolean;
+}
+
+/**
+ * Opt-in capture of everything that flows through a live session, with
+ * millisecond offsets from `start()`. The bundle is plain JSON so it can be
+ * attached to a bug report and replayed with `createReplayTransport`.
+ */
+export class SessionRecorder {
+  private startedAt = 0;
+  private model = '';
+  private initialGuidance: GuidanceState = INITIAL_GUIDANCE_STATE;
+  private events: RecordedEvent[] = [];
+  private active = false;
+
+  get isRecording(): boolean {
+    return this.active;
+  }
+
+  get eventCount(): number {
+    return this.events.length;
+  }
+
+  start(model: string, guidance: GuidanceState = INITIAL_GUIDANCE_STATE, now: number = Date.now()) {
+    this.startedAt = now;
+    this.model = model;
+    this.initialGuidance = guidance;
+    this.events = [];
+    this.active = true;
+  }
+
+  recordFrame(data: string, mimeType: string = 'image/jpeg') {
+    if (this.active) this.events.push({ t: this.offset(), kind: 'frame', data, mimeType });
+  }
+
+  recordAudio(data: string, mimeType: string) {
+    if (this.active) this.events.push({ t: this.offset(), kind: 'audio', data, mimeType });
+  }
+
+  recordServerMessage(message: LiveServerMessage) {
+    // Round-trip through JSON so SDK class instances become plain data.
+    if (this.active) this.events.push({ t: this.offset(), kind: 'server', message: JSON.parse(JSON.stringify(message)) });
+  }
+
+  recordPerception(state: PerceptionState) {
+    if (this.active) this.events.push({ t: this.offset(), kind: 'perception', state });
+  }
+
+  stop(): RecordingBundle | null {
+    if (!this.active) return null;
+    this.active = false;
+    const bundle: RecordingBundle = {
+      version: 1,
+      startedAt: this.startedAt,
+      model: this.model,
+      initialGuidance: this.initialGuidance,
+      events: this.events,
+    };
+    this.events = [];
+    return bundle;
+  }
+
+  private offset(): number {
+    return Date.now() - this.startedAt;
+  }
+}
+
+export function parseRecordingBundle(json: string): RecordingBundle {
+  const bundle = JSON.parse(json) as RecordingBundle;
+  if (bundle?.version !== 1 || !Array.isArray(bundle.events)) {
+    throw new Error("Not a Vision Guide recording bundle");
+  }
+  return bundle;
+}
+
+export interface ReplayOptions {
+  /** 2 plays twice as fast; Infinity delivers everything on the next tick. */
+  speed?: number;
+  onFrame?: (data: string, mimeType: string) => void;
+}
+
+/**
+ * A transport that plays a bundle's server messages and frames back on their
+ * original schedule. Anything the app sends is dropped. Closes after the last event.
+ */
+export function createReplayTransport(bundle: RecordingBundle, options: ReplayOptions = {}): LiveTransport {
+  const speed = options.speed ?? 1;
+  return {
+    name: 'replay',
+    connect: async ({ callbacks }) => {
+      const timers: ReturnType<typeof setTimeout>[] = [];
+      let closed = false;
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        timers.forEach(clearTimeout);
+        callbacks.onclose?.(new CloseEvent('close', { code: 1000, reason: 'replay finished' }));
+      };
+
+      const session: LiveSession = {
+        sendRealtimeInput: () => {},
+        sendClientContent: () => {},
+        sendToolResponse: () => {},
+        bufferedAmount: () => 0,
+        close,
+      };
+
+      setTimeout(() => {
+        callbacks.onopen?.();
+        let last = 0;
+        for (const event of bundle.events) {
+          const delay = Number.isFinite(speed) ? event.t / speed : 0;
+          last = Math.max(last, delay);
+          if (event.kind === 'server') {
+            timers.push(setTimeout(() => !closed && callbacks.onmessage(event.message), delay));
+          } else if (event.kind === 'frame' && options.onFrame) {
+            const { data, mimeType } = event;
+            timers.push(setTimeout(() => !closed && options.onFrame?.(data, mimeType), delay));
+          }
+        }
+        timers.push(setTimeout(close, last + 500));
+      }, 0);
+
+      return session;
+    },
+  };
+}
+
+/**
+ * The guidance state a replay starts from, with its structured-event time
+ * moved onto a clock that starts at `startedAt`. Older bundles only carry
+ * their first recorded perception.
+ */
+export function replayStartState(bundle: RecordingBundle, startedAt: number = bundle.startedAt): GuidanceState {
+  const started = guidanceReducer(INITIAL_GUIDANCE_STATE, { type: 'sessionStarted' });
+  const initial = bundle.initialGuidance;
+  if (!initial) {
+    const first = bundle.events.find(e => e.kind === 'perception');
+    return first?.kind === 'perception' && first.state !== 'IDLE' ? { ...started, perception: first.state } : started;
+  }
+  if (initial.perception === 'IDLE') return started;
+  return {
+    ...initial,
+    lastStructuredAt: initial.lastStructuredAt && initial.lastStructuredAt - bundle.startedAt + startedAt,
+  };
+}
+
+/**
+ * Compares the perception timeline a replay produced with the recorded one,
+ * so a bundle doubles as a regression fixture for the whole message path.
+ */
+export function compareReplay(bundle: RecordingBundle, replayed: PerceptionState[]): ReplayResult {
+  const recorded = bundle.events.flatMap(e => e.kind === 'perception' && e.state !== 'IDLE' ? [e.state] : []);
+  return { recorded, replayed, matches: recorded.join() === replayed.join() };
+}
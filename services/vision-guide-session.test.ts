@@ -0,0 +1,182 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { LANGUAGES } from '../i18n/languages';
+import { ConnectionStatus } from '../types';
+import { createOfflineContext } from '../utils/offline-audio';
+import { DEFAULT_PLAYBACK_CONFIG, PlaybackManager } from '../utils/playback-manager';
+import { DEFAULT_USER_PROFILE } from '../utils/user-profile';
+import { createFakeEnvironment, FakeEnvironmentOptions, FakeLiveTransport } from './fake-environment';
+import { TokenRequestError } from './live-transport';
+import { VisionGuideSession } from './vision-guide-session';
+
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+let running: VisionGuideSession | null = null;
+
+afterEach(() => {
+  running?.stop();
+  running = null;
+});
+
+async function startSession(options: FakeEnvironmentOptions = {}) {
+  const transport = new FakeLiveTransport();
+  const fake = createFakeEnvironment({ transport, ...options });
+  const session = new VisionGuideSession(DEFAULT_USER_PROFILE, fake.env);
+  running = session;
+  await session.start();
+  await settle();
+  return { session, fake, transport };
+}
+
+// Output audio the engine can schedule into; it is never rendered.
+const offlinePlayback = () => new PlaybackManager(createOfflineContext(1, 1, 24000), DEFAULT_PLAYBACK_CONFIG);
+
+const toolCall = (name: string, args: Record<string, unknown>) => ({
+  toolCall: { functionCalls: [{ id: `${name}-1`, name, args }] },
+});
+
+describe('VisionGuideSession', () => {
+  it('connects through the injected transport and keeps history in the injected store', async () => {
+    const { session, fake, transport } = await startSession();
+    expect(session.getState().status).toBe(ConnectionStatus.CONNECTED);
+    expect(transport.connects).toHaveLength(1);
+    expect([...fake.history.keys()]).toEqual(['session-1']);
+
+    transport.receive({ serverContent: { inputTranscription: { text: 'find my keys' } } });
+    transport.receive({ serverContent: { outputTranscription: { text: 'Turn slightly left.' } } });
+    transport.receive({ serverContent: { turnComplete: true } });
+    await settle();
+
+    expect(session.getState().history.map(item => [item.role, item.text])).toEqual([
+      ['user', 'find my keys'],
+      ['model', 'Turn slightly left.'],
+    ]);
+    expect(fake.history.get('session-1')!.items).toHaveLength(2);
+
+    session.stop();
+    await settle();
+    expect(fake.history.get('session-1')!.endedAt).not.toBeNull();
+    expect(fake.media!.camera.stopped).toBe(true);
+    expect(session.getState().status).toBe(ConnectionStatus.DISCONNECTED);
+  });
+
+  it('reports a refused camera as a permission error', async () => {
+    const denied = Object.assign(new Error('denied'), { name: 'NotAllowedError' });
+    const { session } = await startSession({ mediaError: denied });
+    expect(session.getState().status).toBe(ConnectionStatus.ERROR);
+    expect(session.getState().error).toEqual({ code: 'permissionDenied' });
+  });
+
+  it('stops with an access error when the token server rejects the key', async () => {
+    const transport = new FakeLiveTransport();
+    transport.failWith = new TokenRequestError(401, null);
+    const { session } = await startSession({ transport });
+    expect(session.getState().status).toBe(ConnectionStatus.ERROR);
+    expect(session.getState().error).toEqual({ code: 'accessDenied' });
+  });
+
+  it('falls back to offline mode when the live link cannot be reached', async () => {
+    const transport = new FakeLiveTransport();
+    transport.failWith = new Error('unreachable');
+    const { session } = await startSession({ transport, openPlayback: offlinePlayback });
+    expect(session.getState().status).toBe(ConnectionStatus.OFFLINE);
+  });
+
+  it('saves sightings and named places through the memory store', async () => {
+    const { fake, transport } = await startSession();
+    transport.receive(toolCall('reportTarget', { label: 'keys', clockDirection: 2, confidence: 0.9, room: 'kitchen' }));
+    transport.receive(toolCall('rememberPlace', { name: 'Front door', description: 'Wooden door with a brass handle' }));
+    await settle();
+
+    expect(fake.memories.get('object:keys')).toMatchObject({ label: 'keys', room: 'kitchen', clockDirection: 2 });
+    expect(fake.memories.get('place:front door')).toMatchObject({ description: 'Wooden door with a brass handle' });
+    expect(transport.session!.sent.toolResponses).toHaveLength(2);
+  });
+
+  it('saves a task list as a routine and starts it again by name', async () => {
+    const { session, fake } = await startSession();
+    session.startTasks(['keys', 'wallet']);
+    session.saveTasksAsRoutine('Leaving home');
+    await settle();
+    expect(fake.routines.get('leaving home')).toMatchObject({ name: 'Leaving home', targets: ['keys', 'wallet'] });
+
+    session.endTasks();
+    session.startRoutine('leaving home');
+    await settle();
+    expect(session.getState().tasks).toMatchObject({ name: 'Leaving home', activeIndex: 0 });
+    expect(session.getState().tasks!.items.map(item => item.label)).toEqual(['keys', 'wallet']);
+  });
+
+  it('ticks off a task only when the model reports the active target', async () => {
+    const { session, transport } = await startSession();
+    session.startTasks(['keys', 'wallet']);
+    transport.receive(toolCall('reportFound', { label: 'wallet' }));
+    await settle();
+    expect(session.getState().tasks!.activeIndex).toBe(0);
+    expect(transport.session!.sent.toolResponses.at(-1)).toMatchObject({
+      functionResponses: [{ name: 'reportFound', response: { error: 'not the current target; still looking for keys' } }],
+    });
+
+    transport.receive(toolCall('reportFound', { label: 'My keys!' }));
+    await settle();
+    expect(session.getState().tasks!.items.map(item => item.status)).toEqual(['found', 'pending']);
+    expect(transport.session!.sent.toolResponses.at(-1)).toMatchObject({
+      functionResponses: [{ name: 'reportFound', response: { result: 'ok' } }],
+    });
+  });
+
+  it('shares nothing with a helper until the user accepts', async () => {
+    const { session, fake } = await startSession();
+    session.shareWithHelper('room1234');
+    const link = fake.caregiver!;
+    session.acceptHelper();
+    expect(link.accepted).toBe(false);
+
+    link.setStatus('requested');
+    expect(session.getState().caregiver).toMatchObject({ status: 'requested', room: 'room1234' });
+    expect(fake.spoken.at(-1)).toBe(LANGUAGES.en.ui.caregiver.requestCue);
+    expect(link.accepted).toBe(false);
+
+    session.acceptHelper();
+    expect(link.accepted).toBe(true);
+  });
+
+  it('mutes the model and ignores its tool calls while the helper has taken over', async () => {
+    let playback: PlaybackManager | null = null;
+    const { session, fake, transport } = await startSession({ openPlayback: () => (playback = offlinePlayback()) });
+    session.shareWithHelper('room1234');
+    const link = fake.caregiver!;
+    link.setStatus('requested');
+    session.acceptHelper();
+    link.setStatus('connected');
+    link.receive({ type: 'takeover', active: true });
+    expect(session.getState().caregiver.takeover).toBe(true);
+    expect(playback!.isMuted).toBe(true);
+
+    transport.receive(toolCall('reportTarget', { label: 'keys', clockDirection: 2, confidence: 0.9 }));
+    await settle();
+    expect(session.getState().guidance.target).toBeNull();
+    expect(fake.memories.size).toBe(0);
+    expect(transport.session!.sent.toolResponses.at(-1)).toMatchObject({
+      functionResponses: [{ name: 'reportTarget', response: { error: 'a human helper is guiding; call ignored' } }],
+    });
+
+    link.receive({ type: 'takeover', active: false });
+    expect(playback!.isMuted).toBe(false);
+    transport.receive(toolCall('reportTarget', { label: 'keys', clockDirection: 2, confidence: 0.9 }));
+    await settle();
+    expect(session.getState().guidance.target).toMatchObject({ label: 'keys' });
+  });
+
+  it('shows an error instead of failing silently when a reply cannot be played', async () => {
+    const { session, transport } = await startSession({ openPlayback: offlinePlayback });
+    // One byte is not a whole 16-bit sample, so decoding throws.
+    transport.receive({ serverContent: { modelTurn: { parts: [{ inlineData: { data: 'AA==', mimeType: 'audio/pcm' } }] } } });
+    await settle();
+    expect(session.getState().error).toEqual({ code: 'replyFailed' });
+
+    transport.receive({ serverContent: { outputTranscription: { text: 'Keys ahead.' } } });
+    transport.receive({ serverContent: { turnComplete: true } });
+    await settle();
+    expect(session.getState().error).toBeNull();
+  });
+});
@@ -0,0 +1,1416 @@
+import { LiveServerMessage, Modality } from '@google/genai';
+import { ConnectionStatus, MemoryRecord, PerceptionState, TargetReport, TranscriptionItem } from '../types';
+import { LIVE_MODEL, LiveSession, LiveTransport, TokenRequestError } from './live-transport';
+import { GUIDANCE_TOOL_DECLARATIONS, toFoundReport, toGuidanceEvent, toolAck, toPlaceReport } from './guidance-tools';
+import { memoryId } from './memory-store';
+import { describeMemories, findRelevantMemories, MEMORY_REFRESH_MS } from './object-memory';
+import {
+  compareReplay,
+  createReplayTransport,
+  parseRecordingBundle,
+  RecordingBundle,
+  ReplayResult,
+  replayStartState,
+  SessionRecorder
+} from './session-recorder';
+import { captureStill, createBrowserEnvironment, MediaSources, SessionEnvironment } from './media-sources';
+import { CaregiverLink, CaregiverLinkStatus, createRoomCode, HelperMessage } from './caregiver-link';
+import { LanguageProfile, LANGUAGES, UiStrings } from '../i18n/languages';
+import { buildPreferenceUpdate, buildReadingRequest, buildSystemInstruction, buildTaskUpdate } from '../i18n/system-instruction';
+import {
+  changedFields,
+  DEFAULT_USER_PROFILE,
+  FRAME_BUDGET_SCALE,
+  MODEL_PLAYBACK_RATES,
+  PROMPT_FIELDS,
+  SPEECH_RATE_VALUES,
+  UserProfile
+} from '../utils/user-profile';
+import { GuidanceEvent, GuidanceState, guidanceReducer, inferPerceptionFromTranscript, INITIAL_GUIDANCE_STATE } from '../utils/guidance';
+import { ReconnectController } from '../utils/reconnect';
+import { activeTask, matchesTask, TaskListEvent, TaskListState, taskListReducer, taskProgress } from '../utils/task-list';
+import { createBlobFromPCM16, decode, decodeAudioData, DEFAULT_VAD_CONFIG, VoiceActivityGate } from '../utils/audio-utils';
+import { MicCapture } from '../utils/mic-capture';
+import {
+  AdaptiveFrameScheduler,
+  DEFAULT_FRAME_SCHEDULER_CONFIG,
+  frameDifference,
+  FrameUplinkStats,
+  PROBE_HEIGHT,
+  PROBE_WIDTH
+} from '../utils/frame-scheduler';
+import { DEFAULT_SPATIAL_AUDIO_CONFIG, SpatialBeacon } from '../utils/spatial-audio';
+import { Haptics, hapticEventForTransition } from '../utils/haptics';
+import { matchVoiceCommand, VoiceCommand, VoiceCommandRecognizer } from '../utils/voice-commands';
+import { CAMERA_QUALITY_CUES, SceneCue, SceneMonitor } from '../utils/scene-monitor';
+import { CameraControlState, NO_CAMERA_CONTROLS } from '../utils/camera-controller';
+import { SessionMetrics, SessionMetricsExport, SessionMetricsSnapshot } from '../utils/session-metrics';
+import { DEFAULT_PLAYBACK_CONFIG, PlaybackChannel, PlaybackManager } from '../utils/playback-manager';
+import { Earcon, playEarcon } from '../utils/earcons';
+import {
+  ANALYSIS_HEIGHT,
+  ANALYSIS_WIDTH,
+  HAZARD_SENSITIVITY_PRESETS,
+  LocalHazardDetector,
+  LocalHazardLevel
+} from '../utils/hazard-detector';
+
+const FRAME_SCHEDULER_CONFIG = DEFAULT_FRAME_SCHEDULER_CONFIG;
+const SPATIAL_AUDIO_CONFIG = DEFAULT_SPATIAL_AUDIO_CONFIG;
+const PLAYBACK_CONFIG = DEFAULT_PLAYBACK_CONFIG;
+const HAZARD_CHECK_MS = 200;
+const VAD_CONFIG = DEFAULT_VAD_CONFIG;
+// How often offline mode retries the live link when no 'online' event arrives.
+const OFFLINE_PROBE_MS = 20000;
+// Hazard reports are momentary; the badge clears if the model doesn't repeat it.
+const HAZARD_BADGE_MS = 6000;
+const TELEMETRY_MS = 1000;
+// Gives up on a read whose reply never completes.
+const READING_TIMEOUT_MS = 20000;
+// Longest text a helper can have spoken in one go.
+const MAX_HELPER_TEXT = 500;
+
+export const MAX_VISIBLE_HISTORY = 50;
+
+const frameSchedulerConfig = (profile: UserProfile) => ({
+  ...FRAME_SCHEDULER_CONFIG,
+  budgetScale: FRAME_SCHEDULER_CONFIG.budgetScale * FRAME_BUDGET_SCALE[profile.frameBudget],
+});
+
+const hazardDetectorConfig = (profile: UserProfile) => HAZARD_SENSITIVITY_PRESETS[profile.hazardSensitivity];
+
+const playbackConfig = (profile: UserProfile) => ({
+  ...PLAYBACK_CONFIG,
+  playbackRate: MODEL_PLAYBACK_RATES[profile.speechRate],
+});
+
+/** An error the view should show, keyed into `UiStrings['errors']`. */
+export type SessionError =
+  | { code: 'permissionDenied' | 'linkFailed' | 'connectionLost' | 'replayFailed' | 'offline' | 'accessDenied' | 'replyFailed' }
+  | { code: 'reconnecting'; attempt: number; maxRetries: number };
+
+export function describeSessionError(ui: UiStrings, error: SessionError): string {
+  return error.code === 'reconnecting'
+    ? ui.errors.reconnecting(error.attempt, error.maxRetries)
+    : ui.errors[error.code];
+}
+
+export interface CaregiverState {
+  status: CaregiverLinkStatus | 'off';
+  room: string | null;
+  /** The helper is guiding; nothing goes to the model meanwhile. */
+  takeover: boolean;
+}
+
+const NO_CAREGIVER: CaregiverState = { status: 'off', room: null, takeover: false };
+
+export interface VisionGuideState {
+  status: ConnectionStatus;
+  guidance: GuidanceState;
+  /** Targets to find in order; kept across connections so it can be set up before connecting. */
+  tasks: TaskListState | null;
+  history: TranscriptionItem[];
+  /** The user's and the guide's partial transcripts for the turn in progress. */
+  currentInput: string;
+  currentOutput: string;
+  error: SessionError | null;
+  isUserSpeaking: boolean;
+  isCameraActive: boolean;
+  /** Camera stream for an on-screen preview, when the media source has one. */
+  preview: MediaStream | null;
+  camera: CameraControlState;
+  caregiver: CaregiverState;
+  localHazard: LocalHazardLevel;
+  uplinkStats: FrameUplinkStats | null;
+  /** Kept after the session ends so it can still be exported. */
+  metrics: SessionMetricsSnapshot | null;
+  isMuted: boolean;
+  isVideoPaused: boolean;
+  isRecording: boolean;
+  isReplaying: boolean;
+  /** Data URL of the last replayed camera frame. */
+  replayFrame: string | null;
+  /** How the last replay's perception timeline compared with its recording. */
+  replayResult: ReplayResult | null;
+  /** Bumped when saved memories or session history change, so lists can reload. */
+  memoryRevision: number;
+  historyRevision: number;
+  routineRevision: number;
+}
+
+export interface VisionGuideEvents {
+  /** Any state change; the payload is the new immutable snapshot. */
+  change: VisionGuideState;
+  status: ConnectionStatus;
+  perception: PerceptionState;
+  transcript: { role: TranscriptionItem['role']; delta: string; text: string };
+  turnComplete: { items: TranscriptionItem[] };
+  error: SessionError | null;
+  /** A recording finished; the host decides where to save it. */
+  recording: RecordingBundle;
+}
+
+type Listener<T> = (payload: T) => void;
+
+const INITIAL_STATE: VisionGuideState = {
+  status: ConnectionStatus.DISCONNECTED,
+  guidance: INITIAL_GUIDANCE_STATE,
+  tasks: null,
+  history: [],
+  currentInput: '',
+  currentOutput: '',
+  error: null,
+  isUserSpeaking: false,
+  isCameraActive: false,
+  preview: null,
+  camera: NO_CAMERA_CONTROLS,
+  caregiver: NO_CAREGIVER,
+  localHazard: 'OFF',
+  uplinkStats: null,
+  metrics: null,
+  isMuted: false,
+  isVideoPaused: false,
+  isRecording: false,
+  isReplaying: false,
+  replayFrame: null,
+  replayResult: null,
+  memoryRevision: 0,
+  historyRevision: 0,
+  routineRevision: 0,
+};
+
+/**
+ * The guide without a UI: camera and mic uplinks, the live link with
+ * reconnect and offline fallback, model audio, perception, local hazard
+ * watch, voice commands, memory and history. Views read `getState()` and
+ * subscribe to typed events; everything platform-specific comes in through
+ * the `SessionEnvironment`, so the engine runs under Node with fakes.
+ */
+export class VisionGuideSession {
+  private state: VisionGuideState = INITIAL_STATE;
+  private readonly listeners: { [K in keyof VisionGuideEvents]?: Set<Listener<VisionGuideEvents[K]>> } = {};
+
+  private profile: UserProfile;
+  private language: LanguageProfile;
+  private readonly haptics: Haptics;
+
+  private media: MediaSources | null = null;
+  private playback: PlaybackManager | null = null;
+  private beacon: SpatialBeacon | null = null;
+  private session: LiveSession | null = null;
+  private micCapture: MicCapture | null = null;
+  private frameTimer: ReturnType<typeof setTimeout> | null = null;
+  private hazardTimer: ReturnType<typeof setInterval> | null = null;
+  private hazardBadgeTimer: ReturnType<typeof setTimeout> | null = null;
+  private telemetryTimer: ReturnType<typeof setInterval> | null = null;
+
+  private readonly vad = new VoiceActivityGate(VAD_CONFIG);
+  private readonly scheduler: AdaptiveFrameScheduler;
+  private metrics = new SessionMetrics();
+  private readonly hazardDetector: LocalHazardDetector;
+  private readonly sceneMonitor = new SceneMonitor();
+  private readonly recorder = new SessionRecorder();
+  private replayBundle: RecordingBundle | null = null;
+  /** Perception changes the engine produced while replaying. */
+  private replayedPerception: PerceptionState[] = [];
+  private readonly commands: VoiceCommandRecognizer;
+
+  // Reconnect bookkeeping. `linkId` is bumped on every teardown so callbacks
+  // from a dead socket can't touch the new one.
+  private readonly reconnect = new ReconnectController();
+  private linkId = 0;
+  private userStopped = false;
+  private resumeHandle: string | null = null;
+
+  private activeInput = '';
+  private activeOutput = '';
+  private inputStartedAt: number | null = null;
+  private outputStartedAt: number | null = null;
+  private target: string | null = null;
+  private historySessionId: string | null = null;
+  // The command handled locally in the current turn, if any.
+  private turnCommand: VoiceCommand | null = null;
+  // Channel for the current model turn's audio; set to 'safety' by a hazard report.
+  private turnChannel: PlaybackChannel | null = null;
+  // Read-text bookkeeping: the reply turn in flight, a request waiting for the
+  // current turn to end, and the give-up timer.
+  private readingTurn = false;
+  private queuedRead: (() => void) | null = null;
+  private readingTimer: ReturnType<typeof setTimeout> | null = null;
+
+  private memories: MemoryRecord[] = [];
+  private readonly recalledMemories = new Set<string>();
+  private readonly memorySavedAt = new Map<string, number>();
+
+  // Offline fallback: local cues and commands until the live link comes back.
+  private offline = false;
+  private offlineTeardown: (() => void) | null = null;
+  private promoting = false;
+  private lastCue: string | null = null;
+  // Set when the user turns the torch off, so a dark view doesn't turn it back on.
+  private torchDeclined = false;
+
+  // Sighted-helper link; `caregiverId` guards callbacks from a closed one.
+  private caregiverLink: CaregiverLink | null = null;
+  private caregiverId = 0;
+  private caregiverUnsubscribe: (() => void)[] = [];
+
+  constructor(
+    profile: UserProfile = DEFAULT_USER_PROFILE,
+    private readonly env: SessionEnvironment = createBrowserEnvironment(),
+  ) {
+    this.profile = profile;
+    this.language = LANGUAGES[profile.language];
+    this.haptics = env.createHaptics(() => this.profile.haptics);
+    this.scheduler = new AdaptiveFrameScheduler(frameSchedulerConfig(profile));
+    this.hazardDetector = new LocalHazardDetector(hazardDetectorConfig(profile));
+    this.commands = new VoiceCommandRecognizer(command => this.runVoiceCommand(command), this.language.commands);
+  }
+
+  getState = (): VisionGuideState => this.state;
+
+  /** `useSyncExternalStore`-compatible change subscription. */
+  subscribe = (listener: () => void): (() => void) => this.on('change', listener);
+
+  on<K extends keyof VisionGuideEvents>(type: K, listener: Listener<VisionGuideEvents[K]>): () => void {
+    const listeners = this.listeners as Record<K, Set<Listener<VisionGuideEvents[K]>> | undefined>;
+    const set = listeners[type] ??= new Set();
+    set.add(listener);
+    return () => set.delete(listener);
+  }
+
+  get hapticsSupported(): boolean {
+    return this.haptics.supported;
+  }
+
+  get isIdle(): boolean {
+    return this.state.status === ConnectionStatus.DISCONNECTED || this.state.status === ConnectionStatus.ERROR;
+  }
+
+  /** Connected, reconnecting or offline: there is a guide to mute or repeat. */
+  get isLinked(): boolean {
+    const { status } = this.state;
+    return status === ConnectionStatus.CONNECTED || status === ConnectionStatus.RECONNECTING || status === ConnectionStatus.OFFLINE;
+  }
+
+  // Applies profile changes to the running session where the API allows it.
+  // Language and voice are fixed at connect and take effect on the next link.
+  setProfile(profile: UserProfile) {
+    const changed = changedFields(this.profile, profile);
+    this.profile = profile;
+    this.language = LANGUAGES[profile.language];
+    this.commands.configure(this.language.commands);
+    if (changed.length === 0) return;
+
+    this.scheduler.configure(frameSchedulerConfig(profile));
+    this.hazardDetector.configure(hazardDetectorConfig(profile));
+    this.playback?.configure(playbackConfig(profile));
+    if (changed.includes('cameraFacing')) this.switchCamera();
+    if (changed.some(field => PROMPT_FIELDS.includes(field)) && this.session) {
+      this.session.sendClientContent({
+        turns: [{ role: 'user', parts: [{ text: buildPreferenceUpdate(profile) }] }],
+        turnComplete: false,
+      });
+    }
+  }
+
+  async start() {
+    try {
+      this.userStopped = false;
+      this.reconnect.reset();
+      this.metrics = new SessionMetrics();
+      this.update({ metrics: null, error: null, replayResult: null });
+      this.setStatus(ConnectionStatus.CONNECTING);
+
+      const media = await this.env.openMedia(this.profile.cameraFacing);
+      this.media = media;
+      this.torchDeclined = false;
+      this.update({ isCameraActive: true, preview: media.camera.preview, camera: media.camera.controls });
+      this.startHazardWatch();
+      await this.openOutputAudio();
+
+      this.recalledMemories.clear();
+      this.reloadMemories();
+      try {
+        this.historySessionId = (await this.env.history.createHistorySession()).id;
+      } catch (historyErr) {
+        console.warn("History disabled for this session:", historyErr);
+      }
+
+      await this.connectLive();
+    } catch (err: any) {
+      console.error("Initialization Failed:", err);
+      const permissionDenied = err.name === 'NotAllowedError' || err.message?.toLowerCase().includes('permission');
+      // A rejected access key won't fix itself, so there is nothing to wait for offline.
+      const accessDenied = err instanceof TokenRequestError && err.status === 401;
+      // Camera and mic are up but the live link isn't: guide locally instead.
+      if (!permissionDenied && !accessDenied && !this.userStopped && this.media && this.playback) {
+        this.enterOfflineMode();
+        return;
+      }
+      this.stop();
+      this.setError({ code: accessDenied ? 'accessDenied' : permissionDenied ? 'permissionDenied' : 'linkFailed' });
+      this.setStatus(ConnectionStatus.ERROR);
+    }
+  }
+
+  /** Plays a recorded session bundle (JSON) back through the live pipeline. */
+  async replay(json: string) {
+    try {
+      const bundle = parseRecordingBundle(json);
+      this.userStopped = false;
+      this.reconnect.reset();
+      this.metrics = new SessionMetrics();
+      this.update({ metrics: null, error: null, isReplaying: true, replayResult: null });
+      this.setStatus(ConnectionStatus.CONNECTING);
+      this.replayBundle = bundle;
+      this.replayedPerception = [];
+
+      await this.openOutputAudio();
+
+      await this.connectLive(createReplayTransport(bundle, {
+        onFrame: (data, mimeType) => this.update({ replayFrame: `data:${mimeType};base64,${data}` }),
+      }));
+    } catch (err: any) {
+      console.error("Replay failed:", err);
+      this.stop();
+      this.setError({ code: 'replayFailed' });
+      this.setStatus(ConnectionStatus.ERROR);
+    }
+  }
+
+  stop = () => {
+    this.userStopped = true;
+    this.stopOfflineMode();
+    this.reconnect.reset();
+    this.resumeHandle = null;
+    this.teardownLink();
+    if (this.historySessionId) {
+      this.env.history.endHistorySession(this.historySessionId).catch(() => {});
+      this.historySessionId = null;
+    }
+    this.saveRecording();
+    this.finishReplay();
+    this.stopHazardWatch();
+    if (this.beacon) {
+      this.beacon.dispose();
+      this.beacon = null;
+    }
+    this.playback?.dispose().catch(() => {});
+    this.playback = null;
+    this.stopSharing();
+    if (this.media) {
+      this.media.camera.stop();
+      this.media.mic.stop();
+      this.media = null;
+    }
+
+    this.setStatus(ConnectionStatus.DISCONNECTED);
+    this.dispatch({ type: 'sessionEnded' });
+    this.update({ isCameraActive: false, preview: null, camera: NO_CAMERA_CONTROLS });
+    this.setVideoPaused(false);
+  };
+
+  // Mutes the guide's audio (voice and beacon). Local hazard cues and earcons stay audible.
+  setMuted(muted: boolean, announce = true) {
+    this.update({ isMuted: muted });
+    this.applyPlaybackMute();
+    if (announce) this.speakCue(muted ? this.ui.a11y.muted : this.ui.a11y.unmuted, true);
+  }
+
+  toggleMute = () => this.setMuted(!this.state.isMuted);
+
+  // The model stays silent while muted or while a helper has taken over.
+  private applyPlaybackMute() {
+    this.playback?.setMuted(this.state.isMuted || this.state.caregiver.takeover);
+  }
+
+  setVideoPaused(paused: boolean) {
+    this.update({ isVideoPaused: paused });
+  }
+
+  // Offline there is no guide transcript, so the last spoken cue is repeated instead.
+  repeatLastInstruction = () => {
+    const last = this.offline
+      ? this.lastCue
+      : [...this.state.history].reverse().find(item => item.role === 'model')?.text;
+    this.speakCue(last ?? this.ui.a11y.nothingToRepeat, true);
+  };
+
+  toggleTorch = () => {
+    const camera = this.media?.camera;
+    if (!camera) return;
+    const on = !camera.controls.torch;
+    if (!on) this.torchDeclined = true;
+    camera.setTorch(on)
+      .then(lit => {
+        this.refreshCamera();
+        this.speakCue(lit ? this.ui.camera.torchOn : this.ui.camera.torchOff, true);
+      })
+      .catch(err => console.error("Torch failed:", err));
+  };
+
+  zoom = (direction: 1 | -1) => {
+    const camera = this.media?.camera;
+    if (!camera) return;
+    camera.stepZoom(direction)
+      .then(level => {
+        this.refreshCamera();
+        if (level !== null) this.speakCue(this.ui.camera.zoomLevel(level), true);
+      })
+      .catch(err => console.error("Zoom failed:", err));
+  };
+
+  // Cycles through every camera the device has; the live link stays up.
+  switchLens = () => {
+    const camera = this.media?.camera;
+    if (!camera) return;
+    camera.switchLens()
+      .then(switched => {
+        if (this.media?.camera !== camera) return;
+        this.update({ preview: camera.preview });
+        this.caregiverLink?.replaceVideoTrack(camera.preview?.getVideoTracks()[0] ?? null);
+        this.refreshCamera();
+        this.speakCue(switched ? this.ui.camera.lensSwitched : this.ui.camera.noOtherLens, true);
+      })
+      .catch(err => console.error("Camera switch failed:", err));
+  };
+
+  // Read-text mode: the sharpest of a few full-resolution stills goes out as
+  // a one-off turn with a reading instruction. The reply is kept as a
+  // `reading` transcript item. Waits for a turn in progress to finish, so the
+  // reply to "read this" itself isn't mistaken for the reading.
+  readText = () => {
+    const camera = this.media?.camera;
+    if (!camera || !this.session || this.state.status !== ConnectionStatus.CONNECTED) {
+      this.speakCue(this.ui.reading.unavailable, true);
+      return;
+    }
+    if (this.state.guidance.perception === 'READING') return;
+    const linkId = this.linkId;
+    this.dispatch({ type: 'readingStarted' });
+    this.speakCue(this.ui.reading.started, true);
+    this.readingTimer = setTimeout(() => this.finishReading(), READING_TIMEOUT_MS);
+
+    captureStill(camera).then(still => {
+      if (linkId !== this.linkId || this.state.guidance.perception !== 'READING') return;
+      if (!still) {
+        this.speakCue(this.ui.reading.failed, true);
+        this.finishReading();
+        return;
+      }
+      this.recorder.recordFrame(still.data);
+      const send = () => {
+        if (linkId !== this.linkId || !this.session) return;
+        this.readingTurn = true;
+        this.session.sendClientContent({
+          turns: [{
+            role: 'user',
+            parts: [
+              { inlineData: { mimeType: 'image/jpeg', data: still.data } },
+              { text: buildReadingRequest(this.language) },
+            ],
+          }],
+          turnComplete: true,
+        });
+      };
+      if (this.activeInput || this.activeOutput || this.turnCommand) this.queuedRead = send;
+      else send();
+    }).catch(err => {
+      console.error("Still capture failed:", err);
+      this.finishReading();
+    });
+  };
+
+  startTasks = (targets: string[], name: string | null = null) => this.applyTasks({ type: 'started', targets, name });
+  markTaskFound = () => this.applyTasks({ type: 'found' });
+  skipTask = () => this.applyTasks({ type: 'skipped' });
+  endTasks = () => this.applyTasks({ type: 'cleared' });
+
+  startRoutine = (name: string) => {
+    this.env.routines.findRoutine(name)
+      .then(routine => {
+        if (routine) this.startTasks(routine.targets, routine.name);
+        else this.speakCue(this.ui.tasks.routineMissing(name), true);
+      })
+      .catch(err => {
+        console.error("Routine load failed:", err);
+        this.speakCue(this.ui.tasks.unavailable, true);
+      });
+  };
+
+  /** Saves the running list's targets under `name` for later sessions. */
+  saveTasksAsRoutine = (name: string) => {
+    const tasks = this.state.tasks;
+    if (!tasks) {
+      this.speakCue(this.ui.tasks.noList, true);
+      return;
+    }
+    this.env.routines.saveRoutine(name, tasks.items.map(item => item.label))
+      .then(routine => {
+        this.update({
+          routineRevision: this.state.routineRevision + 1,
+          tasks: this.state.tasks === tasks ? { ...tasks, name: routine.name } : this.state.tasks,
+        });
+        this.speakCue(this.ui.tasks.routineSaved(routine.name), true);
+      })
+      .catch(err => {
+        console.error("Routine save failed:", err);
+        this.speakCue(this.ui.tasks.unavailable, true);
+      });
+  };
+
+  // Sighted-helper mode: camera and mic go to the helper page, which follows
+  // the transcript, can have text spoken to the user and can take over from
+  // the model. The room code is what the helper types in to join.
+  shareWithHelper = (room: string = createRoomCode()) => {
+    const media = this.media;
+    if (!media || this.caregiverLink) return;
+    const id = ++this.caregiverId;
+    const link = this.env.openCaregiverLink({
+      room,
+      tracks: [...(media.camera.preview?.getVideoTracks() ?? []), ...(media.mic.stream?.getAudioTracks() ?? [])],
+      onStatus: status => { if (id === this.caregiverId) this.handleCaregiverStatus(status); },
+      onMessage: message => { if (id === this.caregiverId) this.handleHelperMessage(message); },
+    });
+    if (!link) {
+      this.speakCue(this.ui.caregiver.unavailable, true);
+      return;
+    }
+    this.caregiverLink = link;
+    this.update({ caregiver: { status: this.state.caregiver.status, room, takeover: false } });
+    this.caregiverUnsubscribe = [
+      this.on('turnComplete', ({ items }) => { if (items.length > 0) link.send({ type: 'transcript', items }); }),
+      this.on('transcript', ({ role, text }) => link.send({ type: 'partial', role, text })),
+      this.on('perception', perception => link.send({ type: 'perception', perception, target: this.currentTargetLabel() })),
+    ];
+  };
+
+  /** Lets the helper waiting in the room see the camera and hear the mic. */
+  acceptHelper = () => {
+    if (this.state.caregiver.status === 'requested') this.caregiverLink?.accept();
+  };
+
+  stopSharing = () => {
+    const link = this.caregiverLink;
+    if (!link) return;
+    this.caregiverId++;
+    this.caregiverLink = null;
+    this.caregiverUnsubscribe.forEach(unsubscribe => unsubscribe());
+    this.caregiverUnsubscribe = [];
+    link.close();
+    this.update({ caregiver: NO_CAREGIVER });
+  };
+
+  toggleRecording = () => {
+    if (this.recorder.isRecording) {
+      this.saveRecording();
+    } else {
+      this.recorder.start(LIVE_MODEL, this.state.guidance);
+      this.recorder.recordPerception(this.state.guidance.perception);
+      this.update({ isRecording: true });
+    }
+  };
+
+  exportMetrics(): SessionMetricsExport {
+    return this.metrics.export(performance.now(), this.playback?.queuedMs() ?? 0);
+  }
+
+  /** Re-reads saved memories, e.g. after the user deleted some. */
+  reloadMemories = () => {
+    this.env.memories.listMemories()
+      .then(list => { this.memories = list; })
+      .catch(err => console.warn("Memory disabled for this session:", err));
+  };
+
+  private get ui(): UiStrings {
+    return this.language.ui;
+  }
+
+  private emit<K extends keyof VisionGuideEvents>(type: K, payload: VisionGuideEvents[K]) {
+    (this.listeners[type] as Set<Listener<VisionGuideEvents[K]>> | undefined)?.forEach(listener => listener(payload));
+  }
+
+  private update(patch: Partial<VisionGuideState>) {
+    this.state = { ...this.state, ...patch };
+    this.emit('change', this.state);
+  }
+
+  private setStatus(status: ConnectionStatus) {
+    if (status === this.state.status) return;
+    this.update({ status, ...(status === ConnectionStatus.CONNECTED ? {} : { uplinkStats: null }) });
+    this.emit('status', status);
+    this.updateTelemetry();
+  }
+
+  private setError(error: SessionError | null) {
+    this.update({ error });
+    this.emit('error', error);
+  }
+
+  // Footer telemetry. Metrics keep sampling through reconnects and offline
+  // mode, and the last snapshot stays in state after the session ends.
+  private updateTelemetry() {
+    if (this.telemetryTimer) {
+      clearInterval(this.telemetryTimer);
+      this.telemetryTimer = null;
+    }
+    const connected = this.state.status === ConnectionStatus.CONNECTED;
+    if (!this.isLinked) return;
+    this.telemetryTimer = setInterval(() => {
+      const now = performance.now();
+      this.update({
+        uplinkStats: connected ? this.scheduler.stats(this.state.guidance.perception, now) : null,
+        metrics: this.metrics.sample(now, this.playback?.queuedMs() ?? 0),
+      });
+    }, TELEMETRY_MS);
+  }
+
+  // Every guidance change goes through here so its side effects (beacon,
+  // haptics, recorder, hazard badge timeout) can't be skipped.
+  private dispatch(event: GuidanceEvent) {
+    const prev = this.state.guidance;
+    const next = guidanceReducer(prev, event);
+    if (next === prev) return;
+    this.update({ guidance: next });
+
+    if (next.perception !== prev.perception) {
+      this.recorder.recordPerception(next.perception);
+      if (this.replayBundle && next.perception !== 'IDLE') this.replayedPerception.push(next.perception);
+      this.emit('perception', next.perception);
+    }
+    if (next.target !== prev.target || next.perception !== prev.perception) this.updateBeacon();
+    const haptic = hapticEventForTransition(prev, next);
+    if (haptic) this.haptics.play(haptic);
+    if (next.hazard !== prev.hazard) {
+      if (this.hazardBadgeTimer) clearTimeout(this.hazardBadgeTimer);
+      this.hazardBadgeTimer = next.hazard
+        ? setTimeout(() => this.dispatch({ type: 'hazardCleared' }), HAZARD_BADGE_MS)
+        : null;
+    }
+  }
+
+  // Beacon follows the structured target report while there is one to point at.
+  private updateBeacon() {
+    const beacon = this.beacon;
+    if (!beacon) return;
+    const { target, perception } = this.state.guidance;
+    if (target && (perception === 'LOCKING' || perception === 'GUIDING')) {
+      beacon.setTarget(target.clockDirection, target.distanceSteps);
+      beacon.start();
+    } else {
+      beacon.stop();
+    }
+  }
+
+  private speakCue(text: string, interrupt = false) {
+    this.lastCue = text;
+    this.env.speak(text, { interrupt, lang: this.language.bcp47, rate: SPEECH_RATE_VALUES[this.profile.speechRate] });
+  }
+
+  private earcon(kind: Earcon) {
+    if (this.playback) playEarcon(this.playback.ctx, kind);
+  }
+
+  private describeLocalScene() {
+    const strings = this.ui.scene;
+    const scene = this.sceneMonitor.snapshot;
+    const hazard = this.hazardDetector.currentLevel;
+    return [
+      strings.light[scene.light],
+      hazard !== 'OFF' ? strings.path[hazard] : null,
+      scene.steady ? strings.steady : strings.moving,
+    ].filter(Boolean).join(' ');
+  }
+
+  // Runs a spoken control command without waiting for the model. The model
+  // hears the words too, so its audio reply for this turn is dropped — except
+  // for a target change, which it should act on.
+  private runVoiceCommand(command: VoiceCommand) {
+    // Online, the model answers "what's around me" far better than local cues.
+    if (command.type === 'describeScene' && !this.offline) return;
+    // Without a list, "got it" and "next" are just conversation for the model.
+    if ((command.type === 'taskFound' || command.type === 'taskSkip') && !activeTask(this.state.tasks)) return;
+    const cues = this.ui.cues;
+    if (!this.offline) this.turnCommand = command;
+    this.earcon('ack');
+    if (command.type !== 'changeTarget') this.playback?.stop();
+    switch (command.type) {
+      case 'stop':
+        this.stop();
+        break;
+      case 'pauseVideo':
+        this.setVideoPaused(true);
+        this.speakCue(cues.videoPaused, true);
+        break;
+      case 'resumeVideo':
+        this.setVideoPaused(false);
+        this.speakCue(cues.videoResumed, true);
+        break;
+      case 'repeat':
+        this.repeatLastInstruction();
+        break;
+      case 'whereWasI': {
+        const tasks = this.state.tasks;
+        const label = this.currentTargetLabel();
+        const progress = tasks ? ` ${this.ui.tasks.progress(taskProgress(tasks).found, tasks.items.length)}.` : '';
+        this.speakCue(label ? cues.currentTarget(label) + progress : cues.noTarget, true);
+        break;
+      }
+      case 'mute':
+        this.setMuted(true, false);
+        break;
+      case 'unmute':
+        this.setMuted(false, false);
+        break;
+      case 'changeTarget':
+        this.target = command.target;
+        this.dispatch({ type: 'targetLost', at: Date.now() });
+        this.speakCue(cues.targetChanged(command.target), true);
+        break;
+      case 'describeScene':
+        this.speakCue(this.describeLocalScene(), true);
+        break;
+      case 'readText':
+        this.readText();
+        break;
+      case 'taskFound':
+        this.markTaskFound();
+        break;
+      case 'taskSkip':
+        this.skipTask();
+        break;
+      case 'startTasks':
+        this.startTasks(command.targets);
+        break;
+      case 'startRoutine':
+        this.startRoutine(command.name);
+        break;
+      case 'saveRoutine':
+        this.saveTasksAsRoutine(command.name);
+        break;
+    }
+  }
+
+  private async openOutputAudio() {
+    const playback = await this.env.openPlayback(playbackConfig(this.profile));
+    if (!playback) return;
+    this.playback = playback;
+    this.applyPlaybackMute();
+    // Only guidance is panned toward the target; warnings and chatter stay centred.
+    const beacon = new SpatialBeacon(playback.ctx, SPATIAL_AUDIO_CONFIG, playback.output);
+    playback.routeChannel('guide', beacon.voiceInput);
+    this.beacon = beacon;
+  }
+
+  private switchCamera() {
+    const camera = this.media?.camera;
+    if (!camera) return;
+    camera.switchFacing(this.profile.cameraFacing)
+      .then(() => {
+        if (this.media?.camera !== camera) return;
+        this.update({ preview: camera.preview });
+        this.caregiverLink?.replaceVideoTrack(camera.preview?.getVideoTracks()[0] ?? null);
+        this.refreshCamera();
+      })
+      .catch(err => console.error("Camera switch failed:", err));
+  }
+
+  // Moving through the list resets guidance for the next target and tells
+  // the model, which starts searching without waiting for the user to ask.
+  private applyTasks(event: TaskListEvent) {
+    const prev = this.state.tasks;
+    const next = taskListReducer(prev, event);
+    if (next === prev) return;
+    this.update({ tasks: next });
+    const active = activeTask(next);
+    if (active) {
+      this.target = active.label;
+      this.dispatch({ type: 'targetLost', at: Date.now() });
+    }
+    if (!next || this.isIdle) return;
+    this.announceTasks(next);
+    this.sendTaskUpdate(next);
+  }
+
+  private announceTasks(tasks: TaskListState) {
+    const strings = this.ui.tasks;
+    const active = activeTask(tasks);
+    const { found, skipped, total } = taskProgress(tasks);
+    if (!active) this.speakCue(strings.finished(found, total), true);
+    else if (found + skipped === 0) this.speakCue(strings.started(active.label, total), true);
+    else this.speakCue(strings.next(active.label, found, total), true);
+  }
+
+  private sendTaskUpdate(tasks: TaskListState) {
+    this.session?.sendClientContent({
+      turns: [{ role: 'user', parts: [{ text: buildTaskUpdate(tasks) }] }],
+      turnComplete: !!activeTask(tasks),
+    });
+  }
+
+  private currentTargetLabel(): string | null {
+    return activeTask(this.state.tasks)?.label ?? this.state.guidance.target?.label ?? this.target;
+  }
+
+  private handleCaregiverStatus(status: CaregiverLinkStatus) {
+    const prev = this.state.caregiver;
+    if (status === 'closed') {
+      this.stopSharing();
+      this.speakCue(this.ui.caregiver.ended, true);
+      return;
+    }
+    if (status === prev.status) return;
+    this.update({ caregiver: { ...prev, status } });
+    if (status === 'connected') {
+      this.speakCue(this.ui.caregiver.joined, true);
+      // Catch the helper up on the conversation so far.
+      const link = this.caregiverLink;
+      link?.send({ type: 'transcript', items: this.state.history });
+      link?.send({ type: 'perception', perception: this.state.guidance.perception, target: this.currentTargetLabel() });
+      return;
+    }
+    if (prev.status === 'connected') {
+      this.setHelperControl(false);
+      this.speakCue(this.ui.caregiver.left, true);
+    }
+    // A helper who rejoins after a reload has to be accepted again.
+    if (status === 'requested') this.speakCue(this.ui.caregiver.requestCue, true);
+  }
+
+  private handleHelperMessage(message: HelperMessage) {
+    if (message.type === 'takeover') {
+      this.setHelperControl(message.active);
+      return;
+    }
+    if (message.type !== 'say') return;
+    const text = message.text.trim().slice(0, MAX_HELPER_TEXT);
+    if (!text) return;
+    this.speakCue(text, true);
+    const item: TranscriptionItem = { role: 'model', text, timestamp: Date.now(), kind: 'helper' };
+    this.update({ history: [...this.state.history, item].slice(-MAX_VISIBLE_HISTORY) });
+    this.persistHistory([item]);
+    this.caregiverLink?.send({ type: 'transcript', items: [item] });
+  }
+
+  // While the helper guides, mic audio and frames stop going to the model, its
+  // voice is muted and its tool calls are ignored; local hazard cues keep running.
+  private setHelperControl(active: boolean) {
+    const caregiver = this.state.caregiver;
+    if (caregiver.takeover === active) return;
+    this.update({ caregiver: { ...caregiver, takeover: active } });
+    if (active) this.playback?.stop();
+    this.applyPlaybackMute();
+    this.speakCue(active ? this.ui.caregiver.takeoverOn : this.ui.caregiver.takeoverOff, true);
+    this.caregiverLink?.send({ type: 'takeover', active });
+  }
+
+  private finishReading() {
+    if (this.readingTimer) clearTimeout(this.readingTimer);
+    this.readingTimer = null;
+    this.readingTurn = false;
+    this.queuedRead = null;
+    this.dispatch({ type: 'readingFinished' });
+  }
+
+  private refreshCamera() {
+    const controls = this.media?.camera.controls ?? NO_CAMERA_CONTROLS;
+    this.update({ camera: controls });
+  }
+
+  // Picture-quality cues matter online too, since the model sees the same bad
+  // frames; lighting changes and glare stand in for its eyes, so only offline.
+  // A dark view turns the torch on when there is one and the user hasn't
+  // switched it off.
+  private handleSceneCue(cue: SceneCue) {
+    const camera = this.media?.camera;
+    if (cue === 'dark' && camera?.controls.torchSupported && !camera.controls.torch && !this.torchDeclined) {
+      camera.setTorch(true)
+        .then(() => {
+          this.refreshCamera();
+          this.speakCue(this.ui.camera.torchAuto);
+        })
+        .catch(() => this.speakCue(this.ui.scene.cues.dark));
+      return;
+    }
+    if (!this.offline && !CAMERA_QUALITY_CUES.includes(cue)) return;
+    if (this.state.isVideoPaused || this.state.isMuted) return;
+    this.speakCue(this.ui.scene.cues[cue]);
+  }
+
+  // Local floor watch. Samples the camera on its own timer so it keeps
+  // working while the live link is slow, reconnecting or down.
+  private startHazardWatch() {
+    this.stopHazardWatch();
+    const detector = this.hazardDetector;
+    const scene = this.sceneMonitor;
+    detector.reset();
+    scene.reset();
+    this.update({ localHazard: 'CLEAR' });
+
+    this.hazardTimer = setInterval(() => {
+      const data = this.media?.camera.sample(ANALYSIS_WIDTH, ANALYSIS_HEIGHT);
+      if (!data) return;
+      const now = performance.now();
+      const { level, warn } = detector.assess(data, ANALYSIS_WIDTH, ANALYSIS_HEIGHT, now);
+      if (level !== this.state.localHazard) this.update({ localHazard: level });
+      if (warn) {
+        this.playback?.stop();
+        this.speakCue(this.ui.cues.obstacle, true);
+        this.haptics.play('HAZARD');
+      }
+      const { cue } = scene.assess(data, ANALYSIS_WIDTH, ANALYSIS_HEIGHT, now);
+      if (cue && !warn) this.handleSceneCue(cue);
+    }, HAZARD_CHECK_MS);
+  }
+
+  private stopHazardWatch() {
+    if (this.hazardTimer) {
+      clearInterval(this.hazardTimer);
+      this.hazardTimer = null;
+    }
+    this.update({ localHazard: 'OFF' });
+  }
+
+  // Drops the live link and its uplinks but keeps camera, mic and audio output.
+  private teardownLink() {
+    this.linkId++;
+    if (this.session) {
+      try { this.session.close(); } catch(e) {}
+      this.session = null;
+    }
+    if (this.frameTimer) {
+      clearTimeout(this.frameTimer);
+      this.frameTimer = null;
+    }
+    if (this.micCapture) {
+      this.micCapture.stop();
+      this.micCapture = null;
+    }
+    this.playback?.stop();
+    if (this.readingTimer) clearTimeout(this.readingTimer);
+    this.readingTimer = null;
+    this.readingTurn = false;
+    this.queuedRead = null;
+    this.commands.dispose();
+    this.turnCommand = null;
+    this.turnChannel = null;
+    this.inputStartedAt = null;
+    this.outputStartedAt = null;
+    this.activeInput = '';
+    this.activeOutput = '';
+    this.update({ isUserSpeaking: false, currentInput: '', currentOutput: '' });
+  }
+
+  private saveRecording() {
+    const bundle = this.recorder.stop();
+    if (this.state.isRecording) this.update({ isRecording: false });
+    if (bundle) this.emit('recording', bundle);
+  }
+
+  private finishReplay() {
+    const bundle = this.replayBundle;
+    this.replayBundle = null;
+    if (this.state.isReplaying) this.update({ isReplaying: false, replayFrame: null });
+    if (bundle) this.update({ replayResult: compareReplay(bundle, this.replayedPerception) });
+  }
+
+  private handleLinkLost(reason: string) {
+    if (this.replayBundle) {
+      this.stop();
+      return;
+    }
+    if (this.userStopped || !this.media || this.reconnect.pending) return;
+    this.teardownLink();
+    console.warn("Live link lost:", reason);
+    // A failed promotion attempt; the offline probe will try again.
+    if (this.offline) return;
+
+    const reconnect = this.reconnect;
+    const delay = reconnect.schedule(() => {
+      this.connectLive().catch(err => this.handleLinkLost(err?.message ?? String(err)));
+    });
+
+    if (delay === null) {
+      this.enterOfflineMode();
+      return;
+    }
+    this.metrics.recordReconnectAttempt();
+
+    this.setStatus(ConnectionStatus.RECONNECTING);
+    this.dispatch({ type: 'sessionEnded' });
+    this.setError({ code: 'reconnecting', attempt: reconnect.attempt, maxRetries: reconnect.maxRetries });
+    if (reconnect.attempt === 1) this.speakCue(this.ui.cues.reconnecting, true);
+  }
+
+  // Degraded mode for when the live link can't be reached: camera, hazard
+  // watch and TTS keep running locally, commands go through local speech
+  // recognition, and the live link is retried in the background.
+  private enterOfflineMode() {
+    if (this.offline) return;
+    this.teardownLink();
+    this.reconnect.reset();
+    this.offline = true;
+    this.setStatus(ConnectionStatus.OFFLINE);
+    this.dispatch({ type: 'sessionEnded' });
+    this.setError({ code: 'offline' });
+    this.earcon('error');
+    this.speakCue(this.ui.cues.offline, true);
+
+    const probe = setInterval(this.tryPromote, OFFLINE_PROBE_MS);
+    const unsubscribe = this.env.onOnline(this.tryPromote);
+    const listener = this.env.startSpeechCommands(this.language.bcp47, text => {
+      const command = matchVoiceCommand(text, this.language.commands);
+      if (command) this.runVoiceCommand(command);
+    });
+    this.offlineTeardown = () => {
+      clearInterval(probe);
+      unsubscribe();
+      listener?.stop();
+    };
+  }
+
+  // Stops the offline probes and listeners without announcing anything.
+  private stopOfflineMode() {
+    this.offline = false;
+    this.promoting = false;
+    this.offlineTeardown?.();
+    this.offlineTeardown = null;
+  }
+
+  private tryPromote = () => {
+    if (!this.offline || this.promoting || this.session || !this.env.isOnline()) return;
+    this.promoting = true;
+    this.connectLive()
+      .catch(err => this.handleLinkLost(err?.message ?? String(err)))
+      .finally(() => { this.promoting = false; });
+  };
+
+  // Replays recent turns so a fresh (non-resumed) session keeps the conversation.
+  private sendRestoredContext(session: LiveSession) {
+    const recent = this.state.history.slice(-10);
+    if (recent.length === 0 && !this.target) return;
+    const turns = recent.map(m => ({ role: m.role, parts: [{ text: m.text }] }));
+    if (this.target) {
+      turns.push({
+        role: 'user',
+        parts: [{ text: this.language.prompt.restoredContext(this.target) }],
+      });
+    }
+    session.sendClientContent({ turns, turnComplete: false });
+  }
+
+  private startUplinks(linkId: number, sessionPromise: Promise<LiveSession>) {
+    const media = this.media;
+    if (!media) return;
+
+    const vad = this.vad;
+    vad.reset();
+    media.mic.start((pcm, sampleRate) => {
+      if (linkId !== this.linkId) return;
+      const wasSpeaking = vad.speaking;
+      const { speaking, emit, ended } = vad.push(pcm);
+      if (speaking !== wasSpeaking) this.update({ isUserSpeaking: speaking });
+      if (speaking && !wasSpeaking) {
+        this.commands.startUtterance();
+        this.playback?.bargeIn();
+      }
+      if (!speaking && wasSpeaking) this.playback?.releaseBargeIn();
+      if (ended) {
+        this.metrics.markSpeechEnd(performance.now());
+        this.commands.endUtterance();
+      }
+      if ((emit.length === 0 && !ended) || this.state.caregiver.takeover) return;
+      sessionPromise.then(session => {
+        if (!session) return;
+        emit.forEach(chunk => {
+          const blob = createBlobFromPCM16(chunk, sampleRate);
+          session.sendRealtimeInput({ media: blob });
+          this.metrics.recordAudioSent(blob.data.length, performance.now());
+          this.recorder.recordAudio(blob.data, blob.mimeType);
+        });
+        if (ended) session.sendRealtimeInput({ audioStreamEnd: true });
+      }).catch(() => {});
+    }).then(capture => {
+      if (linkId !== this.linkId) capture.stop();
+      else this.micCapture = capture;
+    }).catch(err => console.error("Mic capture failed:", err));
+
+    const scheduler = this.scheduler;
+    const metrics = this.metrics;
+    scheduler.reset();
+    let probePixels: Uint8ClampedArray | null = null;
+
+    const tick = () => {
+      if (linkId !== this.linkId) return;
+      const policy = scheduler.policy(this.state.guidance.perception);
+      this.frameTimer = setTimeout(tick, policy.intervalMs);
+      if (this.state.isVideoPaused || this.state.caregiver.takeover) return;
+
+      const pixels = media.camera.sample(PROBE_WIDTH, PROBE_HEIGHT);
+      if (!pixels) return;
+      const difference = probePixels ? frameDifference(probePixels, pixels) : 1;
+      probePixels = pixels;
+
+      const decision = scheduler.decide(difference, performance.now(), this.session?.bufferedAmount() ?? 0);
+      if (decision.send === false) {
+        metrics.recordFrameSkipped(decision.reason);
+        return;
+      }
+
+      const failed = () => {
+        scheduler.complete(0, performance.now());
+        metrics.recordFrameSkipped('failed');
+      };
+      media.camera.encodeJpeg(policy.scale, policy.jpegQuality).then(frame => {
+        if (!frame || linkId !== this.linkId) return failed();
+        return sessionPromise.then(session => {
+          if (session) session.sendRealtimeInput({ media: { data: frame.data, mimeType: 'image/jpeg' } });
+          this.recorder.recordFrame(frame.data);
+          scheduler.complete(frame.bytes, performance.now());
+          metrics.recordFrameSent(frame.data.length, performance.now());
+        });
+      }).catch(failed);
+    };
+    tick();
+  }
+
+  private storeMemory(record: Omit<MemoryRecord, 'id'>) {
+    this.env.memories.saveMemory(record)
+      .then(saved => {
+        this.memories = [saved, ...this.memories.filter(m => m.id !== saved.id)];
+        this.update({ memoryRevision: this.state.memoryRevision + 1 });
+      })
+      .catch(err => console.error("Memory save failed:", err));
+  }
+
+  private currentThumbnail() {
+    return this.media?.camera.thumbnail() ?? null;
+  }
+
+  // Keeps the last-seen context of each reported target, refreshed while it stays in view.
+  private rememberSighting(target: TargetReport, at: number) {
+    if (this.replayBundle) return;
+    const id = memoryId('object', target.label);
+    const last = this.memorySavedAt.get(id) ?? 0;
+    if (at - last < MEMORY_REFRESH_MS) return;
+    this.memorySavedAt.set(id, at);
+    this.storeMemory({
+      kind: 'object',
+      label: target.label,
+      description: target.placeDescription ?? null,
+      room: target.room ?? null,
+      thumbnail: this.currentThumbnail(),
+      clockDirection: target.clockDirection,
+      seenAt: at,
+    });
+  }
+
+  // Tells the model where things were seen before, once per memory per session.
+  private recallMemories(utterance: string) {
+    const session = this.session;
+    if (!session) return;
+    const relevant = findRelevantMemories(utterance, this.memories).filter(m => !this.recalledMemories.has(m.id));
+    if (relevant.length === 0) return;
+    relevant.forEach(m => this.recalledMemories.add(m.id));
+    session.sendClientContent({
+      turns: [{ role: 'user', parts: [{ text: describeMemories(relevant) }] }],
+      turnComplete: false,
+    });
+  }
+
+  private persistHistory(items: TranscriptionItem[]) {
+    const sessionId = this.historySessionId;
+    if (!sessionId) return;
+    this.env.history.appendHistoryItems(sessionId, items)
+      .then(() => this.update({ historyRevision: this.state.historyRevision + 1 }))
+      .catch(err => console.error("History save failed:", err));
+  }
+
+  private async handleMessage(message: LiveServerMessage) {
+    if (message.sessionResumptionUpdate?.resumable && message.sessionResumptionUpdate.newHandle) {
+      this.resumeHandle = message.sessionResumptionUpdate.newHandle;
+    }
+
+    if (message.toolCall?.functionCalls?.length) {
+      const responses = message.toolCall.functionCalls.map(call => {
+        // The helper is in charge during a takeover; the model's reports change nothing.
+        if (this.state.caregiver.takeover) return toolAck(call, false, 'a human helper is guiding; call ignored');
+        const event = toGuidanceEvent(call);
+        if (event) this.dispatch(event);
+        if (event?.type === 'hazardReported') this.turnChannel = 'safety';
+        if (event?.type === 'targetReported') this.rememberSighting(event.target, event.at);
+        const place = toPlaceReport(call);
+        if (place && !this.replayBundle) {
+          this.storeMemory({
+            kind: 'place',
+            label: place.name,
+            description: place.description,
+            room: null,
+            thumbnail: this.currentThumbnail(),
+            clockDirection: null,
+            seenAt: Date.now(),
+          });
+        }
+        const found = toFoundReport(call);
+        if (found) {
+          // Only the active target can be ticked off; anything else would skip it unseen.
+          const task = activeTask(this.state.tasks);
+          if (!task) return toolAck(call, false, 'no task list is active');
+          if (!matchesTask(task, found.label)) return toolAck(call, false, `not the current target; still looking for ${task.label}`);
+          this.markTaskFound();
+        }
+        return toolAck(call, !!event || !!place || !!found);
+      });
+      this.session?.sendToolResponse({ functionResponses: responses });
+    }
+
+    const audioData = message.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
+    const dropAudio = this.state.caregiver.takeover || (this.turnCommand !== null && this.turnCommand.type !== 'changeTarget');
+    if (audioData) this.metrics.markModelAudio(performance.now());
+    const playback = this.playback;
+    if (audioData && playback && !dropAudio) {
+      const channel = this.turnChannel ?? (this.state.guidance.perception === 'IDLE' ? 'chatter' : 'guide');
+      const buffer = await decodeAudioData(decode(audioData), playback.ctx as AudioContext, 24000);
+      playback.enqueue(buffer, channel);
+    }
+
+    if (message.serverContent?.interrupted) {
+      this.metrics.recordInterruption();
+      this.playback?.stop();
+    }
+
+    const input = message.serverContent?.inputTranscription?.text;
+    if (message.serverContent?.inputTranscription) {
+      this.inputStartedAt ??= Date.now();
+      this.activeInput += input ?? '';
+      this.update({ currentInput: this.activeInput });
+      this.emit('transcript', { role: 'user', delta: input ?? '', text: this.activeInput });
+      this.commands.push(input ?? '');
+      if (!this.turnCommand) this.recallMemories(this.activeInput);
+    }
+
+    const output = message.serverContent?.outputTranscription?.text;
+    if (message.serverContent?.outputTranscription) {
+      this.outputStartedAt ??= Date.now();
+      this.activeOutput += output ?? '';
+      this.update({ currentOutput: this.activeOutput });
+      this.emit('transcript', { role: 'model', delta: output ?? '', text: this.activeOutput });
+
+      const hint = inferPerceptionFromTranscript(this.activeOutput, this.language.keywords);
+      if (hint) this.dispatch({ type: 'transcriptHint', perception: hint, at: Date.now() });
+    }
+
+    if (message.serverContent?.turnComplete) {
+      // The input transcription is final now. Without the local VAD there are
+      // no speech start and end signals, so the turn stands in for both.
+      if (!VAD_CONFIG.enabled) this.commands.endUtterance();
+      this.commands.finish();
+      if (!VAD_CONFIG.enabled) this.commands.startUtterance();
+      const finalInput = this.activeInput.trim();
+      const finalOutput = this.activeOutput.trim();
+      const reading = this.readingTurn;
+      if (finalInput && !this.turnCommand && !activeTask(this.state.tasks)) this.target = finalInput;
+      this.turnCommand = null;
+      this.turnChannel = null;
+      const now = Date.now();
+      const items: TranscriptionItem[] = [
+        ...(finalInput ? [{ role: 'user', text: finalInput, timestamp: this.inputStartedAt ?? now } as TranscriptionItem] : []),
+        ...(finalOutput ? [{
+          role: 'model',
+          text: finalOutput,
+          timestamp: this.outputStartedAt ?? now,
+          ...(reading ? { kind: 'reading' } : {}),
+        } as TranscriptionItem] : [])
+      ];
+      if (items.length > 0) {
+        this.update({ history: [...this.state.history, ...items].slice(-MAX_VISIBLE_HISTORY) });
+        this.persistHistory(items);
+      }
+      this.inputStartedAt = null;
+      this.outputStartedAt = null;
+      // A reply that failed earlier is superseded once a turn gets through.
+      if (this.state.error?.code === 'replyFailed') this.setError(null);
+      this.activeInput = '';
+      this.activeOutput = '';
+      this.update({ currentInput: '', currentOutput: '' });
+      this.emit('turnComplete', { items });
+      if (reading) this.finishReading();
+      const queuedRead = this.queuedRead;
+      this.queuedRead = null;
+      queuedRead?.();
+    }
+  }
+
+  private async connectLive(transport: LiveTransport = this.env.transport()) {
+    const linkId = ++this.linkId;
+    const resumeHandle = this.resumeHandle;
+    const lang = this.language;
+    const profile = this.profile;
+    const promoting = this.offline;
+
+    const sessionPromise = transport.connect({
+      model: LIVE_MODEL,
+      config: {
+        responseModalities: [Modality.AUDIO],
+        systemInstruction: buildSystemInstruction(lang, profile),
+        speechConfig: {
+          languageCode: lang.bcp47,
+          voiceConfig: { prebuiltVoiceConfig: { voiceName: profile.voice } },
+        },
+        inputAudioTranscription: {},
+        outputAudioTranscription: {},
+        tools: [{ functionDeclarations: GUIDANCE_TOOL_DECLARATIONS }],
+        sessionResumption: resumeHandle ? { handle: resumeHandle } : {},
+      },
+      callbacks: {
+        onopen: () => {
+          if (linkId !== this.linkId) return;
+          this.stopOfflineMode();
+          this.setStatus(ConnectionStatus.CONNECTED);
+          // A replay picks up where its recording began, not from a fresh scan.
+          this.dispatch(this.replayBundle
+            ? { type: 'stateRestored', state: replayStartState(this.replayBundle, Date.now()) }
+            : { type: 'sessionStarted' });
+          this.setError(null);
+          this.startUplinks(linkId, sessionPromise);
+        },
+        onmessage: (message) => {
+          if (linkId !== this.linkId) return;
+          this.recorder.recordServerMessage(message);
+          this.handleMessage(message).catch(err => {
+            if (linkId !== this.linkId) return;
+            console.error("Live message handling failed:", err);
+            this.setError({ code: 'replyFailed' });
+          });
+        },
+        onerror: (err) => {
+          if (linkId !== this.linkId) return;
+          console.error("Gemini Live Error:", err);
+          this.handleLinkLost("error");
+        },
+        onclose: () => {
+          if (linkId !== this.linkId) return;
+          this.handleLinkLost("closed");
+        }
+      }
+    });
+    const session = await sessionPromise;
+    if (linkId !== this.linkId) {
+      try { session.close(); } catch(e) {}
+      return;
+    }
+    this.session = session;
+    if (this.reconnect.attempt > 0 || promoting) {
+      this.metrics.recordReconnected();
+      if (!resumeHandle) this.sendRestoredContext(session);
+      this.reconnect.reset();
+      const cues = this.ui.cues;
+      this.speakCue(promoting ? cues.backOnline : cues.reconnected);
+    } else if (this.state.tasks) {
+      // A list set up before connecting is announced once the guide is there.
+      this.announceTasks(this.state.tasks);
+    }
+    if (!resumeHandle && activeTask(this.state.tasks)) this.sendTaskUpdate(this.state.tasks);
+  }
+}
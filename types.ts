@@ -8,11 +8,75 @@ export enum ConnectionStatus {
   DISCONNECTED = 'DISCONNECTED',
   CONNECTING = 'CONNECTING',
   CONNECTED = 'CONNECTED',
+  RECONNECTING = 'RECONNECTING',
+  OFFLINE = 'OFFLINE',
   ERROR = 'ERROR'
 }
 
+/**
+ * `reading` marks text the guide read off a high-resolution still; `helper`
+ * marks text a sighted helper sent to be spoken to the user.
+ */
+export type TranscriptKind = 'speech' | 'reading' | 'helper';
+
 export interface TranscriptionItem {
   role: 'user' | 'model';
   text: string;
   timestamp: number;
+  /** Absent on items saved before reading mode existed; treat as speech. */
+  kind?: TranscriptKind;
+}
+
+export type PerceptionState = 'IDLE' | 'SCANNING' | 'LOCKING' | 'GUIDING' | 'READING';
+
+export interface TargetReport {
+  label: string;
+  /** 1-12 on a clock face, 12 = straight ahead. */
+  clockDirection: number;
+  distanceSteps: number | null;
+  /** 0-1 as reported by the model. */
+  confidence: number;
+  /** Where it is, e.g. "on the counter next to the kettle"; kept for object memory. */
+  placeDescription?: string | null;
+  room?: string | null;
+}
+
+export type MemoryKind = 'object' | 'place';
+
+/** Last-seen context of an object, or a place the user asked to remember. */
+export interface MemoryRecord {
+  /** `${kind}:${normalized label}`, so a re-sighting replaces the old entry. */
+  id: string;
+  kind: MemoryKind;
+  label: string;
+  description: string | null;
+  room: string | null;
+  /** Small JPEG data URL of the camera view at the time. */
+  thumbnail: string | null;
+  clockDirection: number | null;
+  seenAt: number;
+}
+
+export type HazardSeverity = 'low' | 'medium' | 'high';
+
+export interface HazardReport {
+  description: string;
+  clockDirection: number | null;
+  severity: HazardSeverity;
+}
+
+export type TaskStatus = 'pending' | 'found' | 'skipped';
+
+export interface TaskItem {
+  label: string;
+  status: TaskStatus;
+}
+
+/** A named list of targets kept for reuse, e.g. "leaving home". */
+export interface Routine {
+  /** Normalized name, so saving under the same name replaces it. */
+  id: string;
+  name: string;
+  targets: string[];
+  updatedAt: number;
 }
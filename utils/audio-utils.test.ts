@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_VAD_CONFIG, MODEL_INPUT_SAMPLE_RATE, VoiceActivityGate } from './audio-utils';
+
+const CHUNK_MS = 100;
+const CHUNK_SAMPLES = MODEL_INPUT_SAMPLE_RATE * CHUNK_MS / 1000;
+
+/** A sine at a voice-like pitch; amplitude is 0-1 of full scale. */
+function tone(amplitude: number, frequency = 200): Int16Array {
+  const pcm = new Int16Array(CHUNK_SAMPLES);
+  for (let i = 0; i < pcm.length; i++) {
+    pcm[i] = Math.round(Math.sin(2 * Math.PI * frequency * i / MODEL_INPUT_SAMPLE_RATE) * amplitude * 32767);
+  }
+  return pcm;
+}
+
+const silence = () => new Int16Array(CHUNK_SAMPLES);
+
+/** Loud but sign-flipping every sample, like hiss. */
+function hiss(amplitude: number): Int16Array {
+  const pcm = new Int16Array(CHUNK_SAMPLES);
+  for (let i = 0; i < pcm.length; i++) pcm[i] = (i % 2 ? 1 : -1) * amplitude * 32767;
+  return pcm;
+}
+
+const HANGOVER_CHUNKS = DEFAULT_VAD_CONFIG.hangoverMs / CHUNK_MS;
+const PRE_ROLL_CHUNKS = DEFAULT_VAD_CONFIG.preRollMs / CHUNK_MS;
+
+describe('VoiceActivityGate', () => {
+  it('holds silence back and opens on speech with the pre-roll in front', () => {
+    const gate = new VoiceActivityGate();
+    const quiet = Array.from({ length: 5 }, silence);
+    for (const chunk of quiet) {
+      expect(gate.push(chunk)).toEqual({ speaking: false, emit: [], ended: false });
+    }
+
+    const voice = tone(0.3);
+    const onset = gate.push(voice);
+    expect(onset.speaking).toBe(true);
+    expect(onset.ended).toBe(false);
+    expect(onset.emit).toEqual([...quiet.slice(-PRE_ROLL_CHUNKS), voice]);
+    expect(onset.emit[0]).toBe(quiet[quiet.length - PRE_ROLL_CHUNKS]);
+    expect(gate.speaking).toBe(true);
+
+    // Once open, chunks go up one at a time.
+    const next = tone(0.3);
+    expect(gate.push(next).emit).toEqual([next]);
+  });
+
+  it('ignores quiet tones and hiss', () => {
+    const gate = new VoiceActivityGate();
+    expect(gate.push(tone(0.005)).speaking).toBe(false);
+    expect(gate.push(hiss(0.3)).speaking).toBe(false);
+    expect(gate.speaking).toBe(false);
+  });
+
+  it('keeps sending through the hangover after speech stops', () => {
+    const gate = new VoiceActivityGate();
+    gate.push(tone(0.3));
+    for (let i = 0; i < HANGOVER_CHUNKS; i++) {
+      const pause = silence();
+      expect(gate.push(pause)).toEqual({ speaking: true, emit: [pause], ended: false });
+    }
+  });
+
+  it('ends speech once, on the first chunk past the hangover', () => {
+    const gate = new VoiceActivityGate();
+    gate.push(tone(0.3));
+    for (let i = 0; i < HANGOVER_CHUNKS; i++) gate.push(silence());
+
+    expect(gate.push(silence())).toEqual({ speaking: false, emit: [], ended: true });
+    expect(gate.speaking).toBe(false);
+    expect(gate.push(silence())).toEqual({ speaking: false, emit: [], ended: false });
+  });
+
+  it('restarts the hangover when speech resumes within it', () => {
+    const gate = new VoiceActivityGate();
+    gate.push(tone(0.3));
+    for (let i = 0; i < HANGOVER_CHUNKS - 1; i++) gate.push(silence());
+    expect(gate.push(tone(0.3)).speaking).toBe(true);
+    for (let i = 0; i < HANGOVER_CHUNKS; i++) expect(gate.push(silence()).ended).toBe(false);
+    expect(gate.push(silence()).ended).toBe(true);
+  });
+
+  it('passes everything through when disabled', () => {
+    const gate = new VoiceActivityGate({ ...DEFAULT_VAD_CONFIG, enabled: false });
+    const chunk = silence();
+    expect(gate.push(chunk)).toEqual({ speaking: true, emit: [chunk], ended: false });
+  });
+
+  it('forgets the pre-roll and closes on reset', () => {
+    const gate = new VoiceActivityGate();
+    gate.push(silence());
+    gate.push(tone(0.3));
+    gate.reset();
+    expect(gate.speaking).toBe(false);
+    const voice = tone(0.3);
+    expect(gate.push(voice).emit).toEqual([voice]);
+  });
+});
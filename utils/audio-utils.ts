@@ -37,15 +37,191 @@ export async function decodeAudioData(
   return buffer;
 }
 
-export function createBlobFromAudioData(data: Float32Array): { data: string; mimeType: string } {
+export const MODEL_INPUT_SAMPLE_RATE = 16000;
+
+export function float32ToInt16(data: Float32Array): Int16Array {
   const l = data.length;
   const int16 = new Int16Array(l);
   for (let i = 0; i < l; i++) {
-    // Exact PCM 16-bit multiplier as per spec
-    int16[i] = data[i] * 32768;
+    // Clip first: 1.0 * 32768 would wrap to -32768.
+    const s = Math.max(-1, Math.min(1, data[i]));
+    int16[i] = s < 0 ? s * 0x8000 : s * 0x7fff;
+  }
+  return int16;
+}
+
+/**
+ * Streaming linear-interpolation resampler. Keeps the fractional read
+ * position and the last input sample between calls so chunk boundaries
+ * don't click. The capture AudioWorklet carries a copy of this logic
+ * (see utils/mic-capture.ts).
+ */
+export class LinearResampler {
+  private readonly step: number;
+  private position = 0;
+  private last = 0;
+
+  constructor(readonly fromRate: number, readonly toRate: number) {
+    this.step = fromRate / toRate;
+  }
+
+  process(input: Float32Array): Float32Array {
+    if (this.fromRate === this.toRate) return input.slice();
+    const out: number[] = [];
+    // position is relative to input[0]; -1 refers to the previous chunk's last sample.
+    let pos = this.position;
+    while (pos < input.length - 1) {
+      const i = Math.floor(pos);
+      const frac = pos - i;
+      const a = i < 0 ? this.last : input[i];
+      const b = input[i + 1];
+      out.push(a + (b - a) * frac);
+      pos += this.step;
+    }
+    this.position = pos - input.length;
+    if (input.length > 0) this.last = input[input.length - 1];
+    return Float32Array.from(out);
   }
+}
+
+export function createBlobFromPCM16(pcm: Int16Array, sampleRate: number = MODEL_INPUT_SAMPLE_RATE): { data: string; mimeType: string } {
   return {
-    data: encode(new Uint8Array(int16.buffer)),
-    mimeType: 'audio/pcm;rate=16000',
+    data: encode(new Uint8Array(pcm.buffer, pcm.byteOffset, pcm.byteLength)),
+    mimeType: `audio/pcm;rate=${sampleRate}`,
   };
 }
+
+export function createBlobFromAudioData(data: Float32Array, sampleRate: number = MODEL_INPUT_SAMPLE_RATE): { data: string; mimeType: string } {
+  return createBlobFromPCM16(float32ToInt16(data), sampleRate);
+}
+
+/** Root-mean-square level of a PCM16 frame, 0-1. */
+export function frameRms(pcm: Int16Array): number {
+  if (pcm.length === 0) return 0;
+  let sum = 0;
+  for (let i = 0; i < pcm.length; i++) {
+    const s = pcm[i] / 32768;
+    sum += s * s;
+  }
+  return Math.sqrt(sum / pcm.length);
+}
+
+/** Fraction of adjacent sample pairs that change sign, 0-1. */
+export function zeroCrossingRate(pcm: Int16Array): number {
+  if (pcm.length < 2) return 0;
+  let crossings = 0;
+  for (let i = 1; i < pcm.length; i++) {
+    if ((pcm[i - 1] >= 0) !== (pcm[i] >= 0)) crossings++;
+  }
+  return crossings / (pcm.length - 1);
+}
+
+export interface VadConfig {
+  enabled: boolean;
+  /** Minimum RMS (0-1) for a frame to count as speech. */
+  energyThreshold: number;
+  /** Speech must also clear the tracked noise floor by this factor. */
+  noiseFactor: number;
+  /** Frames with a higher zero-crossing rate are treated as hiss, not voice. */
+  maxZeroCrossingRate: number;
+  /** Audio kept from before speech onset so the first syllable isn't clipped. */
+  preRollMs: number;
+  /** How long the gate stays open after the last speech frame. */
+  hangoverMs: number;
+}
+
+export const DEFAULT_VAD_CONFIG: VadConfig = {
+  enabled: true,
+  energyThreshold: 0.015,
+  noiseFactor: 2.5,
+  maxZeroCrossingRate: 0.35,
+  preRollMs: 300,
+  hangoverMs: 700,
+};
+
+export interface VadResult {
+  speaking: boolean;
+  /** Chunks to send upstream, oldest first (pre-roll plus the current chunk). */
+  emit: Int16Array[];
+  /** True on the chunk where the gate closes after hangover. */
+  ended: boolean;
+}
+
+/**
+ * Energy + zero-crossing voice activity gate over PCM16 chunks. Silence is
+ * held back in a short pre-roll ring; speech opens the gate and flushes it.
+ */
+export class VoiceActivityGate {
+  private preRoll: Int16Array[] = [];
+  private preRollSamples = 0;
+  private silentSamples = 0;
+  private open = false;
+  private noiseFloor: number;
+
+  constructor(private config: VadConfig = DEFAULT_VAD_CONFIG, private readonly sampleRate: number = MODEL_INPUT_SAMPLE_RATE) {
+    this.noiseFloor = config.energyThreshold / config.noiseFactor;
+  }
+
+  get speaking(): boolean {
+    return this.open;
+  }
+
+  configure(config: VadConfig) {
+    this.config = config;
+  }
+
+  isSpeechFrame(pcm: Int16Array): boolean {
+    const rms = frameRms(pcm);
+    const threshold = Math.max(this.config.energyThreshold, this.noiseFloor * this.config.noiseFactor);
+    const speech = rms >= threshold && zeroCrossingRate(pcm) <= this.config.maxZeroCrossingRate;
+    if (!speech) {
+      // Slow-moving floor so steady background noise doesn't hold the gate open.
+      this.noiseFloor = this.noiseFloor * 0.95 + rms * 0.05;
+    }
+    return speech;
+  }
+
+  push(pcm: Int16Array): VadResult {
+    if (!this.config.enabled) return { speaking: true, emit: [pcm], ended: false };
+
+    if (this.isSpeechFrame(pcm)) {
+      this.silentSamples = 0;
+      const emit = this.open ? [pcm] : [...this.preRoll, pcm];
+      this.open = true;
+      this.preRoll = [];
+      this.preRollSamples = 0;
+      return { speaking: true, emit, ended: false };
+    }
+
+    if (this.open) {
+      this.silentSamples += pcm.length;
+      if (this.silentSamples * 1000 / this.sampleRate <= this.config.hangoverMs) {
+        return { speaking: true, emit: [pcm], ended: false };
+      }
+      this.open = false;
+      this.silentSamples = 0;
+      this.bufferPreRoll(pcm);
+      return { speaking: false, emit: [], ended: true };
+    }
+
+    this.bufferPreRoll(pcm);
+    return { speaking: false, emit: [], ended: false };
+  }
+
+  reset() {
+    this.preRoll = [];
+    this.preRollSamples = 0;
+    this.silentSamples = 0;
+    this.open = false;
+    this.noiseFloor = this.config.energyThreshold / this.config.noiseFactor;
+  }
+
+  private bufferPreRoll(pcm: Int16Array) {
+    this.preRoll.push(pcm);
+    this.preRollSamples += pcm.length;
+    const maxSamples = this.config.preRollMs * this.sampleRate / 1000;
+    while (this.preRoll.length > 1 && this.preRollSamples - this.preRoll[0].length >= maxSamples) {
+      this.preRollSamples -= this.preRoll.shift()!.length;
+    }
+  }
+}
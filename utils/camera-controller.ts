@@ -0,0 +1,112 @@
+// Torch and zoom are Image Capture extensions to MediaStreamTrack that the DOM
+// typings don't include yet, so only the members used here are declared.
+interface ZoomRange {
+  min: number;
+  max: number;
+  step: number;
+}
+
+interface ExtendedCapabilities {
+  torch?: boolean;
+  zoom?: ZoomRange;
+}
+
+interface ExtendedSettings {
+  torch?: boolean;
+  zoom?: number;
+}
+
+export interface CameraControlState {
+  torchSupported: boolean;
+  torch: boolean;
+  /** Null when the camera has no zoom control. */
+  zoom: { level: number; min: number; max: number } | null;
+}
+
+export const NO_CAMERA_CONTROLS: CameraControlState = { torchSupported: false, torch: false, zoom: null };
+
+// Most phone cameras report zoom in steps far smaller than anyone would want
+// per button press; this many presses cover the full range.
+const ZOOM_STEPS = 6;
+
+/**
+ * Drives torch and zoom on a live video track through `applyConstraints`,
+ * and tracks what the current track can do. Call `attach` with the new
+ * track after switching cameras.
+ */
+export class CameraController {
+  private track: MediaStreamTrack | null = null;
+  private torch = false;
+  private zoomLevel: number | null = null;
+
+  attach(track: MediaStreamTrack | null) {
+    this.track = track;
+    const settings = (track?.getSettings() ?? {}) as ExtendedSettings;
+    this.torch = !!settings.torch;
+    this.zoomLevel = this.zoomRange ? settings.zoom ?? this.zoomRange.min : null;
+  }
+
+  get state(): CameraControlState {
+    const range = this.zoomRange;
+    return {
+      torchSupported: this.torchSupported,
+      torch: this.torch,
+      zoom: range && this.zoomLevel !== null ? { level: this.zoomLevel, min: range.min, max: range.max } : null,
+    };
+  }
+
+  get torchSupported(): boolean {
+    return !!this.capabilities.torch;
+  }
+
+  /** Resolves to whether the torch is on afterwards. */
+  async setTorch(on: boolean): Promise<boolean> {
+    if (!this.track || !this.torchSupported) return false;
+    await this.track.applyConstraints({ advanced: [{ torch: on } as MediaTrackConstraintSet] });
+    this.torch = on;
+    return on;
+  }
+
+  /** Clamps to the supported range; resolves to the level applied, or null without zoom. */
+  async setZoom(level: number): Promise<number | null> {
+    const range = this.zoomRange;
+    if (!this.track || !range) return null;
+    const stepped = Math.round((level - range.min) / range.step) * range.step + range.min;
+    const clamped = Math.min(range.max, Math.max(range.min, stepped));
+    await this.track.applyConstraints({ advanced: [{ zoom: clamped } as MediaTrackConstraintSet] });
+    this.zoomLevel = clamped;
+    return clamped;
+  }
+
+  /** One button press worth of zoom in (+1) or out (-1). */
+  stepZoom(direction: 1 | -1): Promise<number | null> {
+    const range = this.zoomRange;
+    if (!range || this.zoomLevel === null) return Promise.resolve(null);
+    return this.setZoom(this.zoomLevel + direction * Math.max(range.step, (range.max - range.min) / ZOOM_STEPS));
+  }
+
+  /** Video input device ids in the order the browser lists them. */
+  async listLenses(): Promise<string[]> {
+    if (typeof navigator === 'undefined' || !navigator.mediaDevices?.enumerateDevices) return [];
+    const devices = await navigator.mediaDevices.enumerateDevices();
+    return devices.filter(d => d.kind === 'videoinput' && d.deviceId).map(d => d.deviceId);
+  }
+
+  /** The lens after the current one, wrapping around; null with a single camera. */
+  async nextLens(): Promise<string | null> {
+    const ids = await this.listLenses();
+    if (ids.length < 2) return null;
+    const current = this.track?.getSettings().deviceId;
+    return ids[(ids.indexOf(current ?? '') + 1) % ids.length];
+  }
+
+  private get capabilities(): ExtendedCapabilities {
+    const track = this.track;
+    return track && typeof track.getCapabilities === 'function' ? track.getCapabilities() as ExtendedCapabilities : {};
+  }
+
+  private get zoomRange(): ZoomRange | null {
+    const zoom = this.capabilities.zoom;
+    return zoom && zoom.max > zoom.min ? { ...zoom, step: zoom.step || 0.1 } : null;
+  }
+}
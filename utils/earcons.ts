@@ -0,0 +1,28 @@
+export type Earcon = 'ack' | 'error';
+
+// Short tone sequences: rising pair = done, falling pair = not understood/unavailable.
+const EARCON_TONES: Record<Earcon, { frequency: number; offset: number }[]> = {
+  ack: [{ frequency: 880, offset: 0 }, { frequency: 1320, offset: 0.07 }],
+  error: [{ frequency: 440, offset: 0 }, { frequency: 330, offset: 0.1 }],
+};
+
+const TONE_DURATION = 0.06;
+
+/** Plays a local acknowledgement blip, independent of the model's audio. */
+export function playEarcon(ctx: BaseAudioContext, earcon: Earcon, destination: AudioNode = ctx.destination, volume = 0.25) {
+  const start = ctx.currentTime + 0.01;
+  EARCON_TONES[earcon].forEach(({ frequency, offset }) => {
+    const osc = ctx.createOscillator();
+    const gain = ctx.createGain();
+    const at = start + offset;
+    osc.type = 'sine';
+    osc.frequency.value = frequency;
+    gain.gain.setValueAtTime(0, at);
+    gain.gain.linearRampToValueAtTime(volume, at + 0.005);
+    gain.gain.exponentialRampToValueAtTime(0.001, at + TONE_DURATION);
+    osc.connect(gain);
+    gain.connect(destination);
+    osc.start(at);
+    osc.stop(at + TONE_DURATION + 0.02);
+  });
+}
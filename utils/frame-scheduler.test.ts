@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { AdaptiveFrameScheduler, DEFAULT_FRAME_SCHEDULER_CONFIG, frameDifference, FrameSchedulerConfig } from './frame-scheduler';
+
+const config = (patch: Partial<FrameSchedulerConfig> = {}): FrameSchedulerConfig => ({ ...DEFAULT_FRAME_SCHEDULER_CONFIG, ...patch });
+
+// Clearly a new frame, so only backpressure can hold it back.
+const MOVED = 0.5;
+
+describe('frameDifference', () => {
+  it('is 0 for identical frames and 1 for black against white', () => {
+    const black = new Uint8ClampedArray(16).fill(0);
+    const white = new Uint8ClampedArray(16).fill(255);
+    expect(frameDifference(black, black)).toBe(0);
+    expect(frameDifference(black, white)).toBeCloseTo(1);
+    expect(frameDifference(black, new Uint8ClampedArray(8))).toBe(1);
+  });
+});
+
+describe('AdaptiveFrameScheduler', () => {
+  it('sends faster and sharper frames while guiding', () => {
+    const scheduler = new AdaptiveFrameScheduler(config());
+    expect(scheduler.policy('GUIDING')).toMatchObject({ label: 'guide', intervalMs: 250 });
+    expect(scheduler.policy('SCANNING')).toMatchObject({ label: 'still', intervalMs: 1000 });
+    expect(new AdaptiveFrameScheduler(config({ budgetScale: 2 })).policy('GUIDING').intervalMs).toBe(500);
+  });
+
+  it('skips duplicates until the view would go stale', () => {
+    const scheduler = new AdaptiveFrameScheduler(config());
+    expect(scheduler.decide(MOVED, 0)).toEqual({ send: true });
+    scheduler.complete(1000, 0);
+    expect(scheduler.decide(0, 1000)).toEqual({ send: false, reason: 'duplicate' });
+    expect(scheduler.decide(0, 3000)).toEqual({ send: true });
+  });
+
+  it('backs off while frames are still encoding and recovers once they finish', () => {
+    const scheduler = new AdaptiveFrameScheduler(config({ maxPending: 1 }));
+    const normal = scheduler.policy('GUIDING');
+    expect(scheduler.decide(MOVED, 0)).toEqual({ send: true });
+    expect(scheduler.policy('GUIDING')).toMatchObject({ intervalMs: normal.intervalMs * 2, scale: normal.scale * 0.75 });
+    expect(scheduler.decide(MOVED, 10)).toEqual({ send: true });
+    expect(scheduler.decide(MOVED, 20)).toEqual({ send: false, reason: 'backpressure' });
+
+    scheduler.complete(1000, 30);
+    scheduler.complete(1000, 40);
+    expect(scheduler.policy('GUIDING')).toEqual(normal);
+    expect(scheduler.decide(MOVED, 50)).toEqual({ send: true });
+  });
+
+  it('backs off as the socket queue grows and recovers as it drains', () => {
+    const scheduler = new AdaptiveFrameScheduler(config({ maxQueuedBytes: 1000 }));
+    const normal = scheduler.policy('GUIDING');
+    const sendAt = (now: number, queued: number) => {
+      const decision = scheduler.decide(MOVED, now, queued);
+      if (decision.send) scheduler.complete(100, now);
+      return decision;
+    };
+
+    expect(sendAt(0, 400)).toEqual({ send: true });
+    expect(scheduler.policy('GUIDING')).toEqual(normal);
+
+    // Past half the limit the rate halves; past the limit frames are dropped.
+    expect(sendAt(100, 600)).toEqual({ send: true });
+    expect(scheduler.policy('GUIDING').intervalMs).toBe(normal.intervalMs * 2);
+    expect(sendAt(200, 1500)).toEqual({ send: false, reason: 'backpressure' });
+    expect(scheduler.stats('GUIDING', 200)).toMatchObject({ queuedBytes: 1500, framesSent: 2, framesSkipped: 1 });
+
+    expect(sendAt(300, 0)).toEqual({ send: true });
+    expect(scheduler.policy('GUIDING')).toEqual(normal);
+  });
+
+  it('reports the uplink bitrate over its window', () => {
+    const scheduler = new AdaptiveFrameScheduler(config(), 1000);
+    scheduler.decide(MOVED, 0);
+    scheduler.complete(500, 0);
+    scheduler.decide(MOVED, 500);
+    scheduler.complete(500, 500);
+    expect(scheduler.stats('GUIDING', 900).bitrateBps).toBe(8000);
+    expect(scheduler.stats('GUIDING', 1200).bitrateBps).toBe(4000);
+  });
+});
@@ -0,0 +1,169 @@
+import { PerceptionState } from '../types';
+
+export interface FramePolicy {
+  label: 'still' | 'scan' | 'lock' | 'guide';
+  intervalMs: number;
+  /** Fraction of the native video size drawn to the upload canvas. */
+  scale: number;
+  jpegQuality: number;
+}
+
+export interface FrameSchedulerConfig {
+  /** Mean luma difference (0-1) below which a frame counts as a duplicate. */
+  duplicateThreshold: number;
+  /** Difference above which the camera is considered moving. */
+  motionThreshold: number;
+  /** A duplicate is still sent after this long so the model's view doesn't go stale. */
+  maxStaleMs: number;
+  /** Frames still encoding before the scheduler backs off. */
+  maxPending: number;
+  /**
+   * Bytes queued on the live socket before frames are dropped; past half of
+   * this the scheduler already slows down. Audio shares the queue.
+   */
+  maxQueuedBytes: number;
+  /** Multiplies every policy interval (1 = default budget, 2 = half the frames). */
+  budgetScale: number;
+}
+
+export const DEFAULT_FRAME_SCHEDULER_CONFIG: FrameSchedulerConfig = {
+  duplicateThreshold: 0.012,
+  motionThreshold: 0.04,
+  maxStaleMs: 3000,
+  maxPending: 2,
+  maxQueuedBytes: 256 * 1024,
+  budgetScale: 1,
+};
+
+const POLICIES: Record<FramePolicy['label'], FramePolicy> = {
+  still: { label: 'still', intervalMs: 1000, scale: 0.4, jpegQuality: 0.45 },
+  scan: { label: 'scan', intervalMs: 500, scale: 0.5, jpegQuality: 0.5 },
+  lock: { label: 'lock', intervalMs: 400, scale: 0.6, jpegQuality: 0.55 },
+  guide: { label: 'guide', intervalMs: 250, scale: 0.6, jpegQuality: 0.6 },
+};
+
+export const PROBE_WIDTH = 32;
+export const PROBE_HEIGHT = 24;
+
+/** Mean absolute luma difference between two RGBA buffers of equal size, 0-1. */
+export function frameDifference(prev: Uint8ClampedArray, curr: Uint8ClampedArray): number {
+  if (prev.length !== curr.length || curr.length === 0) return 1;
+  let total = 0;
+  for (let i = 0; i < curr.length; i += 4) {
+    const a = prev[i] * 0.299 + prev[i + 1] * 0.587 + prev[i + 2] * 0.114;
+    const b = curr[i] * 0.299 + curr[i + 1] * 0.587 + curr[i + 2] * 0.114;
+    total += Math.abs(a - b);
+  }
+  return total / (curr.length / 4) / 255;
+}
+
+export interface FrameUplinkStats {
+  policy: FramePolicy;
+  motion: number;
+  bitrateBps: number;
+  framesSent: number;
+  framesSkipped: number;
+  pending: number;
+  queuedBytes: number;
+}
+
+export type FrameDecision = { send: false; reason: 'duplicate' | 'backpressure' } | { send: true };
+
+/**
+ * Picks frame rate, size and quality for the video uplink from perception
+ * state, measured camera motion, how many frames are still encoding and how
+ * much is waiting in the socket's send queue.
+ */
+export class AdaptiveFrameScheduler {
+  private motion = 0;
+  private lastSentAt = 0;
+  private pendingCount = 0;
+  private queuedBytes = 0;
+  private sent = 0;
+  private skipped = 0;
+  private readonly samples: { at: number; bytes: number }[] = [];
+
+  constructor(
+    private config: FrameSchedulerConfig = DEFAULT_FRAME_SCHEDULER_CONFIG,
+    private readonly windowMs: number = 5000,
+  ) {}
+
+  configure(config: FrameSchedulerConfig) {
+    this.config = config;
+  }
+
+  policy(perception: PerceptionState): FramePolicy {
+    let base: FramePolicy;
+    if (perception === 'GUIDING') base = POLICIES.guide;
+    else if (perception === 'LOCKING') base = POLICIES.lock;
+    // The still being read was sent on its own; low-res frames would only compete with it.
+    else if (perception === 'READING') base = POLICIES.still;
+    else base = this.motion < this.config.motionThreshold ? POLICIES.still : POLICIES.scan;
+
+    let intervalMs = base.intervalMs * this.config.budgetScale;
+    let scale = base.scale;
+    if (this.pendingCount >= this.config.maxPending || this.queuedBytes >= this.config.maxQueuedBytes / 2) {
+      intervalMs *= 2;
+      scale *= 0.75;
+    }
+    return { ...base, intervalMs, scale };
+  }
+
+  /**
+   * Feeds the latest probe difference and the socket's queued bytes, and
+   * decides whether this frame goes out.
+   */
+  decide(difference: number, now: number, queuedBytes = 0): FrameDecision {
+    // Smooth so a single jolt doesn't flip the policy back and forth.
+    this.motion = this.motion * 0.6 + difference * 0.4;
+    this.queuedBytes = queuedBytes;
+    if (this.pendingCount > this.config.maxPending || queuedBytes > this.config.maxQueuedBytes) {
+      this.skipped++;
+      return { send: false, reason: 'backpressure' };
+    }
+    if (difference < this.config.duplicateThreshold && now - this.lastSentAt < this.config.maxStaleMs) {
+      this.skipped++;
+      return { send: false, reason: 'duplicate' };
+    }
+    this.lastSentAt = now;
+    this.pendingCount++;
+    return { send: true };
+  }
+
+  /** Call once per frame that `decide` approved, with 0 bytes if it failed. */
+  complete(bytes: number, now: number) {
+    this.pendingCount = Math.max(0, this.pendingCount - 1);
+    if (bytes <= 0) return;
+    this.sent++;
+    this.samples.push({ at: now, bytes });
+    this.trim(now);
+  }
+
+  stats(perception: PerceptionState, now: number): FrameUplinkStats {
+    this.trim(now);
+    const bytes = this.samples.reduce((sum, s) => sum + s.bytes, 0);
+    return {
+      policy: this.policy(perception),
+      motion: this.motion,
+      bitrateBps: Math.round((bytes * 8 * 1000) / this.windowMs),
+      framesSent: this.sent,
+      framesSkipped: this.skipped,
+      pending: this.pendingCount,
+      queuedBytes: this.queuedBytes,
+    };
+  }
+
+  reset() {
+    this.motion = 0;
+    this.lastSentAt = 0;
+    this.pendingCount = 0;
+    this.queuedBytes = 0;
+    this.sent = 0;
+    this.skipped = 0;
+    this.samples.length = 0;
+  }
+
+  private trim(now: number) {
+    while (this.samples.length && now - this.samples[0].at > this.windowMs) this.samples.shift();
+  }
+}
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { TargetReport } from '../types';
+import {
+  guidanceReducer,
+  GuidanceEvent,
+  GuidanceState,
+  inferPerceptionFromTranscript,
+  INITIAL_GUIDANCE_STATE,
+  STRUCTURED_GRACE_MS
+} from './guidance';
+
+const target = (confidence: number): TargetReport => ({ label: 'keys', clockDirection: 2, distanceSteps: 3, confidence });
+
+const run = (...events: GuidanceEvent[]): GuidanceState =>
+  events.reduce(guidanceReducer, INITIAL_GUIDANCE_STATE);
+
+const started: GuidanceEvent = { type: 'sessionStarted' };
+
+describe('guidanceReducer', () => {
+  it('scans from the start of a session and goes idle when it ends', () => {
+    expect(run(started).perception).toBe('SCANNING');
+    expect(run(started, { type: 'targetReported', target: target(0.9), at: 1 }, { type: 'sessionEnded' })).toEqual(INITIAL_GUIDANCE_STATE);
+  });
+
+  it('ignores reports while idle', () => {
+    const state = run({ type: 'targetReported', target: target(0.9), at: 1 }, { type: 'targetLost', at: 2 });
+    expect(state).toBe(INITIAL_GUIDANCE_STATE);
+  });
+
+  it('locks on an uncertain sighting and guides on a confident one', () => {
+    const locking = run(started, { type: 'targetReported', target: target(0.5), at: 1000 });
+    expect(locking).toMatchObject({ perception: 'LOCKING', target: target(0.5), lastStructuredAt: 1000 });
+    const guiding = guidanceReducer(locking, { type: 'targetReported', target: target(0.6), at: 2000 });
+    expect(guiding).toMatchObject({ perception: 'GUIDING', lastStructuredAt: 2000 });
+  });
+
+  it('goes back to scanning and drops the target when it is lost', () => {
+    const state = run(started, { type: 'targetReported', target: target(0.9), at: 1000 }, { type: 'targetLost', at: 3000 });
+    expect(state).toMatchObject({ perception: 'SCANNING', target: null, lastStructuredAt: 3000 });
+  });
+
+  it('keeps hazards alongside the target and clears them only when present', () => {
+    const hazard = { description: 'chair leg', clockDirection: 1, severity: 'medium' as const };
+    const withHazard = run(started, { type: 'targetReported', target: target(0.9), at: 1000 }, { type: 'hazardReported', hazard, at: 1500 });
+    expect(withHazard).toMatchObject({ perception: 'GUIDING', hazard, lastStructuredAt: 1500 });
+    const cleared = guidanceReducer(withHazard, { type: 'hazardCleared' });
+    expect(cleared.hazard).toBeNull();
+    expect(guidanceReducer(cleared, { type: 'hazardCleared' })).toBe(cleared);
+  });
+
+  it('holds transcript hints off for the grace period after a structured event', () => {
+    const guiding = run(started, { type: 'targetReported', target: target(0.9), at: 1000 });
+    const early = guidanceReducer(guiding, { type: 'transcriptHint', perception: 'SCANNING', at: 1000 + STRUCTURED_GRACE_MS - 1 });
+    expect(early).toBe(guiding);
+    const late = guidanceReducer(guiding, { type: 'transcriptHint', perception: 'SCANNING', at: 1000 + STRUCTURED_GRACE_MS });
+    expect(late.perception).toBe('SCANNING');
+  });
+
+  it('follows transcript hints when no structured event has arrived', () => {
+    const scanning = run(started);
+    expect(guidanceReducer(scanning, { type: 'transcriptHint', perception: 'SCANNING', at: 1 })).toBe(scanning);
+    expect(guidanceReducer(scanning, { type: 'transcriptHint', perception: 'LOCKING', at: 1 }).perception).toBe('LOCKING');
+  });
+
+  it('pauses guidance while reading and resumes from the target it had', () => {
+    const reading = run(started, { type: 'targetReported', target: target(0.5), at: 1000 }, { type: 'readingStarted' });
+    expect(reading.perception).toBe('READING');
+    const updated = guidanceReducer(reading, { type: 'targetReported', target: target(0.9), at: 2000 });
+    expect(updated).toMatchObject({ perception: 'READING', target: target(0.9) });
+    expect(guidanceReducer(updated, { type: 'targetLost', at: 3000 })).toBe(updated);
+    expect(guidanceReducer(updated, { type: 'transcriptHint', perception: 'SCANNING', at: 99999 })).toBe(updated);
+    expect(guidanceReducer(updated, { type: 'readingFinished' }).perception).toBe('GUIDING');
+    expect(run(started, { type: 'readingStarted' }, { type: 'readingFinished' }).perception).toBe('SCANNING');
+  });
+
+  it('does not start reading while idle', () => {
+    expect(run({ type: 'readingStarted' })).toBe(INITIAL_GUIDANCE_STATE);
+  });
+
+  it('restores a saved state as is', () => {
+    const saved: GuidanceState = { perception: 'LOCKING', target: target(0.5), hazard: null, lastStructuredAt: 42 };
+    expect(run(started, { type: 'stateRestored', state: saved })).toBe(saved);
+  });
+});
+
+describe('inferPerceptionFromTranscript', () => {
+  it('reads only the latest sentence', () => {
+    expect(inferPerceptionFromTranscript('Scanning room. I see it on the table.')).toBe('LOCKING');
+    expect(inferPerceptionFromTranscript('Found them. Turn left and take two steps.')).toBe('GUIDING');
+  });
+
+  it('treats a negated sighting as scanning', () => {
+    expect(inferPerceptionFromTranscript("I can't see your keys yet.")).toBe('SCANNING');
+  });
+
+  it('returns null when nothing matches', () => {
+    expect(inferPerceptionFromTranscript('')).toBeNull();
+    expect(inferPerceptionFromTranscript('Hello there.')).toBeNull();
+  });
+});
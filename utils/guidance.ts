@@ -0,0 +1,110 @@
+import { HazardReport, PerceptionState, TargetReport } from '../types';
+
+export type GuidanceEvent =
+  | { type: 'sessionStarted' }
+  | { type: 'stateRestored'; state: GuidanceState }
+  | { type: 'sessionEnded' }
+  | { type: 'targetReported'; target: TargetReport; at: number }
+  | { type: 'targetLost'; at: number }
+  | { type: 'hazardReported'; hazard: HazardReport; at: number }
+  | { type: 'hazardCleared' }
+  | { type: 'transcriptHint'; perception: PerceptionState; at: number }
+  | { type: 'readingStarted' }
+  | { type: 'readingFinished' };
+
+export interface GuidanceState {
+  perception: PerceptionState;
+  target: TargetReport | null;
+  hazard: HazardReport | null;
+  /** Time of the last structured (tool call) event; 0 if none yet. */
+  lastStructuredAt: number;
+}
+
+export const INITIAL_GUIDANCE_STATE: GuidanceState = {
+  perception: 'IDLE',
+  target: null,
+  hazard: null,
+  lastStructuredAt: 0,
+};
+
+// Below this the target is "probably it" and we stay in LOCKING.
+export const LOCK_CONFIDENCE = 0.6;
+// Transcript keywords are ignored for this long after a structured event.
+export const STRUCTURED_GRACE_MS = 8000;
+
+export function guidanceReducer(state: GuidanceState, event: GuidanceEvent): GuidanceState {
+  switch (event.type) {
+    case 'sessionStarted':
+      return { ...INITIAL_GUIDANCE_STATE, perception: 'SCANNING' };
+    case 'stateRestored':
+      return event.state;
+    case 'sessionEnded':
+      return INITIAL_GUIDANCE_STATE;
+    case 'targetReported':
+      if (state.perception === 'IDLE') return state;
+      return {
+        ...state,
+        perception: state.perception === 'READING' ? 'READING'
+          : event.target.confidence >= LOCK_CONFIDENCE ? 'GUIDING' : 'LOCKING',
+        target: event.target,
+        lastStructuredAt: event.at,
+      };
+    case 'targetLost':
+      if (state.perception === 'IDLE' || state.perception === 'READING') return state;
+      return { ...state, perception: 'SCANNING', target: null, lastStructuredAt: event.at };
+    case 'hazardReported':
+      return { ...state, hazard: event.hazard, lastStructuredAt: event.at };
+    case 'hazardCleared':
+      return state.hazard ? { ...state, hazard: null } : state;
+    case 'transcriptHint':
+      if (state.perception === 'IDLE' || state.perception === 'READING' || state.perception === event.perception) return state;
+      if (state.lastStructuredAt && event.at - state.lastStructuredAt < STRUCTURED_GRACE_MS) return state;
+      return { ...state, perception: event.perception };
+    // Reading is a detour: guidance picks up again from the target it had.
+    case 'readingStarted':
+      if (state.perception === 'IDLE') return state;
+      return { ...state, perception: 'READING' };
+    case 'readingFinished':
+      if (state.perception !== 'READING') return state;
+      return {
+        ...state,
+        perception: !state.target ? 'SCANNING' : state.target.confidence >= LOCK_CONFIDENCE ? 'GUIDING' : 'LOCKING',
+      };
+  }
+}
+
+/** Per-language patterns for the transcript fallback. All are tested against one lower-cased sentence. */
+export interface PerceptionKeywords {
+  /** Splits a transcript into sentences; the last one is inspected. */
+  sentenceBreak: RegExp;
+  /** A sighting word that is negated ("haven't found", "not visible"). Checked first. */
+  negatedSighting: RegExp;
+  scanning: RegExp;
+  locking: RegExp;
+  guiding: RegExp;
+}
+
+export const ENGLISH_PERCEPTION_KEYWORDS: PerceptionKeywords = {
+  sentenceBreak: /(?<=[.!?])\s+/,
+  negatedSighting: /\b(haven'?t|have not|can'?t|cannot|not|no longer|don'?t|didn'?t)\b[^.!?]{0,20}\b(found|see|see it|spot(ted)?|acquired)\b/,
+  scanning: /\b(scanning|lost sight|looking)\b/,
+  locking: /\b(found|acquired|see it)\b/,
+  guiding: /\b(steps?|move|turn|left|right|ahead|o'?clock)\b/,
+};
+
+/**
+ * Keyword fallback for models that answer without calling the report tools.
+ * Only the latest sentence is considered so early words don't pin the state.
+ */
+export function inferPerceptionFromTranscript(
+  transcript: string,
+  keywords: PerceptionKeywords = ENGLISH_PERCEPTION_KEYWORDS,
+): PerceptionState | null {
+  const sentences = transcript.toLowerCase().split(keywords.sentenceBreak).filter(s => s.trim());
+  const lower = sentences[sentences.length - 1] ?? '';
+  if (!lower) return null;
+  if (keywords.negatedSighting.test(lower) || keywords.scanning.test(lower)) return 'SCANNING';
+  if (keywords.locking.test(lower)) return 'LOCKING';
+  if (keywords.guiding.test(lower)) return 'GUIDING';
+  return null;
+}
@@ -0,0 +1,80 @@
+import { GuidanceState } from './guidance';
+
+export type HapticEvent = 'SCANNING' | 'LOCKING' | 'GUIDING' | 'READING' | 'TARGET_LOST' | 'HAZARD';
+
+export type HapticIntensity = 'off' | 'low' | 'medium' | 'high';
+
+export const HAPTIC_INTENSITIES: HapticIntensity[] = ['off', 'low', 'medium', 'high'];
+
+export interface HapticSettings {
+  enabled: boolean;
+  intensity: HapticIntensity;
+}
+
+export const DEFAULT_HAPTIC_SETTINGS: HapticSettings = { enabled: true, intensity: 'medium' };
+
+// Vibrate/pause durations in ms at "medium". Shapes are chosen to be told
+// apart by feel: one long = scanning, rising pair = locking, triple = guiding.
+export const HAPTIC_PATTERNS: Record<HapticEvent, number[]> = {
+  SCANNING: [200],
+  LOCKING: [60, 80, 120],
+  GUIDING: [50, 50, 50, 50, 50],
+  READING: [120, 60, 40],
+  TARGET_LOST: [300, 100, 300],
+  HAZARD: [500, 100, 500, 100, 500],
+};
+
+const INTENSITY_SCALE: Record<HapticIntensity, number> = { off: 0, low: 0.5, medium: 1, high: 1.6 };
+
+/** Scales the vibrate segments of a pattern; pauses keep their length. */
+export function scalePattern(pattern: number[], intensity: HapticIntensity): number[] {
+  const scale = INTENSITY_SCALE[intensity];
+  return pattern.map((ms, i) => (i % 2 === 0 ? Math.round(ms * scale) : ms));
+}
+
+export function isHapticsSupported(): boolean {
+  return typeof navigator !== 'undefined' && typeof navigator.vibrate === 'function';
+}
+
+/** Which cue, if any, a guidance transition should produce. Hazards win over state changes. */
+export function hapticEventForTransition(prev: GuidanceState, next: GuidanceState): HapticEvent | null {
+  if (next.hazard && next.hazard !== prev.hazard) return 'HAZARD';
+  if (prev.perception === next.perception) return null;
+  if (next.perception === 'SCANNING' && (prev.perception === 'LOCKING' || prev.perception === 'GUIDING')) {
+    return 'TARGET_LOST';
+  }
+  // Leaving a read returns to whatever guidance was doing; no need to buzz again.
+  if (next.perception === 'IDLE' || prev.perception === 'READING') return null;
+  return next.perception;
+}
+
+export interface Haptics {
+  readonly supported: boolean;
+  play(event: HapticEvent): void;
+  cancel(): void;
+}
+
+export function createHaptics(getSettings: () => HapticSettings): Haptics {
+  if (!isHapticsSupported()) {
+    return { supported: false, play: () => {}, cancel: () => {} };
+  }
+  return {
+    supported: true,
+    play: (event) => {
+      const settings = getSettings();
+      if (!settings.enabled || settings.intensity === 'off') return;
+      navigator.vibrate(scalePattern(HAPTIC_PATTERNS[event], settings.intensity));
+    },
+    cancel: () => navigator.vibrate(0),
+  };
+}
+
+const STORAGE_KEY = 'visionguide.haptics';
+
+export function loadHapticSettings(): HapticSettings {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (raw) return { ...DEFAULT_HAPTIC_SETTINGS, ...JSON.parse(raw) };
+  } catch {}
+  return DEFAULT_HAPTIC_SETTINGS;
+}
@@ -0,0 +1,135 @@
+export type LocalHazardLevel = 'OFF' | 'CLEAR' | 'CAUTION' | 'STOP';
+
+export type HazardSensitivity = 'low' | 'medium' | 'high';
+
+export interface HazardDetectorConfig {
+  /** Gradient magnitude (0-255 luma units) that counts a pixel as an edge. */
+  edgeThreshold: number;
+  /** Floor edge density must sit at least this far above its running baseline. */
+  riseThreshold: number;
+  /** Mean luma change (0-1) in the floor region that counts as something moving in. */
+  changeThreshold: number;
+  /** Consecutive flagged frames before CAUTION escalates to STOP. */
+  minFrames: number;
+  /** Minimum gap between spoken warnings. */
+  cooldownMs: number;
+}
+
+// Lower sensitivity trades missed detections for fewer false alarms.
+export const HAZARD_SENSITIVITY_PRESETS: Record<HazardSensitivity, HazardDetectorConfig> = {
+  low: { edgeThreshold: 70, riseThreshold: 0.12, changeThreshold: 0.14, minFrames: 4, cooldownMs: 6000 },
+  medium: { edgeThreshold: 60, riseThreshold: 0.08, changeThreshold: 0.1, minFrames: 3, cooldownMs: 4000 },
+  high: { edgeThreshold: 50, riseThreshold: 0.05, changeThreshold: 0.07, minFrames: 2, cooldownMs: 3000 },
+};
+
+export const ANALYSIS_WIDTH = 64;
+export const ANALYSIS_HEIGHT = 48;
+
+// The walking path: lower 40% of the frame, middle 60% horizontally.
+const FLOOR_TOP = 0.6;
+const FLOOR_LEFT = 0.2;
+const FLOOR_RIGHT = 0.8;
+
+export function toGrayscale(rgba: Uint8ClampedArray): Float32Array {
+  const gray = new Float32Array(rgba.length / 4);
+  for (let i = 0, p = 0; i < rgba.length; i += 4, p++) {
+    gray[p] = rgba[i] * 0.299 + rgba[i + 1] * 0.587 + rgba[i + 2] * 0.114;
+  }
+  return gray;
+}
+
+export interface FloorMetrics {
+  /** Fraction of floor-region pixels that are edges, 0-1. */
+  edgeDensity: number;
+  /** Mean absolute luma change in the floor region vs the previous frame, 0-1. */
+  change: number;
+}
+
+/** Edge density and frame-to-frame change over the floor region of a grayscale frame. */
+export function floorMetrics(
+  gray: Float32Array,
+  prev: Float32Array | null,
+  width: number,
+  height: number,
+  edgeThreshold: number,
+): FloorMetrics {
+  const y0 = Math.max(1, Math.floor(height * FLOOR_TOP));
+  const x0 = Math.max(1, Math.floor(width * FLOOR_LEFT));
+  const x1 = Math.min(width - 1, Math.ceil(width * FLOOR_RIGHT));
+  let edges = 0;
+  let diff = 0;
+  let count = 0;
+  for (let y = y0; y < height - 1; y++) {
+    for (let x = x0; x < x1; x++) {
+      const i = y * width + x;
+      const gx = gray[i + 1] - gray[i - 1];
+      const gy = gray[i + width] - gray[i - width];
+      if (Math.abs(gx) + Math.abs(gy) > edgeThreshold) edges++;
+      if (prev) diff += Math.abs(gray[i] - prev[i]);
+      count++;
+    }
+  }
+  if (count === 0) return { edgeDensity: 0, change: 0 };
+  return { edgeDensity: edges / count, change: prev ? diff / count / 255 : 0 };
+}
+
+export interface HazardAssessment {
+  level: LocalHazardLevel;
+  metrics: FloorMetrics;
+  /** True when this frame should trigger a spoken warning. */
+  warn: boolean;
+}
+
+/**
+ * On-device floor watcher. Flags frames where the walking path suddenly gains
+ * structure (edges above the running baseline) or something moves into it,
+ * and escalates to STOP once that persists for `minFrames`.
+ */
+export class LocalHazardDetector {
+  private baseline: number | null = null;
+  private prev: Float32Array | null = null;
+  private flagged = 0;
+  private lastWarnAt = -Infinity;
+  private level: LocalHazardLevel = 'CLEAR';
+
+  constructor(private config: HazardDetectorConfig = HAZARD_SENSITIVITY_PRESETS.medium) {}
+
+  configure(config: HazardDetectorConfig) {
+    this.config = config;
+  }
+
+  get currentLevel(): LocalHazardLevel {
+    return this.level;
+  }
+
+  assess(rgba: Uint8ClampedArray, width: number, height: number, now: number): HazardAssessment {
+    const gray = toGrayscale(rgba);
+    const metrics = floorMetrics(gray, this.prev, width, height, this.config.edgeThreshold);
+    this.prev = gray;
+
+    if (this.baseline === null) {
+      this.baseline = metrics.edgeDensity;
+      return { level: this.level, metrics, warn: false };
+    }
+
+    const rise = metrics.edgeDensity - this.baseline;
+    const flagged = rise > this.config.riseThreshold || metrics.change > this.config.changeThreshold;
+    this.flagged = flagged ? this.flagged + 1 : 0;
+    // Only learn the baseline from unflagged frames so a parked obstacle can't become "normal" instantly.
+    if (!flagged) this.baseline = this.baseline * 0.9 + metrics.edgeDensity * 0.1;
+
+    const previous = this.level;
+    this.level = this.flagged >= this.config.minFrames ? 'STOP' : this.flagged > 0 ? 'CAUTION' : 'CLEAR';
+
+    const warn = this.level === 'STOP' && previous !== 'STOP' && now - this.lastWarnAt >= this.config.cooldownMs;
+    if (warn) this.lastWarnAt = now;
+    return { level: this.level, metrics, warn };
+  }
+
+  reset() {
+    this.baseline = null;
+    this.prev = null;
+    this.flagged = 0;
+    this.level = 'CLEAR';
+  }
+}
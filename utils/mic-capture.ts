@@ -0,0 +1,184 @@
+import { float32ToInt16, LinearResampler, MODEL_INPUT_SAMPLE_RATE } from './audio-utils';
+
+export interface MicCaptureOptions {
+  /** Rate delivered to `onChunk`, regardless of the hardware rate. */
+  targetSampleRate?: number;
+  /** Samples per chunk are `targetSampleRate * batchMs / 1000`. */
+  batchMs?: number;
+  onChunk: (pcm: Int16Array, sampleRate: number) => void;
+}
+
+export interface MicCapture {
+  /** The AudioContext (hardware) rate the mic is captured at. */
+  readonly inputSampleRate: number;
+  readonly mode: 'worklet' | 'script-processor';
+  stop(): void;
+}
+
+const PROCESSOR_NAME = 'vg-pcm-capture';
+
+// Worklet scope can't import modules from the bundle, so this mirrors
+// LinearResampler and float32ToInt16 in audio-utils.ts. Keep them in step.
+const WORKLET_SOURCE = `
+class LinearResampler {
+  constructor(fromRate, toRate) {
+    this.fromRate = fromRate;
+    this.toRate = toRate;
+    this.step = fromRate / toRate;
+    this.position = 0;
+    this.last = 0;
+  }
+
+  process(input) {
+    if (this.fromRate === this.toRate) return input.slice();
+    const out = [];
+    let pos = this.position;
+    while (pos < input.length - 1) {
+      const i = Math.floor(pos);
+      const frac = pos - i;
+      const a = i < 0 ? this.last : input[i];
+      const b = input[i + 1];
+      out.push(a + (b - a) * frac);
+      pos += this.step;
+    }
+    this.position = pos - input.length;
+    if (input.length > 0) this.last = input[input.length - 1];
+    return Float32Array.from(out);
+  }
+}
+
+function float32ToInt16(data) {
+  const int16 = new Int16Array(data.length);
+  for (let i = 0; i < data.length; i++) {
+    const s = Math.max(-1, Math.min(1, data[i]));
+    int16[i] = s < 0 ? s * 0x8000 : s * 0x7fff;
+  }
+  return int16;
+}
+
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const { targetSampleRate, batchSamples } = options.processorOptions;
+    this.resampler = new LinearResampler(sampleRate, targetSampleRate);
+    this.batch = new Float32Array(batchSamples);
+    this.filled = 0;
+    this.active = true;
+    this.port.onmessage = (e) => { if (e.data === 'stop') this.active = false; };
+  }
+
+  process(inputs) {
+    if (!this.active) return false;
+    const channel = inputs[0] && inputs[0][0];
+    if (!channel) return true;
+    const resampled = this.resampler.process(channel);
+    let offset = 0;
+    while (offset < resampled.length) {
+      const n = Math.min(resampled.length - offset, this.batch.length - this.filled);
+      this.batch.set(resampled.subarray(offset, offset + n), this.filled);
+      this.filled += n;
+      offset += n;
+      if (this.filled === this.batch.length) {
+        const pcm = float32ToInt16(this.batch);
+        this.port.postMessage(pcm, [pcm.buffer]);
+        this.filled = 0;
+      }
+    }
+    return true;
+  }
+}
+
+registerProcessor('${PROCESSOR_NAME}', PcmCaptureProcessor);
+`;
+
+const registeredContexts = new WeakSet<BaseAudioContext>();
+
+async function ensureWorklet(ctx: AudioContext): Promise<boolean> {
+  if (!ctx.audioWorklet) return false;
+  if (registeredContexts.has(ctx)) return true;
+  const url = URL.createObjectURL(new Blob([WORKLET_SOURCE], { type: 'application/javascript' }));
+  try {
+    await ctx.audioWorklet.addModule(url);
+    registeredContexts.add(ctx);
+    return true;
+  } catch (err) {
+    console.warn("AudioWorklet unavailable, falling back to ScriptProcessor:", err);
+    return false;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+/**
+ * Captures the mic stream as 16-bit PCM at `targetSampleRate`, resampling from
+ * whatever rate the hardware context runs at. Uses an AudioWorklet where
+ * available so resampling and batching stay off the main thread.
+ */
+export async function startMicCapture(
+  ctx: AudioContext,
+  stream: MediaStream,
+  options: MicCaptureOptions,
+): Promise<MicCapture> {
+  const targetSampleRate = options.targetSampleRate ?? MODEL_INPUT_SAMPLE_RATE;
+  const batchSamples = Math.round(targetSampleRate * (options.batchMs ?? 100) / 1000);
+  const source = ctx.createMediaStreamSource(stream);
+  // Keeps the graph pulling without sending the mic to the speakers.
+  const sink = ctx.createGain();
+  sink.gain.value = 0;
+  sink.connect(ctx.destination);
+
+  if (await ensureWorklet(ctx)) {
+    const node = new AudioWorkletNode(ctx, PROCESSOR_NAME, {
+      numberOfInputs: 1,
+      numberOfOutputs: 1,
+      channelCount: 1,
+      processorOptions: { targetSampleRate, batchSamples },
+    });
+    node.port.onmessage = (e: MessageEvent<Int16Array>) => options.onChunk(e.data, targetSampleRate);
+    source.connect(node);
+    node.connect(sink);
+    return {
+      inputSampleRate: ctx.sampleRate,
+      mode: 'worklet',
+      stop: () => {
+        node.port.postMessage('stop');
+        node.port.onmessage = null;
+        source.disconnect();
+        node.disconnect();
+        sink.disconnect();
+      },
+    };
+  }
+
+  const resampler = new LinearResampler(ctx.sampleRate, targetSampleRate);
+  const processor = ctx.createScriptProcessor(4096, 1, 1);
+  let batch = new Float32Array(batchSamples);
+  let filled = 0;
+  processor.onaudioprocess = (e) => {
+    const resampled = resampler.process(e.inputBuffer.getChannelData(0));
+    let offset = 0;
+    while (offset < resampled.length) {
+      const n = Math.min(resampled.length - offset, batch.length - filled);
+      batch.set(resampled.subarray(offset, offset + n), filled);
+      filled += n;
+      offset += n;
+      if (filled === batch.length) {
+        options.onChunk(float32ToInt16(batch), targetSampleRate);
+        batch = new Float32Array(batchSamples);
+        filled = 0;
+      }
+    }
+  };
+  source.connect(processor);
+  processor.connect(sink);
+  return {
+    inputSampleRate: ctx.sampleRate,
+    mode: 'script-processor',
+    stop: () => {
+      processor.onaudioprocess = null;
+      source.disconnect();
+      processor.disconnect();
+      sink.disconnect();
+    },
+  };
+}
@@ -0,0 +1,11 @@
+import { OfflineAudioContext as NodeOfflineAudioContext } from 'web-audio-api';
+
+/**
+ * A pure-JS OfflineAudioContext for rendering audio graphs under Node in
+ * tests. Its typings differ from the DOM's only in `audioWorklet`, which the
+ * rendered graphs never touch.
+ */
+export function createOfflineContext(channels: number, seconds: number, sampleRate: number): OfflineAudioContext {
+  const ctx = new NodeOfflineAudioContext(channels, Math.round(seconds * sampleRate), sampleRate);
+  return ctx as unknown as OfflineAudioContext;
+}
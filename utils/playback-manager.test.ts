@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import { createOfflineContext } from './offline-audio';
+import { DEFAULT_PLAYBACK_CONFIG, PlaybackConfig, PlaybackManager } from './playback-manager';
+
+const SAMPLE_RATE = 8000;
+
+const offline = (seconds: number) => createOfflineContext(1, seconds, SAMPLE_RATE);
+
+/** A buffer holding a constant level, so the rendered output reads back as gain. */
+function level(ctx: BaseAudioContext, value: number, seconds: number): AudioBuffer {
+  const buffer = ctx.createBuffer(1, Math.round(seconds * SAMPLE_RATE), SAMPLE_RATE);
+  buffer.getChannelData(0).fill(value);
+  return buffer;
+}
+
+const at = (rendered: AudioBuffer, seconds: number) => rendered.getChannelData(0)[Math.round(seconds * SAMPLE_RATE)];
+
+const config = (patch: Partial<PlaybackConfig> = {}): PlaybackConfig => ({ ...DEFAULT_PLAYBACK_CONFIG, rampSeconds: 0.01, ...patch });
+
+describe('PlaybackManager', () => {
+  it('plays guide audio at full level on its own', async () => {
+    const ctx = offline(0.5);
+    const playback = new PlaybackManager(ctx, config());
+    playback.enqueue(level(ctx, 1, 0.4), 'guide');
+    const out = await ctx.startRendering();
+    expect(at(out, 0.2)).toBeCloseTo(1, 2);
+    expect(at(out, 0.45)).toBe(0);
+  });
+
+  it('ducks guide audio while safety audio plays and restores it afterwards', async () => {
+    const ctx = offline(1);
+    const playback = new PlaybackManager(ctx, config());
+    playback.enqueue(level(ctx, 1, 0.9), 'guide');
+    // Silent safety audio so the output carries only the guide channel.
+    playback.enqueue(level(ctx, 0, 0.4), 'safety');
+    const out = await ctx.startRendering();
+    expect(at(out, 0.3)).toBeCloseTo(0.2, 2);
+    expect(at(out, 0.8)).toBeCloseTo(1, 2);
+  });
+
+  it('stops chatter when safety audio arrives', async () => {
+    const ctx = offline(0.5);
+    const playback = new PlaybackManager(ctx, config());
+    playback.enqueue(level(ctx, 1, 0.4), 'chatter');
+    playback.enqueue(level(ctx, 0, 0.1), 'safety');
+    expect(playback.isPlaying('chatter')).toBe(false);
+    const out = await ctx.startRendering();
+    expect(at(out, 0.3)).toBe(0);
+  });
+
+  it('ducks model audio during a barge-in and brings it back on release', async () => {
+    const ctx = offline(1);
+    const playback = new PlaybackManager(ctx, config({ bargeIn: 'duck' }));
+    playback.enqueue(level(ctx, 1, 1), 'guide');
+    ctx.suspend(0.25).then(() => {
+      playback.bargeIn();
+      ctx.suspend(0.6).then(() => { playback.releaseBargeIn(); ctx.resume(); });
+      ctx.resume();
+    });
+    const out = await ctx.startRendering();
+    expect(at(out, 0.2)).toBeCloseTo(1, 2);
+    expect(at(out, 0.5)).toBeCloseTo(0.2, 2);
+    expect(at(out, 0.9)).toBeCloseTo(1, 2);
+  });
+
+  it('cuts model audio off on a barge-in in stop mode but keeps safety audio', async () => {
+    const ctx = offline(1);
+    const playback = new PlaybackManager(ctx, config({ bargeIn: 'stop' }));
+    playback.enqueue(level(ctx, 0.5, 1), 'guide');
+    playback.enqueue(level(ctx, 0.5, 1), 'chatter');
+    ctx.suspend(0.25).then(() => {
+      playback.bargeIn();
+      playback.enqueue(level(ctx, 0.5, 0.5), 'safety');
+      ctx.resume();
+    });
+    const out = await ctx.startRendering();
+    // Before the cut both channels play, the chatter ducked under the guide.
+    expect(at(out, 0.2)).toBeCloseTo(0.5 + 0.5 * 0.2, 2);
+    expect(playback.isPlaying('guide')).toBe(false);
+    expect(playback.isPlaying('chatter')).toBe(false);
+    expect(at(out, 0.5)).toBeCloseTo(0.5, 2);
+    expect(at(out, 0.9)).toBe(0);
+  });
+
+  it('ignores barge-in when it is off', async () => {
+    const ctx = offline(0.5);
+    const playback = new PlaybackManager(ctx, config({ bargeIn: 'off' }));
+    playback.enqueue(level(ctx, 1, 0.5), 'guide');
+    playback.bargeIn();
+    const out = await ctx.startRendering();
+    expect(at(out, 0.3)).toBeCloseTo(1, 2);
+  });
+
+  it('schedules queued audio back to back at the speech rate', async () => {
+    const ctx = offline(1);
+    const playback = new PlaybackManager(ctx, config({ playbackRate: 2 }));
+    playback.enqueue(level(ctx, 0.5, 0.4), 'guide');
+    playback.enqueue(level(ctx, 1, 0.4), 'guide');
+    // 0.8 s of audio at double speed plays in 0.4 s.
+    expect(playback.queuedMs()).toBeCloseTo(400, 5);
+    const out = await ctx.startRendering();
+    expect(at(out, 0.1)).toBeCloseTo(0.5, 2);
+    expect(at(out, 0.3)).toBeCloseTo(1, 2);
+    expect(at(out, 0.45)).toBe(0);
+  });
+
+  it('silences everything when muted', async () => {
+    const ctx = offline(0.5);
+    const playback = new PlaybackManager(ctx, config());
+    playback.enqueue(level(ctx, 1, 0.5), 'safety');
+    playback.setMuted(true);
+    const out = await ctx.startRendering();
+    expect(Math.abs(at(out, 0.3))).toBeLessThan(1e-3);
+  });
+});
@@ -0,0 +1,174 @@
+/** Highest priority first. */
+export const PLAYBACK_CHANNELS = ['safety', 'guide', 'chatter'] as const;
+export type PlaybackChannel = typeof PLAYBACK_CHANNELS[number];
+
+export type BargeInMode = 'off' | 'duck' | 'stop';
+
+export interface PlaybackConfig {
+  /** What happens to model audio when the local VAD hears the user. */
+  bargeIn: BargeInMode;
+  /** Gain multiplier for a ducked channel, 0-1. */
+  duckLevel: number;
+  /** Time constant in seconds for duck and mute ramps. */
+  rampSeconds: number;
+  /** AudioBufferSourceNode playback rate for newly queued audio. */
+  playbackRate: number;
+}
+
+export const DEFAULT_PLAYBACK_CONFIG: PlaybackConfig = {
+  bargeIn: 'duck',
+  duckLevel: 0.2,
+  rampSeconds: 0.05,
+  playbackRate: 1,
+};
+
+interface ChannelState {
+  gain: GainNode;
+  sources: Set<AudioBufferSourceNode>;
+  nextStartTime: number;
+}
+
+const rank = (channel: PlaybackChannel) => PLAYBACK_CHANNELS.indexOf(channel);
+
+/**
+ * Owns the output audio context and schedules model audio gaplessly on
+ * priority channels. Audio on a channel ducks every lower one while it plays,
+ * safety audio stops chatter outright, and local barge-in ducks or stops the
+ * non-safety channels while the user talks. Works on any BaseAudioContext so
+ * it can be rendered with an OfflineAudioContext.
+ */
+export class PlaybackManager {
+  /** Master gain; mute acts here. Route other guide audio (the beacon) into it. */
+  readonly output: GainNode;
+  private readonly channels: Record<PlaybackChannel, ChannelState>;
+  private muted = false;
+  private bargedIn = false;
+
+  constructor(
+    readonly ctx: BaseAudioContext,
+    private config: PlaybackConfig = DEFAULT_PLAYBACK_CONFIG,
+    destination: AudioNode = ctx.destination,
+  ) {
+    this.output = ctx.createGain();
+    this.output.connect(destination);
+    const channel = (): ChannelState => {
+      const gain = ctx.createGain();
+      gain.connect(this.output);
+      return { gain, sources: new Set(), nextStartTime: 0 };
+    };
+    this.channels = { safety: channel(), guide: channel(), chatter: channel() };
+  }
+
+  /** Opens and resumes a live output context at the model's sample rate. */
+  static async open(sampleRate: number, config?: PlaybackConfig): Promise<PlaybackManager> {
+    const ctx = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate });
+    await ctx.resume();
+    return new PlaybackManager(ctx, config);
+  }
+
+  configure(config: PlaybackConfig) {
+    this.config = config;
+    this.applyGains();
+  }
+
+  /** Sends a channel somewhere other than the master gain, e.g. through a panner that ends there. */
+  routeChannel(channel: PlaybackChannel, node: AudioNode) {
+    const { gain } = this.channels[channel];
+    gain.disconnect();
+    gain.connect(node);
+  }
+
+  /** Queues a buffer after whatever is already queued on its channel. */
+  enqueue(buffer: AudioBuffer, channel: PlaybackChannel = 'guide') {
+    if (channel === 'safety') this.stop(['chatter']);
+    const state = this.channels[channel];
+    const rate = this.config.playbackRate;
+    const source = this.ctx.createBufferSource();
+    source.buffer = buffer;
+    source.playbackRate.value = rate;
+    source.connect(state.gain);
+    state.nextStartTime = Math.max(state.nextStartTime, this.ctx.currentTime);
+    source.onended = () => {
+      state.sources.delete(source);
+      if (state.sources.size === 0) this.applyGains();
+    };
+    source.start(state.nextStartTime);
+    state.nextStartTime += buffer.duration / rate;
+    state.sources.add(source);
+    this.applyGains();
+  }
+
+  /** Stops and forgets queued audio on the given channels (all by default). */
+  stop(channels: readonly PlaybackChannel[] = PLAYBACK_CHANNELS) {
+    channels.forEach(channel => {
+      const state = this.channels[channel];
+      state.sources.forEach(source => {
+        source.onended = null;
+        try { source.stop(); } catch {}
+      });
+      state.sources.clear();
+      state.nextStartTime = 0;
+    });
+    this.applyGains();
+  }
+
+  /** The local VAD heard the user start talking. */
+  bargeIn() {
+    if (this.config.bargeIn === 'off') return;
+    if (this.config.bargeIn === 'stop') {
+      this.stop(['guide', 'chatter']);
+      return;
+    }
+    this.bargedIn = true;
+    this.applyGains();
+  }
+
+  /** The user stopped talking; ducked audio comes back up. */
+  releaseBargeIn() {
+    if (!this.bargedIn) return;
+    this.bargedIn = false;
+    this.applyGains();
+  }
+
+  get isMuted(): boolean {
+    return this.muted;
+  }
+
+  setMuted(muted: boolean) {
+    this.muted = muted;
+    this.output.gain.setTargetAtTime(muted ? 0 : 1, this.ctx.currentTime, this.config.rampSeconds);
+  }
+
+  isPlaying(channel?: PlaybackChannel): boolean {
+    return channel
+      ? this.channels[channel].sources.size > 0
+      : PLAYBACK_CHANNELS.some(c => this.channels[c].sources.size > 0);
+  }
+
+  /** Milliseconds of audio scheduled but not yet played, on the longest channel. */
+  queuedMs(): number {
+    const now = this.ctx.currentTime;
+    const ahead = Math.max(...PLAYBACK_CHANNELS.map(c => this.channels[c].nextStartTime - now));
+    return Math.max(0, ahead) * 1000;
+  }
+
+  /** Stops everything and closes the context if it is a live one. */
+  async dispose() {
+    this.stop();
+    this.output.disconnect();
+    if (typeof AudioContext !== 'undefined' && this.ctx instanceof AudioContext && this.ctx.state !== 'closed') {
+      await this.ctx.close();
+    }
+  }
+
+  // A channel is ducked while any higher-priority channel is playing, and the
+  // non-safety channels are ducked during a barge-in.
+  private applyGains() {
+    const now = this.ctx.currentTime;
+    PLAYBACK_CHANNELS.forEach(channel => {
+      const outranked = PLAYBACK_CHANNELS.some(other => rank(other) < rank(channel) && this.isPlaying(other));
+      const ducked = outranked || (this.bargedIn && channel !== 'safety');
+      this.channels[channel].gain.gain.setTargetAtTime(ducked ? this.config.duckLevel : 1, now, this.config.rampSeconds);
+    });
+  }
+}
@@ -0,0 +1,71 @@
+export interface ReconnectPolicy {
+  baseDelayMs: number;
+  maxDelayMs: number;
+  maxRetries: number;
+  /** Fraction of the computed delay randomised in either direction (0 disables jitter). */
+  jitter: number;
+}
+
+export const DEFAULT_RECONNECT_POLICY: ReconnectPolicy = {
+  baseDelayMs: 1000,
+  maxDelayMs: 15000,
+  maxRetries: 5,
+  jitter: 0.3,
+};
+
+/**
+ * Exponential backoff with jitter for the live link. Owns at most one pending
+ * retry timer; `schedule` returns null once the retry budget is spent.
+ */
+export class ReconnectController {
+  private attempts = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    private readonly policy: ReconnectPolicy = DEFAULT_RECONNECT_POLICY,
+    private readonly random: () => number = Math.random,
+  ) {}
+
+  get attempt(): number {
+    return this.attempts;
+  }
+
+  get maxRetries(): number {
+    return this.policy.maxRetries;
+  }
+
+  get pending(): boolean {
+    return this.timer !== null;
+  }
+
+  nextDelay(): number | null {
+    if (this.attempts >= this.policy.maxRetries) return null;
+    const exp = Math.min(this.policy.maxDelayMs, this.policy.baseDelayMs * 2 ** this.attempts);
+    const spread = exp * this.policy.jitter;
+    return Math.max(0, Math.round(exp - spread + this.random() * spread * 2));
+  }
+
+  schedule(task: () => void): number | null {
+    const delay = this.nextDelay();
+    if (delay === null) return null;
+    this.cancel();
+    this.attempts++;
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      task();
+    }, delay);
+    return delay;
+  }
+
+  cancel() {
+    if (this.timer !== null) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  reset() {
+    this.cancel();
+    this.attempts = 0;
+  }
+}
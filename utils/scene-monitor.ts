@@ -0,0 +1,163 @@
+import { toGrayscale } from './hazard-detector';
+
+export type LightLevel = 'dark' | 'normal' | 'glare';
+export type SceneCue = 'dark' | 'glare' | 'lightOk' | 'shaky' | 'blurry';
+
+/** Cues about picture quality, worth mentioning even while the live guide is talking. */
+export const CAMERA_QUALITY_CUES: readonly SceneCue[] = ['dark', 'shaky', 'blurry'];
+
+export interface SceneMonitorConfig {
+  /** Mean luma (0-1) below which the view counts as dark. */
+  darkLuma: number;
+  /** Mean luma above which the view counts as washed out. */
+  glareLuma: number;
+  /** Luma must move this far back past a threshold before the level flips again. */
+  hysteresis: number;
+  /** Smoothed frame-to-frame change (0-1) above which the camera counts as shaky. */
+  shakyMotion: number;
+  /** How long the camera must stay shaky before it is mentioned. */
+  shakyMs: number;
+  /** Mean edge strength (0-1) below which a steady, well-lit view counts as blurry. */
+  blurSharpness: number;
+  /** How long the view must stay blurry before it is mentioned. */
+  blurMs: number;
+  /** Minimum gap between two cues of the same kind. */
+  cooldownMs: number;
+}
+
+export const DEFAULT_SCENE_MONITOR_CONFIG: SceneMonitorConfig = {
+  darkLuma: 0.12,
+  glareLuma: 0.85,
+  hysteresis: 0.04,
+  shakyMotion: 0.09,
+  shakyMs: 2500,
+  blurSharpness: 0.008,
+  blurMs: 3000,
+  cooldownMs: 10000,
+};
+
+export interface SceneSnapshot {
+  light: LightLevel;
+  /** Mean luma, 0-1. */
+  luma: number;
+  /** Smoothed frame-to-frame change, 0-1. */
+  motion: number;
+  steady: boolean;
+  /** Mean Laplacian magnitude, 0-1; low means out of focus or smeared. */
+  sharpness: number;
+}
+
+const INITIAL_SNAPSHOT: SceneSnapshot = { light: 'normal', luma: 0.5, motion: 0, steady: true, sharpness: 1 };
+
+/** Mean absolute 4-neighbour Laplacian over the interior pixels, scaled to 0-1. */
+function laplacianMean(gray: Float32Array, width: number, height: number): number {
+  let sum = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      sum += Math.abs(4 * gray[i] - gray[i - 1] - gray[i + 1] - gray[i - width] - gray[i + width]);
+    }
+  }
+  return sum / ((width - 2) * (height - 2)) / 255;
+}
+
+/** Edge strength of an RGBA frame, 0-1; higher is sharper. */
+export function measureSharpness(rgba: Uint8ClampedArray, width: number, height: number): number {
+  return laplacianMean(toGrayscale(rgba), width, height);
+}
+
+/**
+ * Coarse lighting, camera-shake and focus tracking over small RGBA frames.
+ * Reports a cue only when the level actually changes.
+ */
+export class SceneMonitor {
+  private prev: Float32Array | null = null;
+  private light: LightLevel = 'normal';
+  private motion = 0;
+  private shakySince: number | null = null;
+  private blurrySince: number | null = null;
+  private readonly lastCueAt = new Map<SceneCue, number>();
+  private latest: SceneSnapshot = INITIAL_SNAPSHOT;
+
+  constructor(private config: SceneMonitorConfig = DEFAULT_SCENE_MONITOR_CONFIG) {}
+
+  get snapshot(): SceneSnapshot {
+    return this.latest;
+  }
+
+  configure(config: SceneMonitorConfig) {
+    this.config = config;
+  }
+
+  assess(rgba: Uint8ClampedArray, width: number, height: number, now: number): { snapshot: SceneSnapshot; cue: SceneCue | null } {
+    const gray = toGrayscale(rgba);
+    const pixels = width * height;
+    let sum = 0;
+    let diff = 0;
+    for (let i = 0; i < pixels; i++) {
+      sum += gray[i];
+      if (this.prev) diff += Math.abs(gray[i] - this.prev[i]);
+    }
+    const luma = sum / pixels / 255;
+    const change = this.prev ? diff / pixels / 255 : 0;
+    const sharpness = laplacianMean(gray, width, height);
+    this.prev = gray;
+    this.motion = this.motion * 0.7 + change * 0.3;
+
+    let cue: SceneCue | null = null;
+    const light = this.nextLight(luma);
+    if (light !== this.light) {
+      this.light = light;
+      cue = light === 'normal' ? 'lightOk' : light;
+    }
+
+    const shaky = this.motion > this.config.shakyMotion;
+    if (!shaky) {
+      this.shakySince = null;
+    } else if (this.shakySince === null) {
+      this.shakySince = now;
+    } else if (!cue && now - this.shakySince >= this.config.shakyMs) {
+      cue = 'shaky';
+      this.shakySince = now;
+    }
+
+    // Dark frames and moving ones look soft anyway; those get their own cues.
+    const blurry = !shaky && this.light === 'normal' && sharpness < this.config.blurSharpness;
+    if (!blurry) {
+      this.blurrySince = null;
+    } else if (this.blurrySince === null) {
+      this.blurrySince = now;
+    } else if (!cue && now - this.blurrySince >= this.config.blurMs) {
+      cue = 'blurry';
+      this.blurrySince = now;
+    }
+
+    if (cue && now - (this.lastCueAt.get(cue) ?? -Infinity) < this.config.cooldownMs) cue = null;
+    if (cue) this.lastCueAt.set(cue, now);
+
+    this.latest = { light: this.light, luma, motion: this.motion, steady: !shaky, sharpness };
+    return { snapshot: this.latest, cue };
+  }
+
+  reset() {
+    this.prev = null;
+    this.light = 'normal';
+    this.motion = 0;
+    this.shakySince = null;
+    this.blurrySince = null;
+    this.lastCueAt.clear();
+    this.latest = INITIAL_SNAPSHOT;
+  }
+
+  private nextLight(luma: number): LightLevel {
+    const { darkLuma, glareLuma, hysteresis } = this.config;
+    switch (this.light) {
+      case 'dark':
+        return luma > darkLuma + hysteresis ? (luma > glareLuma ? 'glare' : 'normal') : 'dark';
+      case 'glare':
+        return luma < glareLuma - hysteresis ? (luma < darkLuma ? 'dark' : 'normal') : 'glare';
+      default:
+        return luma < darkLuma ? 'dark' : luma > glareLuma ? 'glare' : 'normal';
+    }
+  }
+}
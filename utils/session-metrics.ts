@@ -0,0 +1,164 @@
+export type FrameDropReason = 'backpressure' | 'failed';
+
+export interface LatencySummary {
+  lastMs: number | null;
+  medianMs: number | null;
+  p95Ms: number | null;
+  samples: number;
+}
+
+export interface SessionMetricsSnapshot {
+  /** performance.now() time the snapshot was taken. */
+  at: number;
+  framesSent: number;
+  /** Frames the scheduler wanted but that never reached the link. */
+  framesDropped: number;
+  /** Frames skipped on purpose because the view hadn't changed. */
+  framesDeduped: number;
+  /** Upstream payload rates over the recent window, as sent on the socket. */
+  audioBytesPerSec: number;
+  videoBytesPerSec: number;
+  /** User speech end to the first model audio chunk of the reply. */
+  responseLatency: LatencySummary;
+  /** Model audio scheduled but not yet played. */
+  playbackQueueMs: number;
+  interruptions: number;
+  reconnectAttempts: number;
+  reconnects: number;
+}
+
+export interface SessionMetricsExport {
+  version: 1;
+  startedAt: number;
+  exportedAt: number;
+  userAgent: string;
+  summary: SessionMetricsSnapshot;
+  responseLatenciesMs: number[];
+  /** One snapshot per `sample` call, oldest first, capped at MAX_TIMELINE. */
+  timeline: SessionMetricsSnapshot[];
+}
+
+const MAX_TIMELINE = 3600;
+const MAX_LATENCIES = 1000;
+
+function percentile(sorted: number[], p: number): number | null {
+  if (sorted.length === 0) return null;
+  return sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+}
+
+/**
+ * Counters and rates for one guide session. Everything is fed from the call
+ * sites that actually send, receive or play data, so the numbers describe
+ * what went over the wire rather than what was intended.
+ */
+export class SessionMetrics {
+  private framesSent = 0;
+  private framesDropped = 0;
+  private framesDeduped = 0;
+  private interruptions = 0;
+  private reconnectAttempts = 0;
+  private reconnects = 0;
+  private readonly audioSamples: { at: number; bytes: number }[] = [];
+  private readonly videoSamples: { at: number; bytes: number }[] = [];
+  private readonly latencies: number[] = [];
+  private speechEndedAt: number | null = null;
+  private readonly timeline: SessionMetricsSnapshot[] = [];
+
+  constructor(
+    readonly startedAt: number = Date.now(),
+    private readonly windowMs: number = 5000,
+  ) {}
+
+  recordAudioSent(bytes: number, now: number) {
+    this.audioSamples.push({ at: now, bytes });
+    this.trim(this.audioSamples, now);
+  }
+
+  recordFrameSent(bytes: number, now: number) {
+    this.framesSent++;
+    this.videoSamples.push({ at: now, bytes });
+    this.trim(this.videoSamples, now);
+  }
+
+  recordFrameSkipped(reason: FrameDropReason | 'duplicate') {
+    if (reason === 'duplicate') this.framesDeduped++;
+    else this.framesDropped++;
+  }
+
+  /** The local VAD saw the user stop talking. */
+  markSpeechEnd(now: number) {
+    this.speechEndedAt = now;
+  }
+
+  /** A model audio chunk arrived; only the first one after speech end counts. */
+  markModelAudio(now: number) {
+    if (this.speechEndedAt === null) return;
+    this.latencies.push(now - this.speechEndedAt);
+    if (this.latencies.length > MAX_LATENCIES) this.latencies.shift();
+    this.speechEndedAt = null;
+  }
+
+  recordInterruption() {
+    this.interruptions++;
+  }
+
+  recordReconnectAttempt() {
+    this.reconnectAttempts++;
+    // A reply can't arrive over a dead link, so don't count the outage as latency.
+    this.speechEndedAt = null;
+  }
+
+  recordReconnected() {
+    this.reconnects++;
+  }
+
+  snapshot(now: number, playbackQueueMs: number): SessionMetricsSnapshot {
+    this.trim(this.audioSamples, now);
+    this.trim(this.videoSamples, now);
+    const rate = (samples: { bytes: number }[]) =>
+      Math.round(samples.reduce((sum, s) => sum + s.bytes, 0) * 1000 / this.windowMs);
+    const sorted = [...this.latencies].sort((a, b) => a - b);
+    return {
+      at: now,
+      framesSent: this.framesSent,
+      framesDropped: this.framesDropped,
+      framesDeduped: this.framesDeduped,
+      audioBytesPerSec: rate(this.audioSamples),
+      videoBytesPerSec: rate(this.videoSamples),
+      responseLatency: {
+        lastMs: this.latencies.length ? Math.round(this.latencies[this.latencies.length - 1]) : null,
+        medianMs: percentile(sorted, 0.5),
+        p95Ms: percentile(sorted, 0.95),
+        samples: sorted.length,
+      },
+      playbackQueueMs: Math.max(0, Math.round(playbackQueueMs)),
+      interruptions: this.interruptions,
+      reconnectAttempts: this.reconnectAttempts,
+      reconnects: this.reconnects,
+    };
+  }
+
+  /** Takes a snapshot and keeps it for the exported timeline. */
+  sample(now: number, playbackQueueMs: number): SessionMetricsSnapshot {
+    const snapshot = this.snapshot(now, playbackQueueMs);
+    this.timeline.push(snapshot);
+    if (this.timeline.length > MAX_TIMELINE) this.timeline.shift();
+    return snapshot;
+  }
+
+  export(now: number, playbackQueueMs = 0): SessionMetricsExport {
+    return {
+      version: 1,
+      startedAt: this.startedAt,
+      exportedAt: Date.now(),
+      userAgent: typeof navigator === 'undefined' ? '' : navigator.userAgent,
+      summary: this.snapshot(now, playbackQueueMs),
+      responseLatenciesMs: this.latencies.map(Math.round),
+      timeline: [...this.timeline],
+    };
+  }
+
+  private trim(samples: { at: number }[], now: number) {
+    while (samples.length && now - samples[0].at > this.windowMs) samples.shift();
+  }
+}
@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import { createOfflineContext } from './offline-audio';
+import { beaconTiming, clockToAzimuth, DEFAULT_SPATIAL_AUDIO_CONFIG, SpatialAudioConfig, SpatialBeacon } from './spatial-audio';
+
+const SAMPLE_RATE = 44100;
+const SECONDS = 0.5;
+
+const config = (patch: Partial<SpatialAudioConfig> = {}): SpatialAudioConfig => ({ ...DEFAULT_SPATIAL_AUDIO_CONFIG, ...patch });
+
+const rms = (samples: Float32Array) => Math.sqrt(samples.reduce((sum, s) => sum + s * s, 0) / samples.length);
+
+/** Renders the beacon's beeps for a target at `clock` and returns each channel's RMS. */
+async function renderBeacon(clock: number, patch: Partial<SpatialAudioConfig> = {}) {
+  const ctx = createOfflineContext(2, SECONDS, SAMPLE_RATE);
+  const beacon = new SpatialBeacon(ctx, config(patch));
+  beacon.setTarget(clock, 2);
+  beacon.scheduleUntil(SECONDS);
+  const rendered = await ctx.startRendering();
+  return { left: rms(rendered.getChannelData(0)), right: rms(rendered.getChannelData(1)) };
+}
+
+/** Plays a constant mono signal through the voice panner and returns the level on each side. */
+async function renderVoice(clock: number, patch: Partial<SpatialAudioConfig> = {}) {
+  const ctx = createOfflineContext(2, SECONDS, SAMPLE_RATE);
+  const beacon = new SpatialBeacon(ctx, config(patch));
+  beacon.setTarget(clock, null);
+  const buffer = ctx.createBuffer(1, Math.round(SECONDS * SAMPLE_RATE), SAMPLE_RATE);
+  buffer.getChannelData(0).fill(0.5);
+  const source = ctx.createBufferSource();
+  source.buffer = buffer;
+  source.connect(beacon.voiceInput);
+  source.start(0);
+  const rendered = await ctx.startRendering();
+  const middle = Math.round(SECONDS * SAMPLE_RATE / 2);
+  return { left: rendered.getChannelData(0)[middle], right: rendered.getChannelData(1)[middle] };
+}
+
+describe('clockToAzimuth', () => {
+  it('puts 12 ahead, 3 to the right and 9 to the left', () => {
+    expect(clockToAzimuth(12)).toBe(0);
+    expect(clockToAzimuth(3)).toBeCloseTo(Math.PI / 2);
+    expect(clockToAzimuth(9)).toBeCloseTo(-Math.PI / 2);
+    expect(Math.abs(clockToAzimuth(6))).toBeCloseTo(Math.PI);
+  });
+});
+
+describe('beaconTiming', () => {
+  it('beeps higher and faster as the target gets closer', () => {
+    expect(beaconTiming(1).frequency).toBe(880);
+    expect(beaconTiming(1).interval).toBeCloseTo(0.2);
+    expect(beaconTiming(10)).toMatchObject({ frequency: 440, interval: 1 });
+    expect(beaconTiming(null)).toEqual(beaconTiming(10));
+    expect(beaconTiming(0)).toEqual(beaconTiming(1));
+  });
+});
+
+describe('SpatialBeacon', () => {
+  it('places a right-hand target in the right ear', async () => {
+    const { left, right } = await renderBeacon(3);
+    expect(right).toBeGreaterThan(0);
+    expect(right).toBeGreaterThan(left * 2);
+  });
+
+  it('places a left-hand target in the left ear', async () => {
+    const { left, right } = await renderBeacon(9);
+    expect(left).toBeGreaterThan(0);
+    expect(left).toBeGreaterThan(right * 2);
+  });
+
+  it('keeps a target straight ahead balanced', async () => {
+    const { left, right } = await renderBeacon(12);
+    expect(left).toBeGreaterThan(0);
+    expect(right / left).toBeCloseTo(1, 1);
+  });
+
+  it('scales the beeps with the beacon volume', async () => {
+    const quiet = await renderBeacon(12, { beaconVolume: 0.25 });
+    const loud = await renderBeacon(12, { beaconVolume: 0.5 });
+    expect(loud.left / quiet.left).toBeCloseTo(2, 1);
+    expect(loud.right / quiet.right).toBeCloseTo(2, 1);
+  });
+
+  it('stays silent when the beacon is off', async () => {
+    const { left, right } = await renderBeacon(3, { beaconEnabled: false });
+    expect(left).toBe(0);
+    expect(right).toBe(0);
+  });
+
+  it('pans the voice toward the target with equal-power gains', async () => {
+    // pan = sin(azimuth) * voicePanAmount, so ±0.6 at 3 and 9 o'clock.
+    const angle = (pan: number) => (pan + 1) * Math.PI / 4;
+    const right = await renderVoice(3);
+    expect(right.left).toBeCloseTo(0.5 * Math.cos(angle(0.6)), 3);
+    expect(right.right).toBeCloseTo(0.5 * Math.sin(angle(0.6)), 3);
+
+    const left = await renderVoice(9);
+    expect(left.left).toBeCloseTo(0.5 * Math.cos(angle(-0.6)), 3);
+    expect(left.right).toBeCloseTo(0.5 * Math.sin(angle(-0.6)), 3);
+  });
+
+  it('keeps the voice centred ahead or when voice panning is off', async () => {
+    const centre = 0.5 * Math.SQRT1_2;
+    const ahead = await renderVoice(12);
+    expect(ahead.left).toBeCloseTo(centre, 3);
+    expect(ahead.right).toBeCloseTo(centre, 3);
+
+    const unpanned = await renderVoice(3, { panVoice: false });
+    expect(unpanned.left).toBeCloseTo(centre, 3);
+    expect(unpanned.right).toBeCloseTo(centre, 3);
+  });
+});
@@ -0,0 +1,160 @@
+export interface SpatialAudioConfig {
+  beaconEnabled: boolean;
+  /** Route the model voice through a stereo panner aimed at the target. */
+  panVoice: boolean;
+  /** 0-1; how far toward the target side the voice is panned. */
+  voicePanAmount: number;
+  beaconVolume: number;
+}
+
+export const DEFAULT_SPATIAL_AUDIO_CONFIG: SpatialAudioConfig = {
+  beaconEnabled: true,
+  panVoice: true,
+  voicePanAmount: 0.6,
+  beaconVolume: 0.25,
+};
+
+/** Clock face to azimuth in radians: 12 = 0 (ahead), 3 = +π/2 (right), 9 = -π/2 (left). */
+export function clockToAzimuth(clock: number): number {
+  const normalized = ((clock % 12) + 12) % 12;
+  const angle = (normalized / 12) * 2 * Math.PI;
+  return angle > Math.PI ? angle - 2 * Math.PI : angle;
+}
+
+export interface BeaconTiming {
+  frequency: number;
+  /** Seconds between beep onsets. */
+  interval: number;
+  /** Seconds each beep sounds. */
+  duration: number;
+}
+
+const NEAR_STEPS = 1;
+const FAR_STEPS = 10;
+
+/** Closer targets beep higher and faster; unknown distance uses the far setting. */
+export function beaconTiming(distanceSteps: number | null): BeaconTiming {
+  const d = distanceSteps === null ? FAR_STEPS : Math.min(FAR_STEPS, Math.max(NEAR_STEPS, distanceSteps));
+  const closeness = 1 - (d - NEAR_STEPS) / (FAR_STEPS - NEAR_STEPS);
+  return {
+    frequency: 440 + closeness * 440,
+    interval: 1.0 - closeness * 0.8,
+    duration: 0.08,
+  };
+}
+
+/**
+ * A repeating tone placed at the target's bearing with an HRTF panner, plus
+ * an optional stereo panner the model voice can be routed through. Works on
+ * any BaseAudioContext so it can be rendered with an OfflineAudioContext.
+ */
+export class SpatialBeacon {
+  readonly voiceInput: AudioNode;
+  private readonly voicePanner: StereoPannerNode;
+  private readonly panner: PannerNode;
+  private readonly output: GainNode;
+  private azimuth = 0;
+  private timing: BeaconTiming = beaconTiming(null);
+  private nextBeepAt = 0;
+  private running = false;
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(
+    private readonly ctx: BaseAudioContext,
+    private config: SpatialAudioConfig = DEFAULT_SPATIAL_AUDIO_CONFIG,
+    destination: AudioNode = ctx.destination,
+  ) {
+    this.panner = ctx.createPanner();
+    this.panner.panningModel = 'HRTF';
+    this.panner.distanceModel = 'inverse';
+    this.output = ctx.createGain();
+    this.output.gain.value = config.beaconVolume;
+    this.panner.connect(this.output);
+    this.output.connect(destination);
+
+    this.voicePanner = ctx.createStereoPanner();
+    this.voicePanner.connect(destination);
+    this.voiceInput = this.voicePanner;
+    this.applyPosition(ctx.currentTime);
+  }
+
+  get isRunning(): boolean {
+    return this.running;
+  }
+
+  configure(config: SpatialAudioConfig) {
+    this.config = config;
+    this.output.gain.setValueAtTime(config.beaconVolume, this.ctx.currentTime);
+    this.applyPosition(this.ctx.currentTime);
+    if (!config.beaconEnabled) this.stop();
+  }
+
+  setTarget(clockDirection: number, distanceSteps: number | null) {
+    this.azimuth = clockToAzimuth(clockDirection);
+    this.timing = beaconTiming(distanceSteps);
+    this.applyPosition(this.ctx.currentTime);
+  }
+
+  /** Starts the live lookahead loop. Offline renders should call `scheduleUntil` instead. */
+  start() {
+    if (this.running || !this.config.beaconEnabled) return;
+    this.running = true;
+    this.nextBeepAt = this.ctx.currentTime + 0.05;
+    this.scheduleUntil(this.ctx.currentTime + 0.3);
+    this.timer = setInterval(() => this.scheduleUntil(this.ctx.currentTime + 0.3), 100);
+  }
+
+  stop() {
+    this.running = false;
+    if (this.timer !== null) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /** Schedules every beep whose onset falls before `time` (context seconds). */
+  scheduleUntil(time: number) {
+    if (!this.config.beaconEnabled) return;
+    if (this.nextBeepAt < this.ctx.currentTime) this.nextBeepAt = this.ctx.currentTime;
+    while (this.nextBeepAt < time) {
+      this.beep(this.nextBeepAt);
+      this.nextBeepAt += this.timing.interval;
+    }
+  }
+
+  dispose() {
+    this.stop();
+    this.panner.disconnect();
+    this.output.disconnect();
+    this.voicePanner.disconnect();
+  }
+
+  private beep(at: number) {
+    const { frequency, duration } = this.timing;
+    const osc = this.ctx.createOscillator();
+    const env = this.ctx.createGain();
+    osc.frequency.value = frequency;
+    env.gain.setValueAtTime(0, at);
+    env.gain.linearRampToValueAtTime(1, at + 0.01);
+    env.gain.linearRampToValueAtTime(0, at + duration);
+    osc.connect(env);
+    env.connect(this.panner);
+    osc.start(at);
+    osc.stop(at + duration + 0.01);
+    osc.onended = () => env.disconnect();
+  }
+
+  private applyPosition(at: number) {
+    const x = Math.sin(this.azimuth);
+    const z = -Math.cos(this.azimuth);
+    if (this.panner.positionX) {
+      this.panner.positionX.setValueAtTime(x, at);
+      this.panner.positionY.setValueAtTime(0, at);
+      this.panner.positionZ.setValueAtTime(z, at);
+    } else {
+      this.panner.setPosition(x, 0, z);
+    }
+    const pan = this.config.panVoice ? Math.sin(this.azimuth) * this.config.voicePanAmount : 0;
+    this.voicePanner.pan.setValueAtTime(pan, at);
+  }
+}
@@ -0,0 +1,90 @@
+// The Web Speech recognition API is still prefixed in Chromium and missing
+// from the DOM typings, so only the members used here are declared.
+interface SpeechRecognitionResultLike {
+  readonly isFinal: boolean;
+  readonly 0: { transcript: string };
+}
+
+interface SpeechRecognitionLike {
+  lang: string;
+  continuous: boolean;
+  interimResults: boolean;
+  onresult: ((event: { resultIndex: number; results: ArrayLike<SpeechRecognitionResultLike> }) => void) | null;
+  onerror: ((event: { error: string }) => void) | null;
+  onend: (() => void) | null;
+  start(): void;
+  abort(): void;
+}
+
+type SpeechRecognitionCtor = new () => SpeechRecognitionLike;
+
+function recognitionCtor(): SpeechRecognitionCtor | null {
+  if (typeof window === 'undefined') return null;
+  const w = window as any;
+  return w.SpeechRecognition ?? w.webkitSpeechRecognition ?? null;
+}
+
+export function isSpeechCommandsSupported(): boolean {
+  return recognitionCtor() !== null;
+}
+
+export interface SpeechCommandListener {
+  stop(): void;
+}
+
+const RESTART_DELAY_MS = 500;
+const ERROR_RETRY_MS = 5000;
+
+/**
+ * Keeps browser speech recognition running and hands over each final phrase.
+ * Used when there is no live transcript to listen to. Some browsers recognise
+ * in the cloud, so this can fail while offline; it keeps retrying quietly and
+ * the keyboard and gesture controls still work meanwhile. Returns null where
+ * the API is missing.
+ */
+export function startSpeechCommands(lang: string, onPhrase: (text: string) => void): SpeechCommandListener | null {
+  const Ctor = recognitionCtor();
+  if (!Ctor) return null;
+
+  let active = true;
+  let retryDelay = RESTART_DELAY_MS;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  const recognition = new Ctor();
+  recognition.lang = lang;
+  recognition.continuous = true;
+  recognition.interimResults = false;
+
+  recognition.onresult = (event) => {
+    retryDelay = RESTART_DELAY_MS;
+    for (let i = event.resultIndex; i < event.results.length; i++) {
+      const result = event.results[i];
+      if (result.isFinal) onPhrase(result[0].transcript);
+    }
+  };
+  recognition.onerror = (event) => {
+    if (event.error === 'not-allowed' || event.error === 'service-not-allowed') active = false;
+    else if (event.error !== 'no-speech' && event.error !== 'aborted') retryDelay = ERROR_RETRY_MS;
+  };
+  recognition.onend = () => {
+    if (!active) return;
+    timer = setTimeout(() => {
+      timer = null;
+      if (!active) return;
+      try { recognition.start(); } catch {}
+    }, retryDelay);
+  };
+
+  try {
+    recognition.start();
+  } catch {
+    return null;
+  }
+
+  return {
+    stop: () => {
+      active = false;
+      if (timer) clearTimeout(timer);
+      try { recognition.abort(); } catch {}
+    },
+  };
+}
@@ -0,0 +1,12 @@
+/**
+ * Short spoken cues from the browser's own TTS, for moments when the model
+ * cannot talk (link down, local warnings). No-op where speechSynthesis is missing.
+ */
+export function speak(text: string, options: { interrupt?: boolean; lang?: string; rate?: number } = {}) {
+  if (typeof window === 'undefined' || !('speechSynthesis' in window)) return;
+  if (options.interrupt) window.speechSynthesis.cancel();
+  const utterance = new SpeechSynthesisUtterance(text);
+  if (options.lang) utterance.lang = options.lang;
+  if (options.rate) utterance.rate = options.rate;
+  window.speechSynthesis.speak(utterance);
+}
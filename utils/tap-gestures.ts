@@ -0,0 +1,84 @@
+export type TapGesture = 'tap' | 'doubleTap' | 'tripleTap' | 'longPress';
+
+export interface TapGestureConfig {
+  /** A further tap within this window extends a double or triple tap. */
+  doubleTapMs: number;
+  /** Holding this long fires a long press and swallows the release. */
+  longPressMs: number;
+}
+
+export const DEFAULT_TAP_GESTURE_CONFIG: TapGestureConfig = {
+  doubleTapMs: 300,
+  longPressMs: 800,
+};
+
+/**
+ * Tells single, double and triple taps and long presses apart on one large
+ * surface. Single and double taps only fire once the window for another tap
+ * has closed. Feed it
+ * pointer down/cancel and click events; scrolling cancels the pointer, so a
+ * swipe never counts as a tap.
+ */
+export class TapGestureRecognizer {
+  private tapTimer: ReturnType<typeof setTimeout> | null = null;
+  private pressTimer: ReturnType<typeof setTimeout> | null = null;
+  private longPressed = false;
+  private taps = 0;
+
+  constructor(
+    private readonly onGesture: (gesture: TapGesture) => void,
+    private readonly config: TapGestureConfig = DEFAULT_TAP_GESTURE_CONFIG,
+  ) {}
+
+  pointerDown() {
+    this.longPressed = false;
+    this.clearPress();
+    this.pressTimer = setTimeout(() => {
+      this.pressTimer = null;
+      this.longPressed = true;
+      this.clearTap();
+      this.onGesture('longPress');
+    }, this.config.longPressMs);
+  }
+
+  pointerCancel() {
+    this.clearPress();
+  }
+
+  tap() {
+    this.clearPress();
+    if (this.longPressed) {
+      this.longPressed = false;
+      return;
+    }
+    this.clearTap();
+    this.taps++;
+    if (this.taps === 3) {
+      this.taps = 0;
+      this.onGesture('tripleTap');
+      return;
+    }
+    this.tapTimer = setTimeout(() => {
+      const taps = this.taps;
+      this.tapTimer = null;
+      this.taps = 0;
+      this.onGesture(taps === 2 ? 'doubleTap' : 'tap');
+    }, this.config.doubleTapMs);
+  }
+
+  dispose() {
+    this.clearTap();
+    this.clearPress();
+    this.taps = 0;
+  }
+
+  private clearTap() {
+    if (this.tapTimer) clearTimeout(this.tapTimer);
+    this.tapTimer = null;
+  }
+
+  private clearPress() {
+    if (this.pressTimer) clearTimeout(this.pressTimer);
+    this.pressTimer = null;
+  }
+}
@@ -0,0 +1,18 @@
+import { describe, expect, it } from 'vitest';
+import { matchesTask } from './task-list';
+
+const task = (label: string) => ({ label, status: 'pending' as const });
+
+describe('matchesTask', () => {
+  it('ignores case, punctuation and extra words on either side', () => {
+    expect(matchesTask(task('Keys'), 'keys')).toBe(true);
+    expect(matchesTask(task('keys'), 'my keys!')).toBe(true);
+    expect(matchesTask(task('front door'), 'door')).toBe(true);
+  });
+
+  it('rejects other targets and partial words', () => {
+    expect(matchesTask(task('keys'), 'wallet')).toBe(false);
+    expect(matchesTask(task('keys'), 'key')).toBe(false);
+    expect(matchesTask(task('keys'), '  ')).toBe(false);
+  });
+});
@@ -0,0 +1,71 @@
+import { TaskItem } from '../types';
+import { normalizeUtterance } from './voice-commands';
+
+export type TaskListEvent =
+  | { type: 'started'; targets: string[]; name: string | null }
+  | { type: 'found' }
+  | { type: 'skipped' }
+  | { type: 'cleared' };
+
+/** Targets to find one after another, in order. */
+export interface TaskListState {
+  /** Routine the list came from, if any. */
+  name: string | null;
+  items: TaskItem[];
+  /** Index of the target being searched for; -1 once every item is settled. */
+  activeIndex: number;
+}
+
+export interface TaskProgress {
+  found: number;
+  skipped: number;
+  total: number;
+  done: boolean;
+}
+
+const nextPending = (items: TaskItem[], from: number) => items.findIndex((item, i) => i >= from && item.status === 'pending');
+
+export function taskListReducer(state: TaskListState | null, event: TaskListEvent): TaskListState | null {
+  switch (event.type) {
+    case 'started': {
+      const items = event.targets.map(label => label.trim()).filter(Boolean).map(label => ({ label, status: 'pending' as const }));
+      return items.length > 0 ? { name: event.name, items, activeIndex: 0 } : null;
+    }
+    case 'found':
+    case 'skipped': {
+      if (!state || state.activeIndex < 0) return state;
+      const items = state.items.map((item, i) =>
+        i === state.activeIndex ? { ...item, status: event.type === 'found' ? 'found' as const : 'skipped' as const } : item,
+      );
+      return { ...state, items, activeIndex: nextPending(items, state.activeIndex + 1) };
+    }
+    case 'cleared':
+      return null;
+  }
+}
+
+export function activeTask(state: TaskListState | null): TaskItem | null {
+  return state && state.activeIndex >= 0 ? state.items[state.activeIndex] : null;
+}
+
+/**
+ * Whether a label the model reported names this task. Case and punctuation
+ * are ignored, and either side may carry extra words ("my keys" for "keys").
+ */
+export function matchesTask(task: TaskItem, label: string): boolean {
+  const wanted = normalizeUtterance(task.label);
+  const reported = normalizeUtterance(label);
+  if (!wanted || !reported) return false;
+  return ` ${wanted} `.includes(` ${reported} `) || ` ${reported} `.includes(` ${wanted} `);
+}
+
+export function taskProgress(state: TaskListState): TaskProgress {
+  const found = state.items.filter(item => item.status === 'found').length;
+  const skipped = state.items.filter(item => item.status === 'skipped').length;
+  return { found, skipped, total: state.items.length, done: state.activeIndex < 0 };
+}
+
+/** Splits typed input such as "keys, wallet, front door" into targets. */
+export function parseTargetList(text: string): string[] {
+  return text.split(/[,;\n]/).map(target => target.trim()).filter(Boolean);
+}
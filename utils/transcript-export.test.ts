@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { LANGUAGES } from '../i18n/languages';
+import { TranscriptionItem } from '../types';
+import { formatVttTimestamp, toPlainText, toWebVtt } from './transcript-export';
+
+const START = Date.UTC(2025, 0, 1, 9, 0, 0);
+const labels = LANGUAGES.en.ui.sessions.transcript;
+
+const item = (role: TranscriptionItem['role'], text: string, afterMs: number, kind?: TranscriptionItem['kind']): TranscriptionItem => ({
+  role,
+  text,
+  timestamp: START + afterMs,
+  ...(kind ? { kind } : {}),
+});
+
+describe('formatVttTimestamp', () => {
+  it('pads hours, minutes, seconds and milliseconds', () => {
+    expect(formatVttTimestamp(0)).toBe('00:00:00.000');
+    expect(formatVttTimestamp(3723004)).toBe('01:02:03.004');
+    expect(formatVttTimestamp(-5)).toBe('00:00:00.000');
+  });
+});
+
+describe('toWebVtt', () => {
+  it('runs each cue until the next item, capped, and estimates the last one', () => {
+    const vtt = toWebVtt([
+      item('model', 'Turn left.', 2000),
+      item('user', 'Find my keys', 500),
+      item('model', 'Keys ahead.', 20000),
+    ], START, labels);
+    expect(vtt.split('\n')).toEqual([
+      'WEBVTT',
+      '',
+      '1',
+      '00:00:00.500 --> 00:00:02.000',
+      '<v User>Find my keys',
+      '',
+      '2',
+      '00:00:02.000 --> 00:00:10.000',
+      '<v Guide>Turn left.',
+      '',
+      '3',
+      '00:00:20.000 --> 00:00:21.500',
+      '<v Guide>Keys ahead.',
+      '',
+    ]);
+  });
+
+  it('escapes markup and keeps a cue from ending early', () => {
+    const vtt = toWebVtt([item('model', 'Salt & <pepper> --> shelf\n\nsecond line', 0)], START, labels);
+    expect(vtt).toContain('<v Guide>Salt &amp; &lt;pepper&gt; --&gt; shelf\nsecond line');
+    expect(vtt.match(/-->/g)).toHaveLength(1);
+  });
+
+  it('labels read text and helper messages by their kind', () => {
+    const vtt = toWebVtt([
+      item('model', 'Best before June.', 0, 'reading'),
+      item('user', 'It is on your left.', 3000, 'helper'),
+      item('model', 'Keep going.', 6000, 'speech'),
+    ], START, labels);
+    expect(vtt).toContain('<v Guide (read text)>Best before June.');
+    expect(vtt).toContain('<v Helper>It is on your left.');
+    expect(vtt).toContain('<v Guide>Keep going.');
+  });
+});
+
+describe('toPlainText', () => {
+  it('uses the language\'s title and speaker labels', () => {
+    const text = toPlainText([item('model', 'पढ़ा गया', 0, 'reading')], START, LANGUAGES.hi.ui.sessions.transcript);
+    const lines = text.split('\n');
+    expect(lines[0]).toMatch(/^विज़न गाइड AI सत्र - /);
+    expect(lines[2]).toMatch(/\] गाइड \(पढ़ा गया पाठ\): पढ़ा गया$/);
+  });
+});
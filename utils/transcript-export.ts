@@ -0,0 +1,86 @@
+import { TranscriptionItem, TranscriptKind } from '../types';
+
+export type ExportFormat = 'txt' | 'json' | 'vtt';
+
+export type TranscriptSpeaker = TranscriptionItem['role'] | Exclude<TranscriptKind, 'speech'>;
+
+/** The exported transcript's wording, in the user's language. */
+export interface TranscriptLabels {
+  title: (startedAt: string) => string;
+  speakers: Record<TranscriptSpeaker, string>;
+}
+
+const itemLabel = (item: TranscriptionItem, labels: TranscriptLabels) =>
+  labels.speakers[item.kind === 'reading' || item.kind === 'helper' ? item.kind : item.role];
+
+// Cues without a following item get a reading-speed estimate, clamped.
+const MIN_CUE_MS = 1500;
+const MAX_CUE_MS = 8000;
+const MS_PER_WORD = 400;
+
+function clockTime(ms: number): string {
+  return new Date(ms).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+}
+
+/** `HH:MM:SS.mmm`, as WebVTT requires. */
+export function formatVttTimestamp(ms: number): string {
+  const clamped = Math.max(0, Math.round(ms));
+  const h = Math.floor(clamped / 3600000);
+  const m = Math.floor((clamped % 3600000) / 60000);
+  const s = Math.floor((clamped % 60000) / 1000);
+  const milli = clamped % 1000;
+  const pad = (n: number, w = 2) => String(n).padStart(w, '0');
+  return `${pad(h)}:${pad(m)}:${pad(s)}.${pad(milli, 3)}`;
+}
+
+export function toPlainText(items: TranscriptionItem[], sessionStart: number, labels: TranscriptLabels): string {
+  const header = labels.title(new Date(sessionStart).toLocaleString());
+  const lines = items.map(item => `[${clockTime(item.timestamp)}] ${itemLabel(item, labels)}: ${item.text}`);
+  return [header, '', ...lines, ''].join('\n');
+}
+
+export function toJson(items: TranscriptionItem[]): string {
+  return JSON.stringify(items, null, 2);
+}
+
+const escapeVtt = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+/** Captions relative to `sessionStart`; each cue runs until the next item starts. */
+export function toWebVtt(items: TranscriptionItem[], sessionStart: number, labels: TranscriptLabels): string {
+  const sorted = [...items].sort((a, b) => a.timestamp - b.timestamp);
+  const cues = sorted.map((item, i) => {
+    const start = item.timestamp - sessionStart;
+    const estimate = Math.min(MAX_CUE_MS, Math.max(MIN_CUE_MS, item.text.split(/\s+/).length * MS_PER_WORD));
+    const next = sorted[i + 1];
+    const end = next ? Math.max(start + 1, Math.min(next.timestamp - sessionStart, start + MAX_CUE_MS)) : start + estimate;
+    // Cue text is markup, so `&`, `<` and `>` are escaped, which also keeps
+    // "-->" out of it; a blank line would end the cue early.
+    const text = escapeVtt(item.text).replace(/\n\s*\n/g, '\n');
+    return `${i + 1}\n${formatVttTimestamp(start)} --> ${formatVttTimestamp(end)}\n<v ${escapeVtt(itemLabel(item, labels))}>${text}`;
+  });
+  return ['WEBVTT', '', ...cues.flatMap(cue => [cue, ''])].join('\n');
+}
+
+const MIME: Record<ExportFormat, string> = {
+  txt: 'text/plain',
+  json: 'application/json',
+  vtt: 'text/vtt',
+};
+
+export function exportTranscript(items: TranscriptionItem[], sessionStart: number, format: ExportFormat, labels: TranscriptLabels): Blob {
+  const body = format === 'txt' ? toPlainText(items, sessionStart, labels)
+    : format === 'json' ? toJson(items)
+    : toWebVtt(items, sessionStart, labels);
+  return new Blob([body], { type: `${MIME[format]};charset=utf-8` });
+}
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
@@ -0,0 +1,140 @@
+import {
+  DEFAULT_LANGUAGE_SETTINGS,
+  LANGUAGES,
+  LanguageSettings,
+  loadLanguageSettings,
+  UiStrings,
+  VOICE_NAMES
+} from '../i18n/languages';
+import { DEFAULT_HAPTIC_SETTINGS, HAPTIC_INTENSITIES, HapticSettings, loadHapticSettings } from './haptics';
+import { HazardSensitivity } from './hazard-detector';
+
+export type SpeechRate = 'slow' | 'normal' | 'fast';
+export type Verbosity = 'terse' | 'rich';
+export type DistanceUnit = 'steps' | 'feet' | 'meters';
+export type DirectionStyle = 'clock' | 'relative';
+export type CameraFacing = 'environment' | 'user';
+export type FrameBudget = 'saver' | 'balanced' | 'detail';
+export type RelativeDirection = 'ahead' | 'slightlyLeft' | 'left' | 'slightlyRight' | 'right' | 'behind';
+
+export const SPEECH_RATES: SpeechRate[] = ['slow', 'normal', 'fast'];
+export const VERBOSITY_LEVELS: Verbosity[] = ['terse', 'rich'];
+export const DISTANCE_UNITS: DistanceUnit[] = ['steps', 'feet', 'meters'];
+export const DIRECTION_STYLES: DirectionStyle[] = ['clock', 'relative'];
+export const CAMERA_FACINGS: CameraFacing[] = ['environment', 'user'];
+export const FRAME_BUDGETS: FrameBudget[] = ['saver', 'balanced', 'detail'];
+export const HAZARD_SENSITIVITIES: HazardSensitivity[] = ['low', 'medium', 'high'];
+
+/** Everything the user can tune, persisted as one record. */
+export interface UserProfile extends LanguageSettings {
+  speechRate: SpeechRate;
+  verbosity: Verbosity;
+  units: DistanceUnit;
+  directions: DirectionStyle;
+  cameraFacing: CameraFacing;
+  frameBudget: FrameBudget;
+  hazardSensitivity: HazardSensitivity;
+  haptics: HapticSettings;
+}
+
+export const DEFAULT_USER_PROFILE: UserProfile = {
+  ...DEFAULT_LANGUAGE_SETTINGS,
+  speechRate: 'normal',
+  verbosity: 'terse',
+  units: 'steps',
+  directions: 'clock',
+  cameraFacing: 'environment',
+  frameBudget: 'balanced',
+  hazardSensitivity: 'medium',
+  haptics: DEFAULT_HAPTIC_SETTINGS,
+};
+
+/** Multiplier for the browser TTS rate. */
+export const SPEECH_RATE_VALUES: Record<SpeechRate, number> = { slow: 0.8, normal: 1, fast: 1.25 };
+
+/**
+ * Playback rate for the model's voice. Kept close to 1 because resampling
+ * shifts pitch; the pace rule in the prompt does most of the work.
+ */
+export const MODEL_PLAYBACK_RATES: Record<SpeechRate, number> = { slow: 0.92, normal: 1, fast: 1.1 };
+
+/** `FrameSchedulerConfig.budgetScale` for each budget; higher means fewer frames. */
+export const FRAME_BUDGET_SCALE: Record<FrameBudget, number> = { saver: 2, balanced: 1, detail: 0.75 };
+
+/** Fields the model is told about, in the prompt and in mid-session updates. */
+export const PROMPT_FIELDS: (keyof UserProfile)[] = ['speechRate', 'verbosity', 'units', 'directions'];
+
+const STEP_LENGTH_METERS = 0.75;
+const FEET_PER_METER = 3.281;
+
+/** Converts a step count from `reportTarget` into the user's unit, rounded for speech. */
+export function convertSteps(steps: number, unit: DistanceUnit): number {
+  if (unit === 'steps') return steps;
+  const meters = steps * STEP_LENGTH_METERS;
+  if (unit === 'meters') return Math.round(meters * 2) / 2;
+  return Math.round(meters * FEET_PER_METER);
+}
+
+export function clockToRelative(clock: number): RelativeDirection {
+  const hour = ((Math.round(clock) % 12) + 12) % 12 || 12;
+  if (hour === 12) return 'ahead';
+  if (hour === 1) return 'slightlyRight';
+  if (hour === 11) return 'slightlyLeft';
+  if (hour >= 2 && hour <= 4) return 'right';
+  if (hour >= 8 && hour <= 10) return 'left';
+  return 'behind';
+}
+
+export function describeDirection(ui: UiStrings, clock: number, style: DirectionStyle): string {
+  return style === 'clock' ? ui.clock(clock) : ui.relative[clockToRelative(clock)];
+}
+
+export function describeDistance(ui: UiStrings, steps: number | null, unit: DistanceUnit): string | null {
+  return steps === null ? null : ui.distance[unit](convertSteps(steps, unit));
+}
+
+export function changedFields(prev: UserProfile, next: UserProfile): (keyof UserProfile)[] {
+  return (Object.keys(next) as (keyof UserProfile)[]).filter(key => prev[key] !== next[key]);
+}
+
+function pick<T>(value: unknown, allowed: readonly T[], fallback: T): T {
+  return allowed.includes(value as T) ? value as T : fallback;
+}
+
+/** Drops unknown or stale values so an old or hand-edited record can't break the app. */
+export function sanitizeProfile(raw: Partial<UserProfile>): UserProfile {
+  const d = DEFAULT_USER_PROFILE;
+  const haptics = raw.haptics ?? d.haptics;
+  return {
+    language: raw.language && raw.language in LANGUAGES ? raw.language : d.language,
+    voice: pick(raw.voice, VOICE_NAMES, d.voice),
+    speechRate: pick(raw.speechRate, SPEECH_RATES, d.speechRate),
+    verbosity: pick(raw.verbosity, VERBOSITY_LEVELS, d.verbosity),
+    units: pick(raw.units, DISTANCE_UNITS, d.units),
+    directions: pick(raw.directions, DIRECTION_STYLES, d.directions),
+    cameraFacing: pick(raw.cameraFacing, CAMERA_FACINGS, d.cameraFacing),
+    frameBudget: pick(raw.frameBudget, FRAME_BUDGETS, d.frameBudget),
+    hazardSensitivity: pick(raw.hazardSensitivity, HAZARD_SENSITIVITIES, d.hazardSensitivity),
+    haptics: {
+      enabled: typeof haptics.enabled === 'boolean' ? haptics.enabled : d.haptics.enabled,
+      intensity: pick(haptics.intensity, HAPTIC_INTENSITIES, d.haptics.intensity),
+    },
+  };
+}
+
+const STORAGE_KEY = 'visionguide.profile';
+
+/** Falls back to the older per-feature keys so existing choices carry over. */
+export function loadUserProfile(): UserProfile {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (raw) return sanitizeProfile(JSON.parse(raw));
+  } catch {}
+  return sanitizeProfile({ ...loadLanguageSettings(), haptics: loadHapticSettings() });
+}
+
+export function saveUserProfile(profile: UserProfile) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(profile));
+  } catch {}
+}
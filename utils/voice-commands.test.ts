@@ -0,0 +1,120 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { LANGUAGES } from '../i18n/languages';
+import { COMMAND_SETTLE_MS, ENGLISH_COMMAND_GRAMMAR, matchVoiceCommand, VoiceCommand, VoiceCommandRecognizer } from './voice-commands';
+
+const match = (text: string, code: keyof typeof LANGUAGES = 'en') => matchVoiceCommand(text, LANGUAGES[code].commands);
+
+describe('matchVoiceCommand', () => {
+  it('matches whole English utterances, ignoring case and punctuation', () => {
+    expect(match('Stop!')).toEqual({ type: 'stop' });
+    expect(match('Pause the camera.')).toEqual({ type: 'pauseVideo' });
+    expect(match("What's around me?")).toEqual({ type: 'describeScene' });
+    expect(match('Read the label')).toEqual({ type: 'readText' });
+    expect(match('is there a stop sign')).toBeNull();
+    expect(match('')).toBeNull();
+  });
+
+  it('captures targets, task lists and routine names', () => {
+    expect(match('Change target to my keys')).toEqual({ type: 'changeTarget', target: 'keys' });
+    expect(match('Find my wallet then the keys and then my phone')).toEqual({ type: 'startTasks', targets: ['wallet', 'keys', 'phone'] });
+    expect(match('Start the morning routine')).toEqual({ type: 'startRoutine', name: 'morning' });
+    expect(match('Save this as my morning routine')).toEqual({ type: 'saveRoutine', name: 'morning' });
+  });
+
+  it('matches the Hindi grammar', () => {
+    expect(match('रुको', 'hi')).toEqual({ type: 'stop' });
+    expect(match('कैमरा बंद करो', 'hi')).toEqual({ type: 'pauseVideo' });
+    expect(match('अब चाबी ढूंढो', 'hi')).toEqual({ type: 'changeTarget', target: 'चाबी' });
+    expect(match('बटुआ फिर चाबी ढूंढो', 'hi')).toEqual({ type: 'startTasks', targets: ['बटुआ', 'चाबी'] });
+    expect(match('रुको यह क्या है', 'hi')).toBeNull();
+  });
+
+  it('matches the Marathi grammar', () => {
+    expect(match('थांबा', 'mr')).toEqual({ type: 'stop' });
+    expect(match('हे वाचा', 'mr')).toEqual({ type: 'readText' });
+    expect(match('नवीन लक्ष्य चष्मा', 'mr')).toEqual({ type: 'changeTarget', target: 'चष्मा' });
+    expect(match('पाकीट मग चावी शोधा', 'mr')).toEqual({ type: 'startTasks', targets: ['पाकीट', 'चावी'] });
+  });
+});
+
+describe('VoiceCommandRecognizer', () => {
+  let fired: VoiceCommand[];
+  let recognizer: VoiceCommandRecognizer;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    fired = [];
+    recognizer = new VoiceCommandRecognizer(command => fired.push(command), ENGLISH_COMMAND_GRAMMAR);
+    recognizer.startUtterance();
+  });
+
+  afterEach(() => vi.useRealTimers());
+
+  it('waits for speech to end and the text to settle', () => {
+    recognizer.push('stop');
+    vi.advanceTimersByTime(COMMAND_SETTLE_MS * 2);
+    expect(fired).toEqual([]);
+
+    recognizer.endUtterance();
+    vi.advanceTimersByTime(COMMAND_SETTLE_MS - 1);
+    expect(fired).toEqual([]);
+    vi.advanceTimersByTime(1);
+    expect(fired).toEqual([{ type: 'stop' }]);
+  });
+
+  it('does not fire on a prefix when the rest of the transcript lags the VAD', () => {
+    recognizer.push('Stop');
+    recognizer.endUtterance();
+    vi.advanceTimersByTime(COMMAND_SETTLE_MS / 2);
+    recognizer.push(" ... wait, what's that?");
+    vi.advanceTimersByTime(COMMAND_SETTLE_MS * 2);
+    expect(fired).toEqual([]);
+
+    recognizer.startUtterance();
+    recognizer.push('change target to key');
+    recognizer.endUtterance();
+    vi.advanceTimersByTime(COMMAND_SETTLE_MS / 2);
+    recognizer.push('s');
+    vi.advanceTimersByTime(COMMAND_SETTLE_MS);
+    expect(fired).toEqual([{ type: 'changeTarget', target: 'keys' }]);
+  });
+
+  it('matches at once when the turn completes', () => {
+    recognizer.push('mute');
+    recognizer.endUtterance();
+    recognizer.finish();
+    expect(fired).toEqual([{ type: 'mute' }]);
+    vi.advanceTimersByTime(COMMAND_SETTLE_MS);
+    expect(fired).toHaveLength(1);
+  });
+
+  it('leaves an utterance still being spoken to the next turn', () => {
+    recognizer.push('stop');
+    recognizer.finish();
+    expect(fired).toEqual([]);
+  });
+
+  it('fires at most one command per utterance', () => {
+    recognizer.push('repeat');
+    recognizer.endUtterance();
+    vi.advanceTimersByTime(COMMAND_SETTLE_MS);
+    recognizer.finish();
+    recognizer.endUtterance();
+    vi.advanceTimersByTime(COMMAND_SETTLE_MS);
+    expect(fired).toEqual([{ type: 'repeat' }]);
+
+    recognizer.startUtterance();
+    recognizer.push('repeat');
+    recognizer.endUtterance();
+    recognizer.finish();
+    expect(fired).toHaveLength(2);
+  });
+
+  it('drops a pending match when disposed', () => {
+    recognizer.push('stop');
+    recognizer.endUtterance();
+    recognizer.dispose();
+    vi.advanceTimersByTime(COMMAND_SETTLE_MS);
+    expect(fired).toEqual([]);
+  });
+});
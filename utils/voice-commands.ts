@@ -0,0 +1,158 @@
+export type VoiceCommand =
+  | { type: 'stop' }
+  | { type: 'pauseVideo' }
+  | { type: 'resumeVideo' }
+  | { type: 'repeat' }
+  | { type: 'whereWasI' }
+  | { type: 'mute' }
+  | { type: 'unmute' }
+  | { type: 'describeScene' }
+  | { type: 'readText' }
+  | { type: 'taskFound' }
+  | { type: 'taskSkip' }
+  | { type: 'changeTarget'; target: string }
+  | { type: 'startTasks'; targets: string[] }
+  | { type: 'startRoutine'; name: string }
+  | { type: 'saveRoutine'; name: string };
+
+type CapturingCommand = 'changeTarget' | 'startTasks' | 'startRoutine' | 'saveRoutine';
+type SimpleCommand = Exclude<VoiceCommand['type'], CapturingCommand>;
+
+const SIMPLE_COMMANDS: SimpleCommand[] = [
+  'stop', 'pauseVideo', 'resumeVideo', 'repeat', 'whereWasI', 'mute', 'unmute', 'describeScene', 'readText', 'taskFound', 'taskSkip',
+];
+
+/**
+ * Per-language command patterns, tested against a whole normalized utterance
+ * so "stop" matches but "is there a stop sign" does not. Capturing commands
+ * put their argument in the first matching capture group; `startTasks`
+ * captures the whole list, which `taskSeparator` then splits.
+ */
+export type CommandGrammar = Record<SimpleCommand | CapturingCommand, RegExp> & { taskSeparator: RegExp };
+
+export const ENGLISH_COMMAND_GRAMMAR: CommandGrammar = {
+  stop: /^(stop|stop guiding|stop guidance|end session|disconnect|goodbye)$/,
+  pauseVideo: /^(pause|pause (the )?(camera|video)|camera off)$/,
+  resumeVideo: /^(resume|unpause|resume (the )?(camera|video)|camera on)$/,
+  repeat: /^(repeat|repeat that|say (that|it) again|again|what did you say)$/,
+  whereWasI: /^(where was i|what was i doing|what am i looking for)$/,
+  mute: /^(mute|be quiet|quiet|silence)$/,
+  unmute: /^(unmute|sound on|speak again)$/,
+  describeScene: /^(describe|describe (the )?(scene|room|surroundings)|what( i| )s around( me)?)$/,
+  readText: /^(read (this|that|it)( for me)?|read (the )?(label|text|sign|writing)|what does (this|that|it) say)$/,
+  taskFound: /^(found it|got it|i (have|ve got|got) it)$/,
+  taskSkip: /^(skip|skip (it|this|this one|that)|next|next one)$/,
+  startTasks: /^(?:find|look for|help me find|now find) (?:my |the |a )?(.+ then .+)$/,
+  taskSeparator: / (?:and )?then (?:my |the |a )?/,
+  startRoutine: /^(?:start|run|begin) (?:the |my )?(?:routine )?(.+?) routine$|^(?:start|run|begin) routine (.+)$/,
+  saveRoutine: /^save (?:this|this list|the list|these) as (?:my )?(.+?)(?: routine)?$/,
+  changeTarget: /^(?:change (?:the )?target to|switch target to|new target|now find|now look for) (?:my |the |a )?(.+)$/,
+};
+
+/** Lower-cases and strips punctuation, keeping letters and combining marks of any script. */
+export function normalizeUtterance(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{M}\p{N}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+export function matchVoiceCommand(text: string, grammar: CommandGrammar): VoiceCommand | null {
+  const utterance = normalizeUtterance(text);
+  if (!utterance) return null;
+  const capture = (pattern: RegExp) => pattern.exec(utterance)?.slice(1).find(Boolean);
+  const routine = capture(grammar.startRoutine);
+  if (routine) return { type: 'startRoutine', name: routine };
+  const saved = capture(grammar.saveRoutine);
+  if (saved) return { type: 'saveRoutine', name: saved };
+  const targets = capture(grammar.startTasks)?.split(grammar.taskSeparator).map(t => t.trim()).filter(Boolean);
+  if (targets && targets.length > 1) return { type: 'startTasks', targets };
+  const target = capture(grammar.changeTarget);
+  if (target) return { type: 'changeTarget', target };
+  const simple = SIMPLE_COMMANDS.find(type => grammar[type].test(utterance));
+  return simple ? { type: simple } : null;
+}
+
+/**
+ * Transcription trails the local VAD, so once speech has ended the recognizer
+ * waits this long without new text before treating the utterance as complete.
+ */
+export const COMMAND_SETTLE_MS = 700;
+
+/**
+ * Watches one user utterance at a time for a control command. The transcript
+ * streams in pieces and lags the local VAD, and a prefix such as "stop" can
+ * match before "…wait, what's that" arrives. So the text is only matched once
+ * it is final: when the turn completes, or when speech has ended and no new
+ * text has come for `settleMs`. At most one command fires per utterance.
+ */
+export class VoiceCommandRecognizer {
+  private text = '';
+  private ended = false;
+  private fired = false;
+  private settleTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    private readonly onCommand: (command: VoiceCommand) => void,
+    private grammar: CommandGrammar = ENGLISH_COMMAND_GRAMMAR,
+    private readonly settleMs = COMMAND_SETTLE_MS,
+  ) {}
+
+  configure(grammar: CommandGrammar) {
+    this.grammar = grammar;
+  }
+
+  startUtterance() {
+    this.clearSettle();
+    this.text = '';
+    this.ended = false;
+    this.fired = false;
+  }
+
+  push(chunk: string) {
+    this.text += chunk;
+    if (this.ended) this.settle();
+  }
+
+  /** The local VAD heard the end of speech; the transcript may still be arriving. */
+  endUtterance() {
+    this.ended = true;
+    this.settle();
+  }
+
+  /**
+   * The turn is complete, so the transcription of an ended utterance is final.
+   * One still being spoken belongs to the next turn and keeps waiting.
+   */
+  finish() {
+    if (!this.ended) return;
+    this.clearSettle();
+    this.evaluate();
+  }
+
+  dispose() {
+    this.startUtterance();
+  }
+
+  private settle() {
+    this.clearSettle();
+    this.settleTimer = setTimeout(() => {
+      this.settleTimer = null;
+      this.evaluate();
+    }, this.settleMs);
+  }
+
+  private clearSettle() {
+    if (this.settleTimer) clearTimeout(this.settleTimer);
+    this.settleTimer = null;
+  }
+
+  private evaluate() {
+    if (this.fired) return;
+    const command = matchVoiceCommand(this.text, this.grammar);
+    if (!command) return;
+    this.fired = true;
+    this.onCommand(command);
+  }
+}
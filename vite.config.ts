@@ -8,11 +8,28 @@ export default defineConfig(({ mode }) => {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        // The Gemini key stays with the token server; the browser only gets short-lived tokens.
+        proxy: {
+          // Forwards the caller's address, so an anonymous token server can turn away other machines.
+          '/api': { target: `http://127.0.0.1:${env.TOKEN_SERVER_PORT || 8788}`, xfwd: true },
+          // Helper-mode signaling, so the app and the helper page share one origin.
+          '/signal': { target: `ws://localhost:${env.SIGNALING_PORT || 8789}`, ws: true },
+        },
+      },
+      build: {
+        rollupOptions: {
+          input: {
+            main: path.resolve(__dirname, 'index.html'),
+            helper: path.resolve(__dirname, 'helper.html'),
+          },
+        },
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.TOKEN_URL': JSON.stringify(env.TOKEN_URL),
+        'process.env.LIVE_MOCK_URL': JSON.stringify(env.LIVE_MOCK_URL),
+        'process.env.SIGNALING_URL': JSON.stringify(env.SIGNALING_URL),
+        'process.env.STUN_URL': JSON.stringify(env.STUN_URL)
       },
       resolve: {
         alias: {